@@ -0,0 +1,28 @@
+-- 050-failed-heights.sql
+-- Purpose: dead-letter registry for heights that exhausted their retries during indexing.
+-- Notes:
+--   * One row per height; repeated failures update the same row.
+--   * Open holes are rows with resolved_at IS NULL.
+
+CREATE TABLE IF NOT EXISTS core.failed_heights
+(
+    height          BIGINT PRIMARY KEY,
+    stage           TEXT        NOT NULL, -- fetchBlock | fetchBlockResults | decode#i | assemble
+    error           TEXT        NOT NULL,
+    attempts        INT         NOT NULL DEFAULT 1,
+    retry_count     INT         NOT NULL DEFAULT 0,
+    first_failed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    last_failed_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+    next_retry_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+    resolved_at     TIMESTAMPTZ NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_failed_heights_due
+    ON core.failed_heights (next_retry_at)
+    WHERE resolved_at IS NULL;
+
+COMMENT ON TABLE core.failed_heights IS 'Heights that failed to index after all retries (dead-letter queue).';
+COMMENT ON COLUMN core.failed_heights.stage IS 'Pipeline stage that failed last: fetchBlock, fetchBlockResults, decode#i or assemble.';
+COMMENT ON COLUMN core.failed_heights.attempts IS 'Total number of failed attempts, including in-pipeline retries.';
+COMMENT ON COLUMN core.failed_heights.retry_count IS 'Number of dead-letter retry rounds; drives the backoff schedule.';
+COMMENT ON COLUMN core.failed_heights.resolved_at IS 'Set once the height has been indexed successfully.';
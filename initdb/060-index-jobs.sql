@@ -0,0 +1,33 @@
+-- 060-index-jobs.sql
+-- Purpose: cooperative range job queue for elastic backfills (JOBS=true).
+-- Notes:
+--   * One row per chunk of heights; `queue` is the progress id the chunks belong to.
+--   * Workers claim chunks with FOR UPDATE SKIP LOCKED and hold them with a renewable lease.
+--   * A running chunk whose lease expired is claimable again.
+
+CREATE TABLE IF NOT EXISTS core.index_jobs
+(
+    queue       TEXT        NOT NULL,
+    from_height BIGINT      NOT NULL,
+    to_height   BIGINT      NOT NULL,
+    status      TEXT        NOT NULL DEFAULT 'pending', -- pending | running | done | failed
+    owner       TEXT        NULL,
+    lease_until TIMESTAMPTZ NULL,
+    attempts    INT         NOT NULL DEFAULT 0,
+    last_error  TEXT        NULL,
+    created_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (queue, from_height),
+    CHECK (to_height >= from_height),
+    CHECK (status IN ('pending', 'running', 'done', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_index_jobs_open
+    ON core.index_jobs (queue, from_height)
+    WHERE status IN ('pending', 'running');
+
+COMMENT ON TABLE core.index_jobs IS 'Chunks of heights claimed by indexer replicas running in job mode.';
+COMMENT ON COLUMN core.index_jobs.queue IS 'Progress id the chunk belongs to; its contiguous done prefix is stored as that progress.';
+COMMENT ON COLUMN core.index_jobs.owner IS 'Worker holding (or last holding) the chunk, as host:pid.';
+COMMENT ON COLUMN core.index_jobs.lease_until IS 'A running chunk may be reclaimed by another worker after this time.';
+COMMENT ON COLUMN core.index_jobs.attempts IS 'Number of times the chunk was claimed; failed after JOB_MAX_ATTEMPTS.';
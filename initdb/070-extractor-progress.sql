@@ -0,0 +1,22 @@
+-- 070-extractor-progress.sql
+-- Purpose: per-extractor progress and versions of the derived domain tables.
+-- Notes:
+--   * One row per extractor (transfers, stake, wasm); see src/sink/pg/extractors.ts.
+--   * last_height is the highest height written by the indexer tip with this extractor.
+--   * backfill_next..backfill_to is the range still to be rebuilt from core rows after the
+--     extractor was added or its version changed; both are NULL once the extractor is complete.
+
+CREATE TABLE IF NOT EXISTS core.extractor_progress
+(
+    extractor     TEXT        PRIMARY KEY,
+    version       INT         NOT NULL,
+    last_height   BIGINT      NULL,
+    backfill_next BIGINT      NULL,
+    backfill_to   BIGINT      NULL,
+    updated_at    TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE core.extractor_progress IS 'Progress and derivation version of each domain extractor.';
+COMMENT ON COLUMN core.extractor_progress.version IS 'Version of the derivation logic the extractor tables are (being) built with.';
+COMMENT ON COLUMN core.extractor_progress.backfill_next IS 'Next height to rebuild from core rows; NULL when nothing is pending.';
+COMMENT ON COLUMN core.extractor_progress.backfill_to IS 'Last height to rebuild; heights above it were written by the tip with the current version.';
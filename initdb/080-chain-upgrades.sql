@@ -0,0 +1,15 @@
+-- 080-chain-upgrades.sql
+-- Purpose: heights of the software upgrades of the chain, used to pick the proto root of a height.
+-- Notes:
+--   * Rows are added by the indexer when a block carries an `upgrade` event whose name appears in
+--     the proto manifest (PROTO_MANIFEST), and may be inserted by hand before a backfill.
+--   * height is the first height executed by the upgraded binary.
+
+CREATE TABLE IF NOT EXISTS core.chain_upgrades
+(
+    name        TEXT        PRIMARY KEY,
+    height      BIGINT      NOT NULL,
+    recorded_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE core.chain_upgrades IS 'Software upgrades of the chain and the height they were applied at.';
@@ -0,0 +1,24 @@
+-- 090-nested-messages.sql
+-- Purpose: store messages nested in other messages (authz MsgExec, gov and group proposals, ICA
+--          packets) as core.messages rows of their own.
+-- Notes:
+--   * A nested row keeps the msg_index of its top-level message; inner_index is its path below it:
+--     '{}' for the top-level message, '{1}' for its second nested message, '{1,0}' one level down.
+--   * inner_index joins the primary key, so existing rows keep their key with '{}'.
+
+ALTER TABLE core.messages ADD COLUMN IF NOT EXISTS inner_index INT[] NOT NULL DEFAULT '{}';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint c
+    JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = ANY (c.conkey)
+    WHERE c.conrelid = 'core.messages'::regclass AND c.contype = 'p' AND a.attname = 'inner_index'
+  ) THEN
+    ALTER TABLE core.messages DROP CONSTRAINT IF EXISTS messages_pkey;
+    ALTER TABLE core.messages ADD PRIMARY KEY (height, tx_hash, msg_index, inner_index);
+  END IF;
+END $$;
+
+COMMENT ON COLUMN core.messages.inner_index IS 'Path of a nested message below its top-level message msg_index; empty for top-level messages.';
@@ -0,0 +1,23 @@
+-- 100-wasm-executions-inner-index.sql
+-- Purpose: key wasm.executions by the path of nested messages too, so several MsgExecuteContract
+--          run through one top-level message (e.g. authz MsgExec) each keep their row.
+-- Notes:
+--   * inner_index matches core.messages.inner_index: '{}' for top-level messages (see 090).
+--   * Existing rows keep their key with '{}'; the extractor version bump rebuilds the table.
+
+ALTER TABLE wasm.executions ADD COLUMN IF NOT EXISTS inner_index INT[] NOT NULL DEFAULT '{}';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint c
+    JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = ANY (c.conkey)
+    WHERE c.conrelid = 'wasm.executions'::regclass AND c.contype = 'p' AND a.attname = 'inner_index'
+  ) THEN
+    ALTER TABLE wasm.executions DROP CONSTRAINT IF EXISTS executions_pkey;
+    ALTER TABLE wasm.executions ADD PRIMARY KEY (height, tx_hash, msg_index, inner_index);
+  END IF;
+END $$;
+
+COMMENT ON COLUMN wasm.executions.inner_index IS 'Path of a nested execution below its top-level message msg_index; empty for top-level messages.';
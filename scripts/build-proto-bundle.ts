@@ -0,0 +1,39 @@
+// scripts/build-proto-bundle.ts
+import path from 'node:path';
+import { getLogger } from '../src/utils/logger.ts';
+import { buildProtoBundle } from '../src/decode/protoBundle.ts';
+import { loadProtoManifest } from '../src/decode/protoManifest.ts';
+
+const log = getLogger('scripts/build-proto-bundle');
+
+/**
+ * Proto directories to compile: the arguments when given, otherwise `PROTO_DIR` (or `protos/`)
+ * and every root of `PROTO_MANIFEST`.
+ */
+function protoDirs(): string[] {
+  const args = process.argv.slice(2);
+  if (args.length > 0) return args.map((d) => path.resolve(d));
+  const dirs = [path.resolve(process.env.PROTO_DIR || 'protos')];
+  if (process.env.PROTO_MANIFEST) {
+    dirs.push(...loadProtoManifest(process.env.PROTO_MANIFEST).roots.map((r) => r.protoDir));
+  }
+  return [...new Set(dirs)];
+}
+
+async function main() {
+  const bundleDir = path.resolve(process.env.PROTO_BUNDLE_DIR || path.join('src', 'generated', 'proto-bundles'));
+  let failed = 0;
+  for (const dir of protoDirs()) {
+    try {
+      const res = await buildProtoBundle(dir, bundleDir);
+      const what = res.written ? '✅ wrote' : '✔ up to date';
+      log.info(`${what} ${res.file} (${dir}, ${res.files} files)`);
+    } catch (e: any) {
+      failed++;
+      log.error(`❌ ${dir}: ${String(e?.message ?? e)}`);
+    }
+  }
+  if (failed > 0) process.exit(1);
+}
+
+main();
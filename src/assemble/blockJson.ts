@@ -15,6 +15,16 @@ import { getLogger } from '../utils/logger.js';
 
 const log = getLogger('assemble/blockJson');
 
+/**
+ * Per-transaction encodings computed off the main thread, parallel to the block's `txs`.
+ * @property {string[]} hashes - Uppercase hex SHA-256 hashes of the raw transactions.
+ * @property {string[]} hex - Uppercase hex of the raw transactions.
+ */
+export type TxEncodings = {
+  hashes: string[];
+  hex: string[];
+};
+
 /**
  * Extracts basic block metadata from a Tendermint RPC block response.
  * @param {any} b - Raw response returned by `rpc.block(height)`.
@@ -70,6 +80,7 @@ function getTxsResults(br: any, count: number): TxsResult[] {
  * @param {any[]} decoded - Transactions decoded by the tx decode pool (parallel to `txsB64`).
  * @param {any} br - Raw `block_results` response for the same height.
  * @param {CaseMode} [caseMode='snake'] - Case conversion mode for decoded message payload keys.
+ * @param {TxEncodings} [encodings] - Hashes and hex already computed by the decode worker.
  * @returns {Promise<BlockJson['txs']>} Normalized per-transaction records ready for sinks.
  */
 export async function assembleTxObjects(
@@ -78,14 +89,20 @@ export async function assembleTxObjects(
   decoded: any[],
   br: any,
   caseMode: CaseMode = 'snake',
+  encodings?: TxEncodings,
 ) {
   const results = getTxsResults(br, txsB64.length);
   const out: BlockJson['txs'] = [];
 
   for (let i = 0; i < txsB64.length; i++) {
     const rawB64 = txsB64[i];
-    const rawBytes = base64ToBytes(rawB64!);
-    const hash = await sha256Hex(rawBytes);
+    let hash = encodings?.hashes[i];
+    let hex = encodings?.hex[i];
+    if (hash === undefined || hex === undefined) {
+      const rawBytes = base64ToBytes(rawB64!);
+      hash = await sha256Hex(rawBytes);
+      hex = bytesToHex(rawBytes).toUpperCase();
+    }
 
     const decodedTx = decoded[i] ?? {
       '@type': '/cosmos.tx.v1beta1.Tx',
@@ -121,7 +138,7 @@ export async function assembleTxObjects(
     out.push({
       index: i,
       hash,
-      raw: { base64: rawB64!, hex: bytesToHex(rawBytes).toUpperCase() },
+      raw: { base64: rawB64!, hex },
       decoded: { ...decodedTx, body },
       tx_response: {
         height: String(br?.height ?? ''),
@@ -150,6 +167,7 @@ export async function assembleTxObjects(
  * @param {any} blockResultsResp - Raw response from `rpc.fetchBlockResults(height)`.
  * @param {any[]} decodedTxs - Array of decoded transactions, parallel to block txs.
  * @param {CaseMode} [caseMode='snake'] - Case conversion mode for decoded message payload keys.
+ * @param {TxEncodings} [encodings] - Hashes and hex already computed by the decode worker.
  * @returns {Promise<BlockJson>} Fully assembled block representation.
  */
 export async function assembleBlockJsonFromParts(
@@ -158,10 +176,11 @@ export async function assembleBlockJsonFromParts(
   blockResultsResp: any,
   decodedTxs: any[],
   caseMode: CaseMode = 'snake',
+  encodings?: TxEncodings,
 ): Promise<BlockJson> {
   const meta = getMeta(blockResp);
   const txsB64 = getTxsBase64(blockResp);
-  const txObjs = await assembleTxObjects(meta.time, txsB64, decodedTxs, blockResultsResp, caseMode);
+  const txObjs = await assembleTxObjects(meta.time, txsB64, decodedTxs, blockResultsResp, caseMode, encodings);
   return {
     meta: { chain_id: meta.chain_id, height: meta.height, time: meta.time },
     block: stripLarge(blockResp),
@@ -1,18 +1,46 @@
 // src/config.ts
 import { SinkKind } from './sink/types.js';
-import { ArgMap, Config } from './types.js';
+import { ArgMap, Command, Config } from './types.js';
 import { loadDotEnvIfPresent } from './config/dotenv.js';
-import { parseArgv } from './config/argv.js';
-import { asBool, asLogLevel, asPgMode, asPositiveInt, asString } from './config/parsers.js';
+import { CommandLine, parseCommandLine } from './config/argv.js';
+import { checkCommandOptions, COMMANDS, findCommand } from './config/commands.js';
+import { asBool, asLogLevel, asPgMode, asPositiveInt, asString, asTime } from './config/parsers.js';
 import { validateConfig } from './config/validate.js';
+import { parseRpcEndpoints } from './rpc/pool.js';
 export { printConfig } from './config/printer.js';
 
 /**
- * Build and return the runtime configuration.
+ * Resolve the command to run. Without a command on the command line, the deprecated
+ * `--repair`/`--rederive` flags (or `REPAIR`/`REDERIVE`) still select those commands.
+ * The alias flags are removed from `args`.
  */
-export function getConfig(): Config {
+function resolveCommand(cli: CommandLine, args: ArgMap): Command {
+  if (cli.command !== undefined) {
+    const spec = findCommand(cli.command);
+    if (!spec) {
+      throw new Error(`unknown command "${cli.command}" (commands: ${Object.keys(COMMANDS).join(', ')})`);
+    }
+    if (cli.positionals.length) throw new Error(`unexpected argument "${cli.positionals[0]}" for "${spec.name}"`);
+    return spec.name;
+  }
+
+  const repair = asBool('repair', args['repair'] ?? process.env.REPAIR ?? false, false);
+  const rederive = asBool('rederive', args['rederive'] ?? process.env.REDERIVE ?? false, false);
+  delete args['repair'];
+  delete args['rederive'];
+  if (rederive && repair) throw new Error('REDERIVE=true cannot be combined with REPAIR=true');
+  return repair ? 'repair' : rederive ? 'rederive' : 'index';
+}
+
+/**
+ * Build and return the runtime configuration of a command line.
+ * Flags the command does not accept are rejected.
+ */
+export function getConfig(cli: CommandLine = parseCommandLine()): Config {
   loadDotEnvIfPresent();
-  const args: ArgMap = parseArgv();
+  const args: ArgMap = { ...cli.args };
+  const command = resolveCommand(cli, args);
+  checkCommandOptions(command, args);
 
   const rpcUrl = asString('RPC_URL', (args.rpcUrl as string) ?? process.env.RPC_URL ?? 'http://127.0.0.1:26657');
 
@@ -41,12 +69,61 @@ export function getConfig(): Config {
 
   const resolveLatestTo = wantsLatest;
 
+  const fromTime = asTime('from-time', args['from-time'] ?? process.env.FROM_TIME);
+  const toTime = asTime('to-time', args['to-time'] ?? process.env.TO_TIME);
+  if (fromTime && from !== undefined) throw new Error('from-time cannot be combined with from');
+  if (toTime && (to !== undefined || wantsLatest)) throw new Error('to-time cannot be combined with to');
+  if (fromTime && toTime && toTime < fromTime)
+    throw new Error(`to-time (${toTime}) must be >= from-time (${fromTime})`);
+
   const resume = asBool('resume', args['resume'] ?? process.env.RESUME ?? false, false);
+  const dryRun = asBool('dry-run', args['dry-run'] ?? process.env.DRY_RUN ?? false, false);
+  const verifySample = asPositiveInt('sample', (args['sample'] as string) ?? process.env.VERIFY_SAMPLE ?? 0);
+  const migrationsDir = (args['migrations-dir'] as string | undefined) ?? (process.env.MIGRATIONS_DIR || undefined);
+  // The files an existing database already has differ by deployment, so the last one must be named.
+  if (args['baseline'] === true) {
+    throw new Error('baseline needs the last file the database already has, e.g. --baseline=045-sql-fixes.sql');
+  }
+  const migrateBaseline = (args['baseline'] as string | undefined) || undefined;
+  const rederiveWindow = asPositiveInt(
+    'rederive-window',
+    (args['rederive-window'] as string) ?? process.env.REDERIVE_WINDOW ?? 1000,
+  );
+  if (rederiveWindow <= 0) throw new Error(`rederive-window must be >= 1, got ${rederiveWindow}`);
+  const extractorCatchUp = asBool(
+    'extractor-catchup',
+    args['extractor-catchup'] ?? process.env.EXTRACTOR_CATCHUP ?? true,
+    true,
+  );
 
   const shards = asPositiveInt('shards', (args.shards as string) ?? process.env.SHARDS ?? 1);
   const shardId = asPositiveInt('shard-id', (args['shard-id'] as string) ?? process.env.SHARD_ID ?? 0);
   if (shards <= 0) throw new Error(`shards must be >= 1, got ${shards}`);
   if (shardId < 0 || shardId >= shards) throw new Error(`shard-id must be in [0..${shards - 1}], got ${shardId}`);
+  const shardChunk = asPositiveInt('shard-chunk', (args['shard-chunk'] as string) ?? process.env.SHARD_CHUNK ?? 100000);
+  if (shardChunk <= 0) throw new Error(`shard-chunk must be >= 1, got ${shardChunk}`);
+
+  const directionRaw = String(args.direction ?? process.env.DIRECTION ?? 'asc').toLowerCase();
+  if (directionRaw !== 'asc' && directionRaw !== 'desc') {
+    throw new Error(`direction must be "asc" or "desc", got "${directionRaw}"`);
+  }
+  const direction = directionRaw as 'asc' | 'desc';
+  if (direction === 'desc' && shards > 1) throw new Error('direction=desc cannot be combined with SHARDS > 1');
+
+  const jobs = asBool('jobs', args['jobs'] ?? process.env.JOBS ?? false, false);
+  const jobChunk = asPositiveInt('job-chunk', (args['job-chunk'] as string) ?? process.env.JOB_CHUNK ?? 10000);
+  if (jobChunk <= 0) throw new Error(`job-chunk must be >= 1, got ${jobChunk}`);
+  const jobLeaseMs = asPositiveInt(
+    'job-lease-ms',
+    (args['job-lease-ms'] as string) ?? process.env.JOB_LEASE_MS ?? 300000,
+  );
+  const jobMaxAttempts = asPositiveInt(
+    'job-max-attempts',
+    (args['job-max-attempts'] as string) ?? process.env.JOB_MAX_ATTEMPTS ?? 5,
+  );
+  if (jobs && (shards > 1 || direction === 'desc')) {
+    throw new Error('JOBS=true cannot be combined with SHARDS > 1 or direction=desc');
+  }
 
   const concurrency = asPositiveInt('concurrency', (args.concurrency as string) ?? process.env.CONCURRENCY ?? 48);
   const timeoutMs = asPositiveInt('timeout-ms', (args['timeout-ms'] as string) ?? process.env.TIMEOUT_MS ?? 5000);
@@ -62,6 +139,7 @@ export function getConfig(): Config {
   if (!rpcUrl.startsWith('http://') && !rpcUrl.startsWith('https://')) {
     throw new Error(`RPC_URL must start with http:// or https://, got "${rpcUrl}"`);
   }
+  parseRpcEndpoints(rpcUrl, rps);
   if (from !== undefined && to !== undefined && !resolveLatestTo && to < from) {
     throw new Error(`to (${to}) must be >= from (${from})`);
   }
@@ -97,18 +175,109 @@ export function getConfig(): Config {
     (args['follow-interval-ms'] as string) ?? process.env.FOLLOW_INTERVAL_MS ?? 5000,
   );
 
+  const maxBufferMb = asPositiveInt(
+    'max-buffer-mb',
+    (args['max-buffer-mb'] as string) ?? process.env.MAX_BUFFER_MB ?? 1024,
+  );
+  const rpcBatch = asPositiveInt('rpc-batch', (args['rpc-batch'] as string) ?? process.env.RPC_BATCH ?? 1);
+  // A bare flag or `true` turns the fast path on; `block-only` also skips /block_results of empty heights.
+  let emptyRaw = String(args['empty-fast-path'] ?? process.env.EMPTY_FAST_PATH ?? 'off').toLowerCase();
+  if (emptyRaw === 'true') emptyRaw = 'on';
+  if (emptyRaw === 'false') emptyRaw = 'off';
+  if (emptyRaw !== 'off' && emptyRaw !== 'on' && emptyRaw !== 'block-only') {
+    throw new Error(`empty-fast-path must be "off", "on" or "block-only", got "${emptyRaw}"`);
+  }
+  const emptyFastPath = emptyRaw as 'off' | 'on' | 'block-only';
+  const adaptive = asBool('adaptive', args['adaptive'] ?? process.env.ADAPTIVE ?? false, false);
+  const adaptiveTargetP95Ms = asPositiveInt(
+    'adaptive-target-p95-ms',
+    (args['adaptive-target-p95-ms'] as string) ?? process.env.ADAPTIVE_TARGET_P95_MS ?? 2000,
+  );
+
+  const rpcCacheDir = (args['rpc-cache-dir'] as string | undefined) ?? (process.env.RPC_CACHE_DIR || undefined);
+  const pluginsDir = (args['plugins-dir'] as string | undefined) ?? (process.env.PLUGINS_DIR || undefined);
+  const protoManifest = (args['proto-manifest'] as string | undefined) ?? (process.env.PROTO_MANIFEST || undefined);
+  const bech32Prefix = String(args['bech32-prefix'] ?? (process.env.BECH32_PREFIX || 'cosmos'));
+  const sourceRaw = String(args.source ?? process.env.SOURCE ?? 'rpc').toLowerCase();
+  if (sourceRaw !== 'rpc' && sourceRaw !== 'cache') {
+    throw new Error(`source must be "rpc" or "cache", got "${sourceRaw}"`);
+  }
+  const source = sourceRaw as 'rpc' | 'cache';
+  if (source === 'cache' && !rpcCacheDir) throw new Error('source=cache requires RPC_CACHE_DIR (or --rpc-cache-dir)');
+  // Upgrade heights are read from block results; an empty upgrade height without them would keep the old proto root.
+  if (emptyFastPath === 'block-only' && protoManifest) {
+    throw new Error('empty-fast-path=block-only cannot be combined with PROTO_MANIFEST');
+  }
+
+  const followModeRaw = String(args['follow-mode'] ?? process.env.FOLLOW_MODE ?? 'poll').toLowerCase();
+  if (followModeRaw !== 'poll' && followModeRaw !== 'ws') {
+    throw new Error(`follow-mode must be "poll" or "ws", got "${followModeRaw}"`);
+  }
+  const followMode = followModeRaw as 'poll' | 'ws';
+  const followWsUrl = (args['follow-ws-url'] as string | undefined) ?? (process.env.FOLLOW_WS_URL || undefined);
+  if (followWsUrl && !followWsUrl.startsWith('ws://') && !followWsUrl.startsWith('wss://')) {
+    throw new Error(`FOLLOW_WS_URL must start with ws:// or wss://, got "${followWsUrl}"`);
+  }
+
+  const onForkRaw = String(args['on-fork'] ?? process.env.ON_FORK ?? 'halt').toLowerCase();
+  if (onForkRaw !== 'halt' && onForkRaw !== 'rollback') {
+    throw new Error(`on-fork must be "halt" or "rollback", got "${onForkRaw}"`);
+  }
+  const onFork = onForkRaw as 'halt' | 'rollback';
+  // A descending run writes the top first; a fork found below it cannot be rolled back and re-indexed upwards.
+  if (onFork === 'rollback' && direction === 'desc') {
+    throw new Error('on-fork=rollback cannot be combined with direction=desc');
+  }
+  const forkMaxRollback = asPositiveInt(
+    'fork-max-rollback',
+    (args['fork-max-rollback'] as string) ?? process.env.FORK_MAX_ROLLBACK ?? 100,
+  );
+
+  const deadLetterIntervalMs = asPositiveInt(
+    'dead-letter-interval-ms',
+    (args['dead-letter-interval-ms'] as string) ?? process.env.DEAD_LETTER_INTERVAL_MS ?? 60000,
+  );
+  const deadLetterBackoffMs = asPositiveInt(
+    'dead-letter-backoff-ms',
+    (args['dead-letter-backoff-ms'] as string) ?? process.env.DEAD_LETTER_BACKOFF_MS ?? 60000,
+  );
+
+  const shutdownTimeoutMs = asPositiveInt(
+    'shutdown-timeout-ms',
+    (args['shutdown-timeout-ms'] as string) ?? process.env.SHUTDOWN_TIMEOUT_MS ?? 30000,
+  );
+
   const raw = {
+    command,
     rpcUrl,
     from,
     to,
+    fromTime,
+    toTime,
     shards,
     shardId,
+    shardChunk,
+    direction,
+    jobs,
+    jobChunk,
+    jobLeaseMs,
+    jobMaxAttempts,
     concurrency,
     timeoutMs,
     rps,
     retries,
     backoffMs,
     backoffJitter,
+    maxBufferMb,
+    rpcBatch,
+    emptyFastPath,
+    adaptive,
+    adaptiveTargetP95Ms,
+    rpcCacheDir,
+    pluginsDir,
+    protoManifest,
+    bech32Prefix,
+    source,
     logLevel,
     resolveLatestTo,
     caseMode,
@@ -118,9 +287,22 @@ export function getConfig(): Config {
     outPath,
     flushEvery,
     resume,
+    dryRun,
+    verifySample,
+    migrationsDir,
+    migrateBaseline,
+    rederiveWindow,
+    extractorCatchUp,
     firstBlock,
     follow,
     followIntervalMs,
+    followMode,
+    followWsUrl,
+    onFork,
+    forkMaxRollback,
+    deadLetterIntervalMs,
+    deadLetterBackoffMs,
+    shutdownTimeoutMs,
     pg: {
       host: (args['pg-host'] as string | undefined) ?? process.env.PG_HOST,
       port: args['pg-port'] ? Number(args['pg-port']) : Number(process.env.PG_PORT ?? 5432),
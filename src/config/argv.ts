@@ -21,3 +21,35 @@ export function parseArgv(argv = process.argv.slice(2)): ArgMap {
   }
   return out;
 }
+
+/**
+ * Parsed command line: `<command> [--key=value | --flag]...`.
+ * @property {string | undefined} command First positional argument, if any.
+ * @property {string[]} positionals Positional arguments after the command.
+ * @property {ArgMap} args Flags, as returned by {@link parseArgv}.
+ * @property {boolean} help True when `--help`, `-h` or the `help` command was given.
+ */
+export type CommandLine = {
+  command?: string;
+  positionals: string[];
+  args: ArgMap;
+  help: boolean;
+};
+
+/**
+ * Split CLI arguments into a command, its positionals and its flags.
+ * `help <command>` is read as `<command> --help`.
+ */
+export function parseCommandLine(argv = process.argv.slice(2)): CommandLine {
+  const args = parseArgv(argv);
+  const positionals = argv.filter((a) => !a.startsWith('-'));
+  let help = argv.includes('-h') || args.help === true;
+  delete args.help;
+
+  let command = positionals.shift();
+  if (command === 'help') {
+    help = true;
+    command = positionals.shift();
+  }
+  return { command, positionals, args, help };
+}
@@ -0,0 +1,226 @@
+// src/config/commands.ts
+import { ArgMap, Command } from '../types.js';
+
+/**
+ * A CLI option accepted by a command.
+ * @property {string} flag Flag name without the leading `--`.
+ * @property {string} [env] Environment variable read when the flag is absent.
+ * @property {string} [value] Placeholder of the value; boolean flags have none.
+ * @property {string} description One-line help text.
+ */
+export type OptionSpec = {
+  flag: string;
+  env?: string;
+  value?: string;
+  description: string;
+};
+
+/**
+ * A CLI command: its help text and the options it accepts.
+ * @property {Command} name Command name, the first positional argument.
+ * @property {string} summary One-line description shown in the command list.
+ * @property {string} description Longer description shown in the command help.
+ * @property {OptionSpec[]} options Accepted options; any other flag is rejected.
+ */
+export type CommandSpec = {
+  name: Command;
+  summary: string;
+  description: string;
+  options: OptionSpec[];
+};
+
+const COMMON: OptionSpec[] = [
+  { flag: 'log-level', env: 'LOG_LEVEL', value: '<level>', description: 'trace|debug|info|warn|error|silent' },
+];
+
+const RPC: OptionSpec[] = [
+  { flag: 'rpcUrl', env: 'RPC_URL', value: '<url[,url...]>', description: 'CometBFT RPC endpoint(s)' },
+  { flag: 'timeout-ms', env: 'TIMEOUT_MS', value: '<ms>', description: 'HTTP request timeout' },
+  { flag: 'rps', env: 'RPS', value: '<n>', description: 'requests per second per endpoint' },
+  { flag: 'rpc-batch', env: 'RPC_BATCH', value: '<n>', description: 'heights per JSON-RPC batch request (1 = off)' },
+  { flag: 'retries', env: 'RETRIES', value: '<n>', description: 'retries of a failed request' },
+  { flag: 'backoff-ms', env: 'BACKOFF_MS', value: '<ms>', description: 'initial retry backoff' },
+  { flag: 'backoff-jitter', env: 'BACKOFF_JITTER', value: '<0..1>', description: 'jitter applied to the backoff' },
+  { flag: 'adaptive', env: 'ADAPTIVE', description: 'treat CONCURRENCY and RPS as ceilings of an AIMD controller' },
+  { flag: 'adaptive-target-p95-ms', env: 'ADAPTIVE_TARGET_P95_MS', value: '<ms>', description: 'adaptive p95 target' },
+  { flag: 'rpc-cache-dir', env: 'RPC_CACHE_DIR', value: '<dir>', description: 'on-disk cache of RPC responses' },
+  { flag: 'source', env: 'SOURCE', value: '<rpc|cache>', description: 'read blocks from the RPC or the cache only' },
+];
+
+const POSTGRES: OptionSpec[] = [
+  { flag: 'sink', env: 'SINK', value: '<stdout|postgres>', description: 'where blocks are written' },
+  { flag: 'pg-host', env: 'PG_HOST', value: '<host>', description: 'Postgres host' },
+  { flag: 'pg-port', env: 'PG_PORT', value: '<port>', description: 'Postgres port' },
+  { flag: 'pg-user', env: 'PG_USER', value: '<user>', description: 'Postgres user' },
+  { flag: 'pg-pass', env: 'PG_PASS', value: '<password>', description: 'Postgres password' },
+  { flag: 'pg-db', env: 'PG_DB', value: '<name>', description: 'Postgres database' },
+  { flag: 'pg-ssl', env: 'PG_SSL', description: 'connect with SSL' },
+  { flag: 'pg-pool-size', env: 'PG_POOL_SIZE', value: '<n>', description: 'pooled connections' },
+  { flag: 'pg-progress-id', env: 'PG_PROGRESS_ID', value: '<id>', description: 'progress row of this indexer' },
+];
+
+const RANGE: OptionSpec[] = [
+  { flag: 'from', env: 'FROM', value: '<height>', description: 'first height (inclusive)' },
+  { flag: 'to', env: 'TO', value: '<height|latest>', description: 'last height (inclusive)' },
+  { flag: 'from-time', env: 'FROM_TIME', value: '<iso time>', description: 'first block at or after this time' },
+  { flag: 'to-time', env: 'TO_TIME', value: '<iso time>', description: 'last block at or before this time' },
+  { flag: 'first-block', env: 'FIRST_BLOCK', value: '<height>', description: 'first height when --from is not set' },
+];
+
+const PIPELINE: OptionSpec[] = [
+  { flag: 'concurrency', env: 'CONCURRENCY', value: '<n>', description: 'heights fetched in parallel' },
+  {
+    flag: 'empty-fast-path',
+    env: 'EMPTY_FAST_PATH',
+    value: '<off|on|block-only>',
+    description: 'look up empty heights via /blockchain first',
+  },
+  { flag: 'max-buffer-mb', env: 'MAX_BUFFER_MB', value: '<mb>', description: 'reorder buffer cap (0 = unlimited)' },
+  { flag: 'case', env: 'CASE', value: '<snake|camel>', description: 'field casing of assembled blocks' },
+  { flag: 'out', env: 'OUT', value: '<path>', description: 'output file of the stdout sink' },
+  { flag: 'flush-every', env: 'FLUSH_EVERY', value: '<n>', description: 'blocks per flush of the stdout sink' },
+  { flag: 'plugins-dir', env: 'PLUGINS_DIR', value: '<dir>', description: 'extractor plugins' },
+  { flag: 'proto-manifest', env: 'PROTO_MANIFEST', value: '<file>', description: 'proto roots per chain upgrade' },
+  {
+    flag: 'bech32-prefix',
+    env: 'BECH32_PREFIX',
+    value: '<hrp>',
+    description: 'address prefix for legacy Amino transactions',
+  },
+  { flag: 'pg-mode', env: 'PG_MODE', value: '<batch-insert|block-atomic>', description: 'Postgres write mode' },
+  { flag: 'pg-batch-blocks', env: 'PG_BATCH_BLOCKS', value: '<n>', description: 'buffered blocks per flush' },
+  { flag: 'pg-batch-txs', env: 'PG_BATCH_TXS', value: '<n>', description: 'buffered transactions per flush' },
+  { flag: 'pg-batch-msgs', env: 'PG_BATCH_MSGS', value: '<n>', description: 'buffered messages per flush' },
+  { flag: 'pg-batch-events', env: 'PG_BATCH_EVENTS', value: '<n>', description: 'buffered events per flush' },
+  { flag: 'pg-batch-attrs', env: 'PG_BATCH_ATTRS', value: '<n>', description: 'buffered event attributes per flush' },
+  { flag: 'progress-every-blocks', env: 'PROGRESS_EVERY_BLOCKS', value: '<n>', description: 'progress log period' },
+  { flag: 'progress-interval-sec', env: 'PROGRESS_INTERVAL_SEC', value: '<s>', description: 'progress log period' },
+  { flag: 'on-fork', env: 'ON_FORK', value: '<halt|rollback>', description: 'reaction to a parent-hash mismatch' },
+  { flag: 'fork-max-rollback', env: 'FORK_MAX_ROLLBACK', value: '<n>', description: 'deepest fork rollback' },
+  { flag: 'shutdown-timeout-ms', env: 'SHUTDOWN_TIMEOUT_MS', value: '<ms>', description: 'drain deadline on SIGTERM' },
+];
+
+const REDERIVE_WINDOW: OptionSpec = {
+  flag: 'rederive-window',
+  env: 'REDERIVE_WINDOW',
+  value: '<n>',
+  description: 'heights rebuilt per transaction',
+};
+
+const INDEX: OptionSpec[] = [
+  { flag: 'resume', env: 'RESUME', description: 'start after the stored progress' },
+  { flag: 'follow', env: 'FOLLOW', description: 'keep following the chain after the range' },
+  { flag: 'follow-interval-ms', env: 'FOLLOW_INTERVAL_MS', value: '<ms>', description: 'poll interval' },
+  { flag: 'follow-mode', env: 'FOLLOW_MODE', value: '<poll|ws>', description: 'how new blocks are discovered' },
+  { flag: 'follow-ws-url', env: 'FOLLOW_WS_URL', value: '<url>', description: 'WebSocket endpoint for ws mode' },
+  { flag: 'direction', env: 'DIRECTION', value: '<asc|desc>', description: 'backfill order' },
+  { flag: 'shards', env: 'SHARDS', value: '<n>', description: 'number of shards' },
+  { flag: 'shard-id', env: 'SHARD_ID', value: '<i>', description: 'shard of this process, 0-based' },
+  { flag: 'shard-chunk', env: 'SHARD_CHUNK', value: '<n>', description: 'heights per shard chunk' },
+  { flag: 'jobs', env: 'JOBS', description: 'claim chunks from the Postgres job queue' },
+  { flag: 'job-chunk', env: 'JOB_CHUNK', value: '<n>', description: 'heights per job' },
+  { flag: 'job-lease-ms', env: 'JOB_LEASE_MS', value: '<ms>', description: 'lease of a claimed job' },
+  { flag: 'job-max-attempts', env: 'JOB_MAX_ATTEMPTS', value: '<n>', description: 'claims before a job fails' },
+  { flag: 'dead-letter-interval-ms', env: 'DEAD_LETTER_INTERVAL_MS', value: '<ms>', description: 'retry scan period' },
+  { flag: 'dead-letter-backoff-ms', env: 'DEAD_LETTER_BACKOFF_MS', value: '<ms>', description: 'first retry backoff' },
+  { flag: 'extractor-catchup', env: 'EXTRACTOR_CATCHUP', description: 'rebuild new or out-of-date extractors' },
+  REDERIVE_WINDOW,
+];
+
+/** Every command, by name. */
+export const COMMANDS: Record<Command, CommandSpec> = {
+  index: {
+    name: 'index',
+    summary: 'index a range of blocks, then optionally follow the chain (default)',
+    description:
+      'Backfills [from, to] (resuming from the stored progress with --resume) and, with --follow, keeps up with new blocks.',
+    options: [...COMMON, ...RPC, ...POSTGRES, ...RANGE, ...PIPELINE, ...INDEX],
+  },
+  repair: {
+    name: 'repair',
+    summary: 're-index missing heights of core.blocks',
+    description:
+      'Lists the gaps of core.blocks in [from, to] (to defaults to the stored progress) and re-indexes them. ' +
+      'With --dry-run, only lists them.',
+    options: [
+      ...COMMON,
+      ...RPC,
+      ...POSTGRES,
+      ...RANGE,
+      ...PIPELINE,
+      { flag: 'dry-run', env: 'DRY_RUN', description: 'list the gaps without re-indexing them' },
+    ],
+  },
+  verify: {
+    name: 'verify',
+    summary: 'check stored blocks against the RPC',
+    description:
+      'Compares the block hash, app hash and transaction count of stored heights in [from, to] with the RPC, ' +
+      'and the stored transactions with the block. Exits with 1 when a height does not match.',
+    options: [
+      ...COMMON,
+      ...RPC,
+      ...POSTGRES,
+      ...RANGE,
+      { flag: 'concurrency', env: 'CONCURRENCY', value: '<n>', description: 'heights checked in parallel' },
+      { flag: 'sample', env: 'VERIFY_SAMPLE', value: '<n>', description: 'check n random heights (0 = all)' },
+    ],
+  },
+  status: {
+    name: 'status',
+    summary: 'print progress and lag per progress id',
+    description: 'Prints every row of core.indexer_progress with its lag behind the latest height of the RPC.',
+    options: [...COMMON, ...RPC, ...POSTGRES],
+  },
+  rederive: {
+    name: 'rederive',
+    summary: 'rebuild derived tables from stored core rows (no RPC)',
+    description:
+      'Rebuilds the tables of every extractor that only reads messages and events, in windows of --rederive-window ' +
+      'heights.',
+    options: [
+      ...COMMON,
+      ...POSTGRES,
+      ...RANGE,
+      REDERIVE_WINDOW,
+      { flag: 'plugins-dir', env: 'PLUGINS_DIR', value: '<dir>', description: 'extractor plugins' },
+      { flag: 'shutdown-timeout-ms', env: 'SHUTDOWN_TIMEOUT_MS', value: '<ms>', description: 'drain deadline' },
+    ],
+  },
+  migrate: {
+    name: 'migrate',
+    summary: 'apply pending schema migrations',
+    description:
+      'Applies the .sql files of the migrations directory that are not recorded in core.schema_migrations, ' +
+      'in name order, one transaction per file.',
+    options: [
+      ...COMMON,
+      ...POSTGRES,
+      { flag: 'migrations-dir', env: 'MIGRATIONS_DIR', value: '<dir>', description: 'migration files (./initdb)' },
+      {
+        flag: 'baseline',
+        value: '<file>',
+        description: 'record the files up to this one as applied without running them',
+      },
+    ],
+  },
+};
+
+/**
+ * Look up a command by name.
+ */
+export function findCommand(name: string): CommandSpec | undefined {
+  return Object.prototype.hasOwnProperty.call(COMMANDS, name) ? COMMANDS[name as Command] : undefined;
+}
+
+/**
+ * Reject flags that the command does not accept.
+ * Throws an Error naming the first unknown flag.
+ */
+export function checkCommandOptions(command: Command, args: ArgMap): void {
+  const spec = COMMANDS[command];
+  const known = new Set(spec.options.map((o) => o.flag));
+  for (const flag of Object.keys(args)) {
+    if (!known.has(flag)) throw new Error(`unknown option --${flag} for "${command}" (see "${command} --help")`);
+  }
+}
@@ -0,0 +1,41 @@
+// src/config/help.ts
+import { COMMANDS, CommandSpec } from './commands.ts';
+
+const USAGE = 'npm run start -- <command> [--option=value ...]';
+
+/**
+ * Format the list of commands shown by `--help` without a command.
+ */
+export function formatCommandList(): string {
+  const specs = Object.values(COMMANDS);
+  const width = Math.max(...specs.map((c) => c.name.length));
+  const lines = [
+    `Usage: ${USAGE}`,
+    '',
+    'Commands:',
+    ...specs.map((c) => `  ${c.name.padEnd(width)}  ${c.summary}`),
+    '',
+    'Run "<command> --help" for the options of a command. Every option can also be set',
+    'through the environment variable shown in its help (see .env.example).',
+  ];
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Format the help of one command: usage, description and options with their variables.
+ */
+export function formatCommandHelp(spec: CommandSpec): string {
+  const rows = spec.options.map((o) => [`--${o.flag}${o.value ? `=${o.value}` : ''}`, o.env ?? '', o.description]);
+  const w0 = Math.max(...rows.map((r) => r[0]!.length));
+  const w1 = Math.max(...rows.map((r) => r[1]!.length));
+  const lines = [
+    `Usage: npm run start -- ${spec.name} [--option=value ...]`,
+    '',
+    spec.description,
+    '',
+    'Options:',
+    ...rows.map(([flag, env, desc]) => `  ${flag!.padEnd(w0)}  ${env!.padEnd(w1)}  ${desc}`.trimEnd()),
+    '  --help',
+  ];
+  return lines.join('\n') + '\n';
+}
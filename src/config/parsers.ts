@@ -56,6 +56,18 @@ export function asBool(name: string, v: unknown, def = false): boolean {
   throw new Error(`Option ${name} must be a boolean-like value, got "${v}"`);
 }
 
+/**
+ * Parse an ISO 8601 timestamp; returns it normalized to UTC (`toISOString`), or undefined when unset.
+ */
+export function asTime(name: string, v: unknown): string | undefined {
+  if (v === undefined || v === null || v === '') return undefined;
+  const t = new Date(String(v));
+  if (typeof v !== 'string' || Number.isNaN(t.getTime())) {
+    throw new Error(`Option ${name} must be an ISO 8601 time, got "${v}"`);
+  }
+  return t.toISOString();
+}
+
 export function asLogLevel(v: unknown, def: LogLevel = 'info'): LogLevel {
   const s = v === undefined || v === null || v === '' ? def : (String(v).toLowerCase() as LogLevel);
   return s === 'debug' ? 'debug' : 'info';
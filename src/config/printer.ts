@@ -9,16 +9,40 @@ const log = getLogger('config');
  */
 export function printConfig(cfg: Config): void {
   const view = {
+    command: cfg.command,
     rpcUrl: cfg.rpcUrl,
     range: {
       from: cfg.from ?? '(auto/resume)',
       to: cfg.resolveLatestTo ? 'latest' : (cfg.to ?? '(latest)'),
+      fromTime: cfg.fromTime,
+      toTime: cfg.toTime,
+      direction: cfg.direction,
       follow: cfg.follow ?? false,
       followIntervalMs: cfg.followIntervalMs ?? 5000,
+      followMode: cfg.followMode,
+      followWsUrl: cfg.followMode === 'ws' ? (cfg.followWsUrl ?? '(from rpcUrl)') : undefined,
+    },
+    fork: {
+      onFork: cfg.onFork,
+      maxRollback: cfg.onFork === 'rollback' ? cfg.forkMaxRollback : undefined,
+    },
+    deadLetter: {
+      intervalMs: cfg.deadLetterIntervalMs,
+      backoffMs: cfg.deadLetterBackoffMs,
+    },
+    shutdown: {
+      timeoutMs: cfg.shutdownTimeoutMs,
     },
     parallel: {
       shards: `${cfg.shardId + 1}/${cfg.shards}`,
+      shardChunk: cfg.shardChunk,
+      jobs: cfg.jobs ? { chunk: cfg.jobChunk, leaseMs: cfg.jobLeaseMs, maxAttempts: cfg.jobMaxAttempts } : false,
       concurrency: cfg.concurrency,
+      maxBufferMb: cfg.maxBufferMb,
+    },
+    decode: {
+      protoManifest: cfg.protoManifest,
+      bech32Prefix: cfg.bech32Prefix,
     },
     network: {
       timeoutMs: cfg.timeoutMs,
@@ -26,6 +50,12 @@ export function printConfig(cfg: Config): void {
       retries: cfg.retries,
       backoffMs: cfg.backoffMs,
       backoffJitter: cfg.backoffJitter,
+      rpcBatch: cfg.rpcBatch,
+      emptyFastPath: cfg.emptyFastPath,
+      adaptive: cfg.adaptive,
+      adaptiveTargetP95Ms: cfg.adaptive ? cfg.adaptiveTargetP95Ms : undefined,
+      source: cfg.source,
+      rpcCacheDir: cfg.rpcCacheDir,
     },
     formatting: {
       logLevel: cfg.logLevel,
@@ -35,6 +65,7 @@ export function printConfig(cfg: Config): void {
     },
     sink: {
       kind: cfg.sinkKind,
+      pluginsDir: cfg.pluginsDir,
       outPath: cfg.outPath ?? '-',
       flushEvery: cfg.flushEvery ?? 1,
     },
@@ -42,6 +73,12 @@ export function printConfig(cfg: Config): void {
       enabled: cfg.resume ?? false,
       firstBlock: cfg.firstBlock,
     },
+    repair: cfg.command === 'repair' ? { dryRun: cfg.dryRun } : undefined,
+    verify: cfg.command === 'verify' ? { sample: cfg.verifySample || 'all' } : undefined,
+    rederive: cfg.command === 'rederive' ? { window: cfg.rederiveWindow } : undefined,
+    migrate:
+      cfg.command === 'migrate' ? { dir: cfg.migrationsDir ?? 'initdb', baseline: cfg.migrateBaseline } : undefined,
+    extractorCatchUp: cfg.extractorCatchUp,
     postgres: cfg.pg
       ? {
           host: cfg.pg.host,
@@ -25,17 +25,36 @@ const SinkKindEnum = z.enum(['stdout', 'postgres']);
 
 export const ConfigSchema = z
   .object({
+    command: z.enum(['index', 'repair', 'verify', 'status', 'rederive', 'migrate']),
     rpcUrl: z.string().url().or(z.string().startsWith('http://')).or(z.string().startsWith('https://')),
     from: z.number().int().positive().optional(),
     to: z.number().int().positive().optional(),
+    fromTime: z.iso.datetime().optional(),
+    toTime: z.iso.datetime().optional(),
     shards: z.number().int().min(1),
     shardId: z.number().int().min(0),
+    shardChunk: z.number().int().min(1),
+    direction: z.enum(['asc', 'desc']),
+    rpcCacheDir: z.string().min(1).optional(),
+    pluginsDir: z.string().min(1).optional(),
+    protoManifest: z.string().min(1).optional(),
+    bech32Prefix: z.string().regex(/^[a-z0-9]+$/, 'lowercase letters and digits'),
+    source: z.enum(['rpc', 'cache']),
+    jobs: z.boolean(),
+    jobChunk: z.number().int().min(1),
+    jobLeaseMs: z.number().int().min(1000),
+    jobMaxAttempts: z.number().int().min(1),
     concurrency: z.number().int().min(1),
     timeoutMs: z.number().int().min(1),
     rps: z.number().int().min(1),
     retries: z.number().int().min(0),
     backoffMs: z.number().int().min(0),
     backoffJitter: z.number().min(0).max(1),
+    maxBufferMb: z.number().int().min(0),
+    rpcBatch: z.number().int().min(0),
+    emptyFastPath: z.enum(['off', 'on', 'block-only']),
+    adaptive: z.boolean(),
+    adaptiveTargetP95Ms: z.number().int().min(1),
     logLevel: LogLevelEnum,
     resolveLatestTo: z.boolean(),
     caseMode: CaseModeEnum,
@@ -45,12 +64,41 @@ export const ConfigSchema = z
     outPath: z.string().min(1).optional(),
     flushEvery: z.number().int().min(1).optional(),
     resume: z.boolean(),
+    dryRun: z.boolean(),
+    verifySample: z.number().int().min(0),
+    migrationsDir: z.string().min(1).optional(),
+    migrateBaseline: z.string().min(1).optional(),
+    rederiveWindow: z.number().int().min(1),
+    extractorCatchUp: z.boolean(),
     firstBlock: z.number().int().positive(),
     follow: z.boolean(),
     followIntervalMs: z.number().int().min(100),
+    followMode: z.enum(['poll', 'ws']),
+    followWsUrl: z.string().min(1).optional(),
+    onFork: z.enum(['halt', 'rollback']),
+    forkMaxRollback: z.number().int().min(1),
+    deadLetterIntervalMs: z.number().int().min(1000),
+    deadLetterBackoffMs: z.number().int().min(1000),
+    shutdownTimeoutMs: z.number().int().min(0),
     pg: PgConfigSchema,
   })
   .refine((c) => !(c.from !== undefined && c.to !== undefined && c.to < c.from), {
     message: 'to must be greater than or equal to from',
     path: ['to'],
+  })
+  .refine((c) => !((c.command === 'repair' || c.command === 'rederive') && c.sinkKind !== 'postgres'), {
+    message: 'repair and rederive require sink=postgres',
+    path: ['sinkKind'],
+  })
+  .refine((c) => !(c.command === 'index' && c.jobs && c.sinkKind !== 'postgres'), {
+    message: 'job mode requires sink=postgres',
+    path: ['sinkKind'],
+  })
+  .refine((c) => !(c.emptyFastPath === 'block-only' && c.protoManifest), {
+    message: 'empty-fast-path=block-only cannot be combined with PROTO_MANIFEST',
+    path: ['emptyFastPath'],
+  })
+  .refine((c) => !(c.onFork === 'rollback' && c.direction === 'desc'), {
+    message: 'on-fork=rollback cannot be combined with direction=desc',
+    path: ['onFork'],
   });
@@ -0,0 +1,35 @@
+/**
+ * @module blockTime
+ * This module maps block times to heights using the stored `core.blocks` rows.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { Pool, PoolClient } from 'pg';
+
+/**
+ * Finds the first stored height whose block time is at or after `time` (strictly after it when
+ * `inclusive` is false), provided the height right below it is stored too. Block times only grow
+ * with height, so the pair proves that the answer is the same as on chain; otherwise the period
+ * is not covered and null is returned.
+ *
+ * @param poolOrClient - PostgreSQL connection pool or client to execute the query.
+ * @param time - Point in time.
+ * @param inclusive - Whether a block at exactly `time` counts.
+ * @returns The height, or null when `core.blocks` does not cover `time`.
+ */
+export async function findStoredHeightAtTime(
+  poolOrClient: Pool | PoolClient,
+  time: Date,
+  inclusive = true,
+): Promise<number | null> {
+  const [after, before] = inclusive ? ['>=', '<'] : ['>', '<='];
+  const sql = `
+    WITH first_after AS (
+      SELECT height FROM core.blocks WHERE time ${after} $1 ORDER BY time, height LIMIT 1
+    )
+    SELECT f.height
+    FROM first_after f
+    WHERE EXISTS (SELECT 1 FROM core.blocks b WHERE b.height = f.height - 1 AND b.time ${before} $1)
+  `;
+  const res = await (poolOrClient as any).query(sql, [time]);
+  return res.rowCount ? Number(res.rows[0].height) : null;
+}
@@ -0,0 +1,203 @@
+/**
+ * @module extractorProgress
+ * This module tracks the progress and derivation version of each extractor in `core.extractor_progress`.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { Pool, PoolClient } from 'pg';
+
+/**
+ * Stored state of an extractor.
+ * @property {string} extractor Extractor name.
+ * @property {number} version Derivation version the extractor tables are (being) built with.
+ * @property {number | null} lastHeight Highest height written by the tip, or null before the first flush.
+ * @property {number | null} backfillNext Next height to rebuild, or null when the extractor is complete.
+ * @property {number | null} backfillTo Last height to rebuild, or null when the extractor is complete.
+ */
+export type ExtractorProgress = {
+  extractor: string;
+  version: number;
+  lastHeight: number | null;
+  backfillNext: number | null;
+  backfillTo: number | null;
+};
+
+/** Name and version of an extractor, as registered in code. */
+export type ExtractorVersion = { name: string; version: number };
+
+const num = (x: any): number | null => (x == null ? null : Number(x));
+
+const toProgress = (r: any): ExtractorProgress => ({
+  extractor: r.extractor,
+  version: Number(r.version),
+  lastHeight: num(r.last_height),
+  backfillNext: num(r.backfill_next),
+  backfillTo: num(r.backfill_to),
+});
+
+/**
+ * Lists the stored state of every extractor.
+ *
+ * @param poolOrClient - PostgreSQL connection pool or client to execute the query.
+ * @returns Stored states ordered by extractor name.
+ */
+export async function listExtractorProgress(poolOrClient: Pool | PoolClient): Promise<ExtractorProgress[]> {
+  const sql = `
+    SELECT extractor, version, last_height, backfill_next, backfill_to
+    FROM core.extractor_progress
+    ORDER BY extractor
+  `;
+  const res = await (poolOrClient as any).query(sql);
+  return res.rows.map(toProgress);
+}
+
+/**
+ * Records the current version of each extractor and, for an extractor that is new or whose stored
+ * version is older, schedules a rebuild of `[low, high]`.
+ *
+ * `low`/`high` should be the bounds of the heights already stored in `core.blocks`; heights above
+ * `high` are written by the tip with the current version. Rows stored with a newer version are
+ * left alone. Safe to run concurrently from several replicas.
+ *
+ * @param poolOrClient - PostgreSQL connection pool or client to execute the queries.
+ * @param extractors - Registered extractors.
+ * @param low - Lowest stored height, or null when nothing is stored.
+ * @param high - Highest stored height, or null when nothing is stored.
+ * @returns Names of the extractors a rebuild was scheduled for.
+ */
+export async function planExtractorBackfill(
+  poolOrClient: Pool | PoolClient,
+  extractors: readonly ExtractorVersion[],
+  low: number | null,
+  high: number | null,
+): Promise<string[]> {
+  const hasRange = low != null && high != null && low <= high;
+  const sql = `
+    INSERT INTO core.extractor_progress (extractor, version, backfill_next, backfill_to)
+    VALUES ($1, $2, $3, $4)
+    ON CONFLICT (extractor) DO UPDATE
+    SET version = EXCLUDED.version,
+        backfill_next = EXCLUDED.backfill_next,
+        backfill_to = EXCLUDED.backfill_to,
+        updated_at = now()
+    WHERE core.extractor_progress.version < EXCLUDED.version
+    RETURNING extractor
+  `;
+  const planned: string[] = [];
+  for (const e of extractors) {
+    const res = await (poolOrClient as any).query(sql, [
+      e.name,
+      e.version,
+      hasRange ? low : null,
+      hasRange ? high : null,
+    ]);
+    if (res.rowCount && hasRange) planned.push(e.name);
+  }
+  return planned;
+}
+
+/**
+ * Moves the tip height of the given extractors forward. Only rows stored with the same version
+ * are updated, so a process running older code does not report progress for a newer version.
+ *
+ * @param poolOrClient - PostgreSQL connection pool or client to execute the query.
+ * @param extractors - Extractors written by the flush.
+ * @param height - Highest flushed height.
+ */
+export async function advanceExtractorTip(
+  poolOrClient: Pool | PoolClient,
+  extractors: readonly ExtractorVersion[],
+  height: number,
+): Promise<void> {
+  const sql = `
+    UPDATE core.extractor_progress p
+    SET last_height = GREATEST(p.last_height, $3::bigint), updated_at = now()
+    FROM unnest($1::text[], $2::int[]) AS x(extractor, version)
+    WHERE p.extractor = x.extractor AND p.version = x.version
+  `;
+  await (poolOrClient as any).query(sql, [extractors.map((e) => e.name), extractors.map((e) => e.version), height]);
+}
+
+/** Advisory lock class of the extractor claims (`extr`), paired with `hashtext(extractor)`. */
+const CLAIM_LOCK = 0x65787472;
+
+const PENDING_SQL = `
+  SELECT p.extractor, p.version, p.last_height, p.backfill_next, p.backfill_to
+  FROM core.extractor_progress p
+  JOIN unnest($1::text[], $2::int[]) AS x(extractor, version)
+    ON p.extractor = x.extractor AND p.version = x.version
+  WHERE p.backfill_next IS NOT NULL AND ($3::text IS NULL OR p.extractor = $3)
+  ORDER BY p.extractor
+`;
+
+/**
+ * Claims the first extractor with a pending rebuild that no other worker has claimed, skipping rows
+ * stored with a different version than the registered one. The claim is a session advisory lock,
+ * so no transaction stays open while the caller prepares the rows; release it with
+ * {@link releaseExtractorClaim}.
+ *
+ * @param client - PostgreSQL client outside a transaction; the claim belongs to its session.
+ * @param extractors - Registered extractors.
+ * @returns The claimed state, or null when nothing is pending or unclaimed.
+ */
+export async function claimPendingExtractor(
+  client: PoolClient,
+  extractors: readonly ExtractorVersion[],
+): Promise<ExtractorProgress | null> {
+  const params = (name: string | null) => [extractors.map((e) => e.name), extractors.map((e) => e.version), name];
+  const res = await client.query(PENDING_SQL, params(null));
+  for (const r of res.rows) {
+    const lock = await client.query(`SELECT pg_try_advisory_lock($1, hashtext($2)) AS ok`, [CLAIM_LOCK, r.extractor]);
+    if (!lock.rows[0]?.ok) continue;
+    // Read again: the previous holder may have moved the rebuild on before releasing it.
+    const fresh = await client.query(PENDING_SQL, params(r.extractor));
+    if (fresh.rowCount) return toProgress(fresh.rows[0]);
+    await releaseExtractorClaim(client, r.extractor);
+  }
+  return null;
+}
+
+/**
+ * Releases a claim taken by {@link claimPendingExtractor}.
+ *
+ * @param client - The client holding the claim.
+ * @param extractor - Extractor name.
+ */
+export async function releaseExtractorClaim(client: PoolClient, extractor: string): Promise<void> {
+  await client.query(`SELECT pg_advisory_unlock($1, hashtext($2))`, [CLAIM_LOCK, extractor]);
+}
+
+/**
+ * Locks the stored state of an extractor until the end of the caller's transaction.
+ *
+ * @param client - PostgreSQL client inside the caller's transaction.
+ * @param extractor - Extractor name.
+ * @returns The locked state, or null when the extractor has no row.
+ */
+export async function lockExtractorProgress(client: PoolClient, extractor: string): Promise<ExtractorProgress | null> {
+  const sql = `
+    SELECT extractor, version, last_height, backfill_next, backfill_to
+    FROM core.extractor_progress
+    WHERE extractor = $1
+    FOR UPDATE
+  `;
+  const res = await client.query(sql, [extractor]);
+  return res.rowCount ? toProgress(res.rows[0]) : null;
+}
+
+/**
+ * Records that an extractor was rebuilt up to `height`; the rebuild is cleared once it reaches `backfill_to`.
+ *
+ * @param client - PostgreSQL client inside the caller's transaction.
+ * @param extractor - Extractor name.
+ * @param height - Last rebuilt height.
+ */
+export async function advanceExtractorBackfill(client: PoolClient, extractor: string, height: number): Promise<void> {
+  const sql = `
+    UPDATE core.extractor_progress
+    SET backfill_next = CASE WHEN $2::bigint >= backfill_to THEN NULL ELSE $2::bigint + 1 END,
+        backfill_to = CASE WHEN $2::bigint >= backfill_to THEN NULL ELSE backfill_to END,
+        updated_at = now()
+    WHERE extractor = $1
+  `;
+  await client.query(sql, [extractor, height]);
+}
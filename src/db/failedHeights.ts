@@ -0,0 +1,133 @@
+/**
+ * @module failedHeights
+ * This module reads and updates the dead-letter registry of heights that failed to index.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { Pool, PoolClient } from 'pg';
+
+/**
+ * A height that exhausted its retries.
+ * @property {number} height Block height.
+ * @property {string} stage Pipeline stage that failed (fetchBlock, fetchBlockResults, fetchBatch, decode, assemble).
+ * @property {string} error Error message of the last attempt.
+ * @property {number} attempts Number of attempts made before giving up.
+ */
+export type HeightFailure = {
+  height: number;
+  stage: string;
+  error: string;
+  attempts: number;
+};
+
+/**
+ * A row of `core.failed_heights` that is due for a retry.
+ * @property {number} height Block height.
+ * @property {number} retryCount Number of dead-letter retry rounds already made.
+ */
+export type DueFailedHeight = {
+  height: number;
+  retryCount: number;
+};
+
+/**
+ * Records (or re-opens) a failed height in `core.failed_heights`.
+ *
+ * A new row is due for retry right away. For an existing row, attempts are accumulated,
+ * the last stage/error are overwritten and `resolved_at` is cleared.
+ *
+ * @param poolOrClient - PostgreSQL connection pool or client to execute the query.
+ * @param f - Failure details.
+ */
+export async function recordFailedHeight(poolOrClient: Pool | PoolClient, f: HeightFailure): Promise<void> {
+  const sql = `
+    INSERT INTO core.failed_heights (height, stage, error, attempts)
+    VALUES ($1, $2, $3, $4)
+    ON CONFLICT (height)
+    DO UPDATE SET stage = EXCLUDED.stage,
+                  error = EXCLUDED.error,
+                  attempts = core.failed_heights.attempts + EXCLUDED.attempts,
+                  last_failed_at = now(),
+                  resolved_at = NULL
+  `;
+  await (poolOrClient as any).query(sql, [f.height, f.stage, f.error, f.attempts]);
+}
+
+/**
+ * Lists unresolved failed heights whose `next_retry_at` has passed, lowest height first.
+ *
+ * @param poolOrClient - PostgreSQL connection pool or client to execute the query.
+ * @param limit - Maximum number of rows to return.
+ * @returns Due heights with their retry counters.
+ */
+export async function listDueFailedHeights(poolOrClient: Pool | PoolClient, limit: number): Promise<DueFailedHeight[]> {
+  const sql = `
+    SELECT height, retry_count
+    FROM core.failed_heights
+    WHERE resolved_at IS NULL AND next_retry_at <= now()
+    ORDER BY height
+    LIMIT $1
+  `;
+  const res = await (poolOrClient as any).query(sql, [limit]);
+  return res.rows.map((r: any) => ({ height: Number(r.height), retryCount: Number(r.retry_count) }));
+}
+
+/**
+ * Marks a failed height as resolved.
+ *
+ * @param poolOrClient - PostgreSQL connection pool or client to execute the query.
+ * @param height - Height that has been indexed successfully.
+ */
+export async function markFailedHeightResolved(poolOrClient: Pool | PoolClient, height: number): Promise<void> {
+  const sql = `UPDATE core.failed_heights SET resolved_at = now() WHERE height = $1 AND resolved_at IS NULL`;
+  await (poolOrClient as any).query(sql, [height]);
+}
+
+/**
+ * Records a failed dead-letter retry and schedules the next one.
+ *
+ * @param poolOrClient - PostgreSQL connection pool or client to execute the query.
+ * @param f - Failure details of the retry.
+ * @param delayMs - Delay until the next retry in milliseconds.
+ */
+export async function rescheduleFailedHeight(
+  poolOrClient: Pool | PoolClient,
+  f: HeightFailure,
+  delayMs: number,
+): Promise<void> {
+  const sql = `
+    UPDATE core.failed_heights
+    SET stage = $2,
+        error = $3,
+        attempts = attempts + $4,
+        retry_count = retry_count + 1,
+        last_failed_at = now(),
+        next_retry_at = now() + ($5::bigint * interval '1 millisecond')
+    WHERE height = $1
+  `;
+  await (poolOrClient as any).query(sql, [f.height, f.stage, f.error, f.attempts, Math.max(0, Math.floor(delayMs))]);
+}
+
+/**
+ * Marks every unresolved failed height in `[from, to]` that is now present in `core.blocks` as resolved.
+ * Used after bulk repairs, which re-index heights without going through the retry loop.
+ *
+ * @param poolOrClient - PostgreSQL connection pool or client to execute the query.
+ * @param from - First height of the range (inclusive).
+ * @param to - Last height of the range (inclusive).
+ * @returns Number of rows marked as resolved.
+ */
+export async function resolveIndexedFailedHeights(
+  poolOrClient: Pool | PoolClient,
+  from: number,
+  to: number,
+): Promise<number> {
+  const sql = `
+    UPDATE core.failed_heights f
+    SET resolved_at = now()
+    WHERE f.resolved_at IS NULL
+      AND f.height BETWEEN $1 AND $2
+      AND EXISTS (SELECT 1 FROM core.blocks b WHERE b.height = f.height)
+  `;
+  const res = await (poolOrClient as any).query(sql, [from, to]);
+  return res.rowCount ?? 0;
+}
@@ -0,0 +1,68 @@
+/**
+ * @module gaps
+ * This module detects missing heights (holes) in the indexed block range.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { Pool, PoolClient } from 'pg';
+
+/**
+ * Inclusive range of block heights.
+ * @property {number} from First height of the range.
+ * @property {number} to Last height of the range.
+ */
+export type HeightRange = { from: number; to: number };
+
+/**
+ * Finds contiguous ranges of heights within `[from, to]` that have no row in `core.blocks`.
+ *
+ * Uses a gaps-and-islands query over the heights that are present, so the result size
+ * is proportional to the number of holes, not to the size of the scanned range.
+ *
+ * @param poolOrClient - PostgreSQL connection pool or client to execute the query.
+ * @param from - First height of the scanned range (inclusive).
+ * @param to - Last height of the scanned range (inclusive).
+ * @returns Missing height ranges ordered by height; empty array when the range is complete.
+ */
+export async function findGaps(poolOrClient: Pool | PoolClient, from: number, to: number): Promise<HeightRange[]> {
+  if (to < from) return [];
+  const sql = `
+    WITH bounds AS (
+      SELECT $1::bigint - 1 AS height
+      UNION ALL
+      SELECT height FROM core.blocks WHERE height BETWEEN $1 AND $2
+      UNION ALL
+      SELECT $2::bigint + 1
+    ),
+    ordered AS (
+      SELECT height, lead(height) OVER (ORDER BY height) AS next_height FROM bounds
+    )
+    SELECT height + 1 AS gap_from, next_height - 1 AS gap_to
+    FROM ordered
+    WHERE next_height - height > 1
+    ORDER BY gap_from
+  `;
+  const res = await (poolOrClient as any).query(sql, [from, to]);
+  return res.rows.map((r: any) => ({ from: Number(r.gap_from), to: Number(r.gap_to) }));
+}
+
+/**
+ * Counts the total number of heights covered by a list of ranges.
+ *
+ * @param ranges - Inclusive height ranges.
+ * @returns Sum of range lengths.
+ */
+export function countHeights(ranges: HeightRange[]): number {
+  return ranges.reduce((acc, r) => acc + (r.to - r.from + 1), 0);
+}
+
+/**
+ * Returns the lowest and highest heights stored in `core.blocks`.
+ *
+ * @param poolOrClient - PostgreSQL connection pool or client to execute the query.
+ * @returns The stored bounds, or null when no block is stored.
+ */
+export async function storedHeightBounds(poolOrClient: Pool | PoolClient): Promise<HeightRange | null> {
+  const res = await (poolOrClient as any).query(`SELECT min(height) AS lo, max(height) AS hi FROM core.blocks`);
+  const r = res.rows[0];
+  return r?.lo != null ? { from: Number(r.lo), to: Number(r.hi) } : null;
+}
@@ -0,0 +1,210 @@
+/**
+ * @module jobs
+ * This module manages the cooperative range job queue in `core.index_jobs`.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { Pool, PoolClient } from 'pg';
+
+/**
+ * A chunk of heights claimed by a worker.
+ * @property {string} queue Queue (progress id) the chunk belongs to.
+ * @property {number} from First height of the chunk (inclusive).
+ * @property {number} to Last height of the chunk (inclusive).
+ * @property {number} attempts Number of claims so far, including this one.
+ */
+export type IndexJob = {
+  queue: string;
+  from: number;
+  to: number;
+  attempts: number;
+};
+
+/**
+ * Adds chunks covering `[from, to]` to a queue, skipping heights already covered.
+ *
+ * Chunks are aligned to multiples of `chunkSize` (clipped by the range), and new chunks only
+ * start above the highest chunk of the queue, so replicas enqueueing the same range concurrently,
+ * or with a newer `to`, never create overlapping chunks.
+ *
+ * @param pool - PostgreSQL connection pool.
+ * @param queue - Queue (progress id) to add to.
+ * @param from - First height of the range (inclusive).
+ * @param to - Last height of the range (inclusive).
+ * @param chunkSize - Number of consecutive heights per chunk.
+ * @returns Number of chunks added.
+ */
+export async function enqueueJobs(
+  pool: Pool,
+  queue: string,
+  from: number,
+  to: number,
+  chunkSize: number,
+): Promise<number> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(`SELECT pg_advisory_xact_lock($1, hashtext($2))`, [0x6a6f6273, queue]);
+    const res = await client.query(`SELECT max(to_height) AS top FROM core.index_jobs WHERE queue = $1`, [queue]);
+    const top = res.rows[0]?.top != null ? Number(res.rows[0].top) : undefined;
+    const start = top !== undefined ? Math.max(from, top + 1) : from;
+    const sql = `
+      INSERT INTO core.index_jobs (queue, from_height, to_height)
+      SELECT $1, GREATEST(k * $4::bigint, $2::bigint), LEAST((k + 1) * $4::bigint - 1, $3::bigint)
+      FROM generate_series($2::bigint / $4::bigint, $3::bigint / $4::bigint) AS k
+      ON CONFLICT (queue, from_height) DO NOTHING
+    `;
+    const ins = start <= to ? await client.query(sql, [queue, start, to, chunkSize]) : { rowCount: 0 };
+    await client.query('COMMIT');
+    return ins.rowCount ?? 0;
+  } catch (e) {
+    await client.query('ROLLBACK');
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Claims the lowest pending chunk of a queue, or a running chunk whose lease has expired.
+ * Concurrent workers never claim the same chunk (`FOR UPDATE SKIP LOCKED`).
+ *
+ * @param poolOrClient - PostgreSQL connection pool or client to execute the query.
+ * @param queue - Queue to claim from.
+ * @param owner - Worker identifier stored on the chunk.
+ * @param leaseMs - Lease duration in milliseconds.
+ * @param maxAttempts - Chunks already claimed this many times are marked failed instead.
+ * @returns The claimed chunk, or null when nothing is claimable.
+ */
+export async function claimJob(
+  poolOrClient: Pool | PoolClient,
+  queue: string,
+  owner: string,
+  leaseMs: number,
+  maxAttempts: number,
+): Promise<IndexJob | null> {
+  // Chunks whose lease expired too often are given up on, so they do not loop forever.
+  await (poolOrClient as any).query(
+    `
+    UPDATE core.index_jobs
+    SET status = 'failed', last_error = coalesce(last_error, 'lease expired'), updated_at = now()
+    WHERE queue = $1 AND status = 'running' AND lease_until < now() AND attempts >= $2
+    `,
+    [queue, maxAttempts],
+  );
+  const sql = `
+    UPDATE core.index_jobs j
+    SET status = 'running',
+        owner = $2,
+        lease_until = now() + ($3::bigint * interval '1 millisecond'),
+        attempts = j.attempts + 1,
+        updated_at = now()
+    WHERE (j.queue, j.from_height) = (
+      SELECT queue, from_height
+      FROM core.index_jobs
+      WHERE queue = $1
+        AND (status = 'pending' OR (status = 'running' AND lease_until < now()))
+      ORDER BY from_height
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.queue, j.from_height, j.to_height, j.attempts
+  `;
+  const res = await (poolOrClient as any).query(sql, [queue, owner, Math.max(0, Math.floor(leaseMs))]);
+  if (!res.rowCount) return null;
+  const r = res.rows[0];
+  return { queue: r.queue, from: Number(r.from_height), to: Number(r.to_height), attempts: Number(r.attempts) };
+}
+
+/**
+ * Extends the lease of a chunk still held by `owner`.
+ *
+ * @param poolOrClient - PostgreSQL connection pool or client to execute the query.
+ * @param job - Claimed chunk.
+ * @param owner - Worker identifier.
+ * @param leaseMs - New lease duration from now, in milliseconds.
+ * @returns False when the chunk is no longer held by `owner` (the lease was lost).
+ */
+export async function renewJobLease(
+  poolOrClient: Pool | PoolClient,
+  job: IndexJob,
+  owner: string,
+  leaseMs: number,
+): Promise<boolean> {
+  const sql = `
+    UPDATE core.index_jobs
+    SET lease_until = now() + ($4::bigint * interval '1 millisecond'), updated_at = now()
+    WHERE queue = $1 AND from_height = $2 AND owner = $3 AND status = 'running'
+  `;
+  const res = await (poolOrClient as any).query(sql, [job.queue, job.from, owner, Math.max(0, Math.floor(leaseMs))]);
+  return (res.rowCount ?? 0) > 0;
+}
+
+/**
+ * Marks a chunk as done, provided `owner` still holds an unexpired lease on it.
+ *
+ * @param poolOrClient - PostgreSQL connection pool or client to execute the query.
+ * @param job - Claimed chunk.
+ * @param owner - Worker identifier.
+ * @returns False when the lease was lost; the chunk is left to its current holder.
+ */
+export async function completeJob(poolOrClient: Pool | PoolClient, job: IndexJob, owner: string): Promise<boolean> {
+  const sql = `
+    UPDATE core.index_jobs
+    SET status = 'done', lease_until = NULL, last_error = NULL, updated_at = now()
+    WHERE queue = $1 AND from_height = $2 AND owner = $3 AND status = 'running' AND lease_until > now()
+  `;
+  const res = await (poolOrClient as any).query(sql, [job.queue, job.from, owner]);
+  return (res.rowCount ?? 0) > 0;
+}
+
+/**
+ * Returns a chunk to the queue after an error or a stop request. A chunk `owner` no longer holds
+ * is left alone.
+ *
+ * @param poolOrClient - PostgreSQL connection pool or client to execute the query.
+ * @param job - Claimed chunk.
+ * @param owner - Worker identifier.
+ * @param error - Error message, or undefined when the chunk is released on shutdown (the claim is not counted).
+ * @param maxAttempts - With an error, a chunk claimed this many times is marked failed instead of pending.
+ */
+export async function releaseJob(
+  poolOrClient: Pool | PoolClient,
+  job: IndexJob,
+  owner: string,
+  error: string | undefined,
+  maxAttempts: number,
+): Promise<void> {
+  const sql = `
+    UPDATE core.index_jobs
+    SET status = CASE WHEN $3::text IS NOT NULL AND attempts >= $4 THEN 'failed' ELSE 'pending' END,
+        attempts = CASE WHEN $3::text IS NULL THEN greatest(attempts - 1, 0) ELSE attempts END,
+        last_error = coalesce($3::text, last_error),
+        owner = NULL,
+        lease_until = NULL,
+        updated_at = now()
+    WHERE queue = $1 AND from_height = $2 AND owner = $5 AND status = 'running'
+  `;
+  await (poolOrClient as any).query(sql, [job.queue, job.from, error ?? null, maxAttempts, owner]);
+}
+
+/**
+ * Computes the contiguous watermark of a queue: the highest height `W` such that every chunk
+ * from the lowest one up to `W` is done.
+ *
+ * @param poolOrClient - PostgreSQL connection pool or client to execute the query.
+ * @param queue - Queue to inspect.
+ * @returns The watermark, or null when the queue is empty or its lowest chunk is not done.
+ */
+export async function jobWatermark(poolOrClient: Pool | PoolClient, queue: string): Promise<number | null> {
+  const sql = `
+    SELECT
+      (SELECT min(from_height) FROM core.index_jobs WHERE queue = $1) AS floor,
+      (SELECT min(from_height) FROM core.index_jobs WHERE queue = $1 AND status <> 'done') AS open_from,
+      (SELECT max(to_height) FROM core.index_jobs WHERE queue = $1) AS top
+  `;
+  const res = await (poolOrClient as any).query(sql, [queue]);
+  const r = res.rows[0];
+  if (r?.floor == null) return null;
+  const w = r.open_from != null ? Number(r.open_from) - 1 : Number(r.top);
+  return w >= Number(r.floor) ? w : null;
+}
@@ -0,0 +1,118 @@
+/**
+ * @module migrate
+ * This module applies the schema files of a migrations directory and records them in `core.schema_migrations`.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { createHash } from 'node:crypto';
+import { readdir, readFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import type { Pool } from 'pg';
+
+/**
+ * A migration file.
+ * @property {string} name File name, also the key in `core.schema_migrations`.
+ * @property {string} sql File contents.
+ * @property {string} checksum SHA-256 of the contents.
+ */
+export type MigrationFile = { name: string; sql: string; checksum: string };
+
+/**
+ * Outcome of {@link applyMigrations}.
+ * @property {string[]} applied Files run by this call.
+ * @property {string[]} recorded Files recorded without running them, with `baseline`.
+ * @property {string[]} skipped Files that were already recorded.
+ * @property {string[]} changed Recorded files whose contents changed since they were applied.
+ */
+export type MigrationResult = { applied: string[]; recorded: string[]; skipped: string[]; changed: string[] };
+
+/**
+ * Reads the `.sql` files of a directory, ordered by name.
+ *
+ * @param dir - Migrations directory.
+ * @returns The migration files.
+ */
+export async function readMigrationFiles(dir: string): Promise<MigrationFile[]> {
+  const root = resolve(dir);
+  const names = (await readdir(root)).filter((f) => f.endsWith('.sql')).sort();
+  const files: MigrationFile[] = [];
+  for (const name of names) {
+    const sql = await readFile(join(root, name), 'utf8');
+    files.push({ name, sql, checksum: createHash('sha256').update(sql).digest('hex') });
+  }
+  return files;
+}
+
+/**
+ * Applies the files that are not recorded in `core.schema_migrations`, in order, one transaction
+ * per file. A session advisory lock keeps concurrent runs from applying the same file twice.
+ *
+ * A database initialized by the Postgres container's init scripts already has the schema but no
+ * records; running every file again would fail, so such a database is rejected unless `baseline`
+ * names the last file the init scripts ran. That file and the ones before it are recorded without
+ * running them; the files after it are applied as usual.
+ *
+ * @param pool - PostgreSQL connection pool.
+ * @param files - Migration files, in the order they are applied.
+ * @param opts - `baseline`: name of the last file to record as applied without running it.
+ * @returns What was applied, recorded, skipped, or changed since it was applied.
+ * @throws {Error} When a file fails (its transaction is rolled back), the database needs a baseline,
+ *   or `baseline` names no file.
+ */
+export async function applyMigrations(
+  pool: Pool,
+  files: MigrationFile[],
+  opts: { baseline?: string } = {},
+): Promise<MigrationResult> {
+  const baselineIdx = opts.baseline === undefined ? -1 : files.findIndex((f) => f.name === opts.baseline);
+  if (opts.baseline !== undefined && baselineIdx < 0) {
+    throw new Error(`baseline file "${opts.baseline}" is not among the migration files`);
+  }
+  const client = await pool.connect();
+  try {
+    await client.query(`SELECT pg_advisory_lock(hashtext('cosmos-indexer:migrate'))`);
+    await client.query(`CREATE SCHEMA IF NOT EXISTS core`);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS core.schema_migrations (
+        name        TEXT PRIMARY KEY,
+        checksum    TEXT NOT NULL,
+        applied_at  TIMESTAMPTZ NOT NULL DEFAULT now()
+      )
+    `);
+
+    const res = await client.query(`SELECT name, checksum FROM core.schema_migrations`);
+    const recorded = new Map<string, string>(res.rows.map((r: any) => [String(r.name), String(r.checksum)]));
+    if (recorded.size === 0 && !opts.baseline) {
+      const existing = await client.query(`SELECT to_regclass('core.blocks') IS NOT NULL AS present`);
+      if (existing.rows[0]?.present) {
+        throw new Error(
+          'core.blocks exists but no migration is recorded; run "migrate --baseline=<file>" once, ' +
+            'naming the last file the database was created with',
+        );
+      }
+    }
+
+    const out: MigrationResult = { applied: [], recorded: [], skipped: [], changed: [] };
+    for (const [i, f] of files.entries()) {
+      const stored = recorded.get(f.name);
+      if (stored !== undefined) {
+        out.skipped.push(f.name);
+        if (stored !== f.checksum) out.changed.push(f.name);
+        continue;
+      }
+      try {
+        await client.query('BEGIN');
+        if (i > baselineIdx) await client.query(f.sql);
+        await client.query(`INSERT INTO core.schema_migrations (name, checksum) VALUES ($1, $2)`, [f.name, f.checksum]);
+        await client.query('COMMIT');
+      } catch (e: any) {
+        await client.query('ROLLBACK').catch(() => {});
+        throw new Error(`${f.name}: ${String(e?.message ?? e)}`);
+      }
+      (i <= baselineIdx ? out.recorded : out.applied).push(f.name);
+    }
+    return out;
+  } finally {
+    await client.query(`SELECT pg_advisory_unlock(hashtext('cosmos-indexer:migrate'))`).catch(() => {});
+    client.release();
+  }
+}
@@ -8,7 +8,8 @@ import type { PoolClient } from 'pg';
 
 const STEP = 1_000_000;
 
-const RANGE_TABLES: Array<{ schema: string; table: string }> = [
+/** Tables partitioned by `height`; every row belongs to exactly one block. */
+export const RANGE_TABLES: Array<{ schema: string; table: string }> = [
   { schema: 'core', table: 'blocks' },
   { schema: 'core', table: 'validator_set' },
   { schema: 'core', table: 'validator_missed_blocks' },
@@ -38,14 +39,22 @@ const RANGE_TABLES: Array<{ schema: string; table: string }> = [
  * @param client - The PostgreSQL client to execute queries with.
  * @param minH - The minimum height for which partitions should be ensured.
  * @param maxH - Optional maximum height for partition creation; if omitted, uses minH.
+ * @param extraTables - Additional height-partitioned tables (e.g. of extractor plugins); entries
+ *   already in RANGE_TABLES are skipped.
  *
  * Behavior:
  * - Acquires an advisory lock to prevent concurrent partition creation.
  * - Creates hash partitions for the "core.events" table based on configured modulus.
  * - Creates range partitions for each table in RANGE_TABLES within the specified height range.
  */
-export async function ensureCorePartitions(client: PoolClient, minH: number, maxH?: number) {
+export async function ensureCorePartitions(
+  client: PoolClient,
+  minH: number,
+  maxH?: number,
+  extraTables: Array<{ schema: string; table: string }> = [],
+) {
   if (!Number.isFinite(minH)) return;
+  const extra = extraTables.filter((x) => !RANGE_TABLES.some((t) => t.schema === x.schema && t.table === x.table));
   const startBase = Math.floor(minH / STEP) * STEP;
   const endBase = Math.floor((maxH ?? minH) / STEP) * STEP;
 
@@ -63,6 +72,9 @@ export async function ensureCorePartitions(client: PoolClient, minH: number, max
         if (schema === 'core' && table === 'blocks') continue;
         await createRangePartition(client, schema, table, from, to);
       }
+      for (const { schema, table } of extra) {
+        await createRangePartition(client, schema, table, from, to);
+      }
     }
   } finally {
     await client.query(`SELECT pg_advisory_unlock($1)`, [0x70617274]);
@@ -22,18 +22,63 @@ export async function getProgress(poolOrClient: Pool | PoolClient, id: string):
  * Inserts or updates the last processed block height for the given indexer ID.
  *
  * If a record for the provided ID exists, it updates the `last_height` and sets `updated_at` to now.
- * Otherwise, it creates a new record.
+ * Otherwise, it creates a new record. The stored height never moves backwards, so flushes of
+ * older heights (e.g. gap repair) do not rewind the resume point.
  *
- * @param client - PostgreSQL client to execute the upsert query.
+ * @param poolOrClient - PostgreSQL connection pool or client to execute the upsert query.
  * @param id - Unique identifier for the indexer whose progress is being recorded.
  * @param lastHeight - The last processed block height to store.
  */
-export async function upsertProgress(client: PoolClient, id: string, lastHeight: number): Promise<void> {
+export async function upsertProgress(poolOrClient: Pool | PoolClient, id: string, lastHeight: number): Promise<void> {
   const sql = `
     INSERT INTO core.indexer_progress (id, last_height)
     VALUES ($1, $2)
     ON CONFLICT (id)
-    DO UPDATE SET last_height = EXCLUDED.last_height, updated_at = now()
+    DO UPDATE SET last_height = GREATEST(core.indexer_progress.last_height, EXCLUDED.last_height), updated_at = now()
   `;
-  await client.query(sql, [id, lastHeight]);
+  await (poolOrClient as any).query(sql, [id, lastHeight]);
+}
+
+/**
+ * Inserts or updates the low watermark of a descending run for the given indexer ID.
+ *
+ * Uses the same `last_height` column as {@link upsertProgress}, but the stored height never moves
+ * upwards: a descending run has indexed everything from its start down to this height.
+ *
+ * @param poolOrClient - PostgreSQL connection pool or client to execute the upsert query.
+ * @param id - Unique identifier for the descending run whose progress is being recorded.
+ * @param lowHeight - The lowest contiguous height processed so far.
+ */
+export async function upsertLowProgress(poolOrClient: Pool | PoolClient, id: string, lowHeight: number): Promise<void> {
+  const sql = `
+    INSERT INTO core.indexer_progress (id, last_height)
+    VALUES ($1, $2)
+    ON CONFLICT (id)
+    DO UPDATE SET last_height = LEAST(core.indexer_progress.last_height, EXCLUDED.last_height), updated_at = now()
+  `;
+  await (poolOrClient as any).query(sql, [id, lowHeight]);
+}
+
+/**
+ * A row of `core.indexer_progress`.
+ * @property {string} id Progress identifier.
+ * @property {number} lastHeight Stored height (a low watermark for descending runs).
+ * @property {Date | null} updatedAt Time of the last update.
+ */
+export type ProgressRow = { id: string; lastHeight: number; updatedAt: Date | null };
+
+/**
+ * Lists every progress row, ordered by id.
+ *
+ * @param poolOrClient - PostgreSQL connection pool or client to execute the query.
+ * @returns All rows of `core.indexer_progress`.
+ */
+export async function listProgress(poolOrClient: Pool | PoolClient): Promise<ProgressRow[]> {
+  const sql = `SELECT id, last_height, updated_at FROM core.indexer_progress ORDER BY id`;
+  const res = await (poolOrClient as any).query(sql);
+  return res.rows.map((r: any) => ({
+    id: String(r.id),
+    lastHeight: Number(r.last_height),
+    updatedAt: r.updated_at ?? null,
+  }));
 }
@@ -0,0 +1,162 @@
+/**
+ * @module rederive
+ * This module reads stored core rows back as extractor inputs and clears derived tables.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { Pool, PoolClient } from 'pg';
+
+/**
+ * A stored ABCI event.
+ * @property {number} msg_index Message index (-1 for transaction-level events).
+ * @property {number} event_index Position of the event within its log.
+ * @property {string} event_type Event type.
+ * @property {any} attributes Stored attributes (`[{ key, value }]`).
+ */
+export type StoredEvent = {
+  msg_index: number;
+  event_index: number;
+  event_type: string;
+  attributes: any;
+};
+
+/**
+ * A stored transaction with its messages and events.
+ * @property {string} tx_hash Transaction hash.
+ * @property {number} height Block height.
+ * @property {Date | null} time Block time.
+ * @property {number} code ABCI result code.
+ * @property {string | null} gas_used Gas used, as returned by pg for BIGINT.
+ * @property {string | null} log_summary Raw log.
+ * @property {string[] | null} signers Ordered signers.
+ * @property {any[]} msgs Decoded messages at their `msg_index`; indexes without a stored row are holes.
+ * @property {Array<{ msg_index: number; inner_index: number[]; msg: any }>} innerMsgs Nested messages,
+ *   ordered by `msg_index` and `inner_index`.
+ * @property {StoredEvent[]} events Events ordered by `msg_index`, `event_index`.
+ */
+export type StoredTx = {
+  tx_hash: string;
+  height: number;
+  time: Date | null;
+  code: number;
+  gas_used: string | null;
+  log_summary: string | null;
+  signers: string[] | null;
+  msgs: any[];
+  innerMsgs: Array<{ msg_index: number; inner_index: number[]; msg: any }>;
+  events: StoredEvent[];
+};
+
+/**
+ * Loads the transactions of `[from, to]` with their messages and events from `core.*`.
+ *
+ * @param poolOrClient - PostgreSQL connection pool or client to execute the queries.
+ * @param from - First height (inclusive).
+ * @param to - Last height (inclusive).
+ * @returns Transactions ordered by height and index.
+ */
+export async function loadStoredTxs(poolOrClient: Pool | PoolClient, from: number, to: number): Promise<StoredTx[]> {
+  const q = (sql: string, params: unknown[] = [from, to]) => (poolOrClient as any).query(sql, params);
+  const txRes = await q(`
+    SELECT tx_hash, height, time, code, gas_used, log_summary, signers
+    FROM core.transactions
+    WHERE height BETWEEN $1 AND $2
+    ORDER BY height, tx_index
+  `);
+  const msgRes = await q(`
+    SELECT tx_hash, msg_index, inner_index, value
+    FROM core.messages
+    WHERE height BETWEEN $1 AND $2
+    ORDER BY tx_hash, msg_index, inner_index
+  `);
+  // core.events has no height column; it is looked up by the window's hashes, which only
+  // touches the hash partitions holding them.
+  const hashes = txRes.rows.map((r: any) => r.tx_hash);
+  const evRes = hashes.length
+    ? await q(
+        `
+        SELECT tx_hash, msg_index, event_index, event_type, attributes
+        FROM core.events
+        WHERE tx_hash = ANY($1::text[])
+        ORDER BY tx_hash, msg_index, event_index
+      `,
+        [hashes],
+      )
+    : { rows: [] };
+
+  const byHash = new Map<string, StoredTx>();
+  const out: StoredTx[] = txRes.rows.map((r: any) => {
+    const tx: StoredTx = {
+      tx_hash: r.tx_hash,
+      height: Number(r.height),
+      time: r.time ?? null,
+      code: Number(r.code),
+      gas_used: r.gas_used,
+      log_summary: r.log_summary,
+      signers: r.signers,
+      msgs: [],
+      innerMsgs: [],
+      events: [],
+    };
+    byHash.set(tx.tx_hash, tx);
+    return tx;
+  });
+  for (const r of msgRes.rows) {
+    const tx = byHash.get(r.tx_hash);
+    if (!tx) continue;
+    if (r.inner_index.length === 0) tx.msgs[Number(r.msg_index)] = r.value;
+    else tx.innerMsgs.push({ msg_index: Number(r.msg_index), inner_index: r.inner_index, msg: r.value });
+  }
+  for (const r of evRes.rows) {
+    byHash.get(r.tx_hash)?.events.push({
+      msg_index: Number(r.msg_index),
+      event_index: Number(r.event_index),
+      event_type: r.event_type,
+      attributes: r.attributes,
+    });
+  }
+  return out;
+}
+
+/**
+ * Deletes the derived rows of `[from, to]` from the given tables.
+ *
+ * @param client - PostgreSQL client inside the caller's transaction.
+ * @param from - First height (inclusive).
+ * @param to - Last height (inclusive).
+ * @param tables - Height-keyed tables to clear.
+ * @returns Number of deleted rows per table.
+ */
+export async function deleteDerivedRows(
+  client: PoolClient,
+  from: number,
+  to: number,
+  tables: readonly string[],
+): Promise<Record<string, number>> {
+  const out: Record<string, number> = {};
+  for (const table of tables) {
+    const res = await client.query(`DELETE FROM ${table} WHERE height BETWEEN $1 AND $2`, [from, to]);
+    out[table] = res.rowCount ?? 0;
+  }
+  return out;
+}
+
+/**
+ * Deletes the derived rows of the given heights from the given tables.
+ *
+ * @param client - PostgreSQL client inside the caller's transaction.
+ * @param heights - Heights to clear.
+ * @param tables - Height-keyed tables to clear.
+ * @returns Number of deleted rows per table.
+ */
+export async function deleteDerivedRowsAt(
+  client: PoolClient,
+  heights: readonly number[],
+  tables: readonly string[],
+): Promise<Record<string, number>> {
+  const out: Record<string, number> = {};
+  for (const table of tables) {
+    const res = await client.query(`DELETE FROM ${table} WHERE height = ANY($1::bigint[])`, [heights]);
+    out[table] = res.rowCount ?? 0;
+  }
+  return out;
+}
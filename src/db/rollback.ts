@@ -0,0 +1,88 @@
+/**
+ * @module rollback
+ * This module reads stored block hashes and removes indexed heights after a chain fork.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { Pool, PoolClient } from 'pg';
+import { RANGE_TABLES } from './partitions.js';
+
+/**
+ * Reads the stored hash of a block.
+ *
+ * @param poolOrClient - PostgreSQL connection pool or client to execute the query.
+ * @param height - Block height.
+ * @returns The `block_hash` stored in `core.blocks`, or null when the height is not indexed.
+ */
+export async function getBlockHash(poolOrClient: Pool | PoolClient, height: number): Promise<string | null> {
+  const sql = `SELECT block_hash FROM core.blocks WHERE height = $1`;
+  const res = await (poolOrClient as any).query(sql, [height]);
+  return res.rowCount ? String(res.rows[0].block_hash) : null;
+}
+
+/**
+ * Options of {@link deleteHeights}.
+ * @property extraTables - Further height-partitioned tables to clear (e.g. those of plugin extractors);
+ *   tables already in `RANGE_TABLES` are skipped.
+ * @property progressIds - `core.indexer_progress` rows moved back to `from - 1` when they are above it.
+ */
+export type DeleteHeightsOptions = {
+  extraTables?: Array<{ schema: string; table: string }>;
+  progressIds?: string[];
+};
+
+/**
+ * Deletes everything indexed for the heights `[from, to]` in one transaction.
+ *
+ * Events and their attributes are keyed by transaction hash, so they are removed first
+ * through the transactions of the range; then every height-partitioned table is cleared,
+ * with the upgrades recorded in the range. Aggregated `*_current` tables are not touched.
+ *
+ * Progress is moved back to `from - 1` in the same transaction (the given indexer progress ids
+ * and every extractor tip), so a crash before the range is indexed again resumes below it.
+ *
+ * @param pool - PostgreSQL connection pool.
+ * @param from - First height to delete (inclusive).
+ * @param to - Last height to delete (inclusive).
+ * @param opts - Extra tables and progress ids.
+ * @returns Number of deleted `core.blocks` rows.
+ */
+export async function deleteHeights(
+  pool: Pool,
+  from: number,
+  to: number,
+  opts: DeleteHeightsOptions = {},
+): Promise<number> {
+  if (to < from) return 0;
+  const known = new Set(RANGE_TABLES.map((t) => `${t.schema}.${t.table}`));
+  const extra = (opts.extraTables ?? []).filter((t) => !known.has(`${t.schema}.${t.table}`));
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const txHashes = `SELECT tx_hash FROM core.transactions WHERE height BETWEEN $1 AND $2`;
+    await client.query(`DELETE FROM core.event_attrs WHERE tx_hash IN (${txHashes})`, [from, to]);
+    await client.query(`DELETE FROM core.events WHERE tx_hash IN (${txHashes})`, [from, to]);
+    let blocks = 0;
+    for (const { schema, table } of [...RANGE_TABLES, ...extra]) {
+      const res = await client.query(`DELETE FROM ${schema}.${table} WHERE height BETWEEN $1 AND $2`, [from, to]);
+      if (schema === 'core' && table === 'blocks') blocks = res.rowCount ?? 0;
+    }
+    await client.query(`DELETE FROM core.chain_upgrades WHERE height BETWEEN $1 AND $2`, [from, to]);
+    await client.query(
+      `UPDATE core.extractor_progress SET last_height = $1, updated_at = now() WHERE last_height > $1`,
+      [from - 1],
+    );
+    if (opts.progressIds?.length) {
+      await client.query(
+        `UPDATE core.indexer_progress SET last_height = $2, updated_at = now() WHERE id = ANY($1) AND last_height > $2`,
+        [opts.progressIds, from - 1],
+      );
+    }
+    await client.query('COMMIT');
+    return blocks;
+  } catch (e) {
+    await client.query('ROLLBACK');
+    throw e;
+  } finally {
+    client.release();
+  }
+}
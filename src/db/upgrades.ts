@@ -0,0 +1,33 @@
+/**
+ * @module upgrades
+ * This module reads and records the heights of chain software upgrades in `core.chain_upgrades`.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { Pool, PoolClient } from 'pg';
+
+/**
+ * Lists the recorded upgrades.
+ *
+ * @param poolOrClient - PostgreSQL connection pool or client to execute the query.
+ * @returns Upgrade heights by name.
+ */
+export async function listChainUpgrades(poolOrClient: Pool | PoolClient): Promise<Map<string, number>> {
+  const res = await (poolOrClient as any).query(`SELECT name, height FROM core.chain_upgrades`);
+  return new Map(res.rows.map((r: any) => [String(r.name), Number(r.height)]));
+}
+
+/**
+ * Records the height of an upgrade. An upgrade that is already recorded keeps its height.
+ *
+ * @param poolOrClient - PostgreSQL connection pool or client to execute the query.
+ * @param name - Upgrade name (the `name` attribute of the `upgrade` event).
+ * @param height - Height the upgrade was applied at.
+ */
+export async function recordChainUpgrade(poolOrClient: Pool | PoolClient, name: string, height: number): Promise<void> {
+  const sql = `
+    INSERT INTO core.chain_upgrades (name, height)
+    VALUES ($1, $2)
+    ON CONFLICT (name) DO NOTHING
+  `;
+  await (poolOrClient as any).query(sql, [name, height]);
+}
@@ -0,0 +1,77 @@
+/**
+ * @module verify
+ * This module reads what is stored per block, to be compared with the chain by the `verify` command.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { Pool, PoolClient } from 'pg';
+
+/**
+ * What is stored for one block.
+ * @property {number} height Block height.
+ * @property {string} blockHash `core.blocks.block_hash`.
+ * @property {string | null} appHash `core.blocks.app_hash`.
+ * @property {number} txCount `core.blocks.tx_count`.
+ * @property {number} storedTxs Number of `core.transactions` rows of the height.
+ */
+export type StoredBlockDigest = {
+  height: number;
+  blockHash: string;
+  appHash: string | null;
+  txCount: number;
+  storedTxs: number;
+};
+
+/**
+ * Reads the stored digest of the given heights. Heights that are not stored are left out.
+ *
+ * @param poolOrClient - PostgreSQL connection pool or client to execute the query.
+ * @param heights - Heights to read.
+ * @returns Digests ordered by height.
+ */
+export async function loadBlockDigests(
+  poolOrClient: Pool | PoolClient,
+  heights: number[],
+): Promise<StoredBlockDigest[]> {
+  if (heights.length === 0) return [];
+  const sql = `
+    SELECT b.height, b.block_hash, b.app_hash, b.tx_count, COALESCE(t.n, 0) AS stored_txs
+    FROM core.blocks b
+    LEFT JOIN (
+      SELECT height, count(*) AS n FROM core.transactions WHERE height = ANY($1::bigint[]) GROUP BY height
+    ) t USING (height)
+    WHERE b.height = ANY($1::bigint[])
+    ORDER BY b.height
+  `;
+  const res = await (poolOrClient as any).query(sql, [heights]);
+  return res.rows.map((r: any) => ({
+    height: Number(r.height),
+    blockHash: String(r.block_hash),
+    appHash: r.app_hash ?? null,
+    txCount: Number(r.tx_count),
+    storedTxs: Number(r.stored_txs),
+  }));
+}
+
+/**
+ * Picks random stored heights within `[from, to]`.
+ *
+ * @param poolOrClient - PostgreSQL connection pool or client to execute the query.
+ * @param from - First height (inclusive).
+ * @param to - Last height (inclusive).
+ * @param n - Number of heights to pick.
+ * @returns Up to `n` stored heights, ordered by height.
+ */
+export async function sampleStoredHeights(
+  poolOrClient: Pool | PoolClient,
+  from: number,
+  to: number,
+  n: number,
+): Promise<number[]> {
+  const sql = `
+    SELECT height FROM (
+      SELECT height FROM core.blocks WHERE height BETWEEN $1 AND $2 ORDER BY random() LIMIT $3
+    ) s ORDER BY height
+  `;
+  const res = await (poolOrClient as any).query(sql, [from, to, n]);
+  return res.rows.map((r: any) => Number(r.height));
+}
@@ -0,0 +1,413 @@
+// src/decode/decoders/amino.ts
+
+/**
+ * Module for decoding legacy Amino `StdTx` transactions (chains before Stargate) into the same
+ * normalized shape as protobuf transactions. Registered legacy messages are mapped to their
+ * protobuf type URLs and field names; addresses, stored as raw bytes in Amino binary, are
+ * converted to bech32 with the configured prefix.
+ */
+import { createHash } from 'node:crypto';
+import protobuf from 'protobufjs';
+import { toBech32 } from '@cosmjs/encoding';
+import { getBech32Prefix } from './context.ts';
+
+/**
+ * Kind of a field of a legacy message: how it is read from Amino binary and normalized from
+ * Amino JSON. A nested array of fields describes a repeated struct.
+ */
+type FieldKind = 'string' | 'address' | 'valAddress' | 'uint64' | 'coin' | 'coins' | 'voteOption' | FieldSpec[];
+
+/**
+ * A field of a legacy message.
+ * @property no - Amino binary field number.
+ * @property name - Field name in the protobuf message.
+ * @property kind - How the value is decoded.
+ * @property json - Key in Amino JSON, when it differs from `name`.
+ */
+type FieldSpec = { no: number; name: string; kind: FieldKind; json?: string };
+
+/**
+ * A registered legacy message.
+ * @property names - Amino names the message was registered under.
+ * @property typeUrl - Protobuf type URL it maps to.
+ * @property fields - Its fields.
+ */
+type LegacyMsgSpec = { names: string[]; typeUrl: string; fields: FieldSpec[] };
+
+const BANK_IO: FieldSpec[] = [
+  { no: 1, name: 'address', kind: 'address' },
+  { no: 2, name: 'coins', kind: 'coins' },
+];
+
+const LEGACY_MSGS: LegacyMsgSpec[] = [
+  {
+    names: ['cosmos-sdk/MsgSend', 'cosmos-sdk/Send'],
+    typeUrl: '/cosmos.bank.v1beta1.MsgSend',
+    fields: [
+      { no: 1, name: 'from_address', kind: 'address' },
+      { no: 2, name: 'to_address', kind: 'address' },
+      { no: 3, name: 'amount', kind: 'coins' },
+    ],
+  },
+  {
+    names: ['cosmos-sdk/MsgMultiSend', 'cosmos-sdk/MultiSend'],
+    typeUrl: '/cosmos.bank.v1beta1.MsgMultiSend',
+    fields: [
+      { no: 1, name: 'inputs', kind: BANK_IO },
+      { no: 2, name: 'outputs', kind: BANK_IO },
+    ],
+  },
+  {
+    names: ['cosmos-sdk/MsgDelegate'],
+    typeUrl: '/cosmos.staking.v1beta1.MsgDelegate',
+    fields: [
+      { no: 1, name: 'delegator_address', kind: 'address' },
+      { no: 2, name: 'validator_address', kind: 'valAddress' },
+      { no: 3, name: 'amount', kind: 'coin' },
+    ],
+  },
+  {
+    names: ['cosmos-sdk/MsgUndelegate'],
+    typeUrl: '/cosmos.staking.v1beta1.MsgUndelegate',
+    fields: [
+      { no: 1, name: 'delegator_address', kind: 'address' },
+      { no: 2, name: 'validator_address', kind: 'valAddress' },
+      { no: 3, name: 'amount', kind: 'coin' },
+    ],
+  },
+  {
+    names: ['cosmos-sdk/MsgBeginRedelegate'],
+    typeUrl: '/cosmos.staking.v1beta1.MsgBeginRedelegate',
+    fields: [
+      { no: 1, name: 'delegator_address', kind: 'address' },
+      { no: 2, name: 'validator_src_address', kind: 'valAddress' },
+      { no: 3, name: 'validator_dst_address', kind: 'valAddress' },
+      { no: 4, name: 'amount', kind: 'coin' },
+    ],
+  },
+  {
+    names: ['cosmos-sdk/MsgWithdrawDelegationReward'],
+    typeUrl: '/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward',
+    fields: [
+      { no: 1, name: 'delegator_address', kind: 'address' },
+      { no: 2, name: 'validator_address', kind: 'valAddress' },
+    ],
+  },
+  {
+    names: ['cosmos-sdk/MsgWithdrawValidatorCommission'],
+    typeUrl: '/cosmos.distribution.v1beta1.MsgWithdrawValidatorCommission',
+    fields: [{ no: 1, name: 'validator_address', kind: 'valAddress' }],
+  },
+  {
+    names: ['cosmos-sdk/MsgModifyWithdrawAddress'],
+    typeUrl: '/cosmos.distribution.v1beta1.MsgSetWithdrawAddress',
+    fields: [
+      { no: 1, name: 'delegator_address', kind: 'address' },
+      { no: 2, name: 'withdraw_address', kind: 'address' },
+    ],
+  },
+  {
+    names: ['cosmos-sdk/MsgVote'],
+    typeUrl: '/cosmos.gov.v1beta1.MsgVote',
+    fields: [
+      { no: 1, name: 'proposal_id', kind: 'uint64' },
+      { no: 2, name: 'voter', kind: 'address' },
+      { no: 3, name: 'option', kind: 'voteOption' },
+    ],
+  },
+  {
+    names: ['cosmos-sdk/MsgDeposit'],
+    typeUrl: '/cosmos.gov.v1beta1.MsgDeposit',
+    fields: [
+      { no: 1, name: 'proposal_id', kind: 'uint64' },
+      { no: 2, name: 'depositor', kind: 'address' },
+      { no: 3, name: 'amount', kind: 'coins' },
+    ],
+  },
+  {
+    names: ['cosmos-sdk/MsgUnjail'],
+    typeUrl: '/cosmos.slashing.v1beta1.MsgUnjail',
+    fields: [{ no: 1, name: 'validator_addr', kind: 'valAddress', json: 'address' }],
+  },
+];
+
+const VOTE_OPTIONS = [
+  'VOTE_OPTION_UNSPECIFIED',
+  'VOTE_OPTION_YES',
+  'VOTE_OPTION_ABSTAIN',
+  'VOTE_OPTION_NO',
+  'VOTE_OPTION_NO_WITH_VETO',
+];
+const VOTE_OPTIONS_JSON: Record<string, string> = {
+  Yes: 'VOTE_OPTION_YES',
+  Abstain: 'VOTE_OPTION_ABSTAIN',
+  No: 'VOTE_OPTION_NO',
+  NoWithVeto: 'VOTE_OPTION_NO_WITH_VETO',
+};
+
+const PUBKEY_TYPES: Record<string, string> = {
+  'tendermint/PubKeySecp256k1': '/cosmos.crypto.secp256k1.PubKey',
+  'tendermint/PubKeyEd25519': '/cosmos.crypto.ed25519.PubKey',
+  'tendermint/PubKeyMultisigThreshold': '/cosmos.crypto.multisig.LegacyAminoPubKey',
+};
+
+/**
+ * Computes the 4-byte prefix Amino writes before a registered concrete type: the SHA-256 of its
+ * name without leading zero bytes, then without 3 disambiguation bytes and leading zero bytes.
+ * @param name The registered Amino name.
+ * @returns The prefix as uppercase hex.
+ */
+export function aminoPrefix(name: string): string {
+  const h = createHash('sha256').update(name).digest();
+  let i = 0;
+  while (h[i] === 0) i++;
+  i += 3;
+  while (h[i] === 0) i++;
+  return h
+    .subarray(i, i + 4)
+    .toString('hex')
+    .toUpperCase();
+}
+
+const STD_TX_PREFIXES = new Set(['auth/StdTx', 'cosmos-sdk/StdTx'].map(aminoPrefix));
+const MSGS_BY_PREFIX = new Map(LEGACY_MSGS.flatMap((m) => m.names.map((n) => [aminoPrefix(n), m] as const)));
+const MSGS_BY_NAME = new Map(LEGACY_MSGS.flatMap((m) => m.names.map((n) => [n, m] as const)));
+const PUBKEYS_BY_PREFIX = new Map(Object.entries(PUBKEY_TYPES).map(([n, url]) => [aminoPrefix(n), url]));
+
+/**
+ * Reads the length-delimited fields of a struct: field number → raw values, in order.
+ * Varint fields are returned as strings.
+ */
+function readFields(bytes: Uint8Array): Map<number, Array<Uint8Array | string>> {
+  const out = new Map<number, Array<Uint8Array | string>>();
+  const r = protobuf.Reader.create(bytes);
+  while (r.pos < r.len) {
+    const tag = r.uint32();
+    const no = tag >>> 3;
+    const wt = tag & 7;
+    let v: Uint8Array | string;
+    if (wt === 2) v = r.bytes();
+    else if (wt === 0) v = r.uint64().toString();
+    else {
+      r.skipType(wt);
+      continue;
+    }
+    const list = out.get(no);
+    if (list) list.push(v);
+    else out.set(no, [v]);
+  }
+  return out;
+}
+
+/** Splits the 4-byte Amino prefix off an interface value. */
+function splitPrefix(bytes: Uint8Array): { prefix: string; rest: Uint8Array } {
+  return { prefix: Buffer.from(bytes.subarray(0, 4)).toString('hex').toUpperCase(), rest: bytes.subarray(4) };
+}
+
+const text = (v: Uint8Array | string | undefined) =>
+  v === undefined ? '' : typeof v === 'string' ? v : Buffer.from(v).toString('utf8');
+
+/** Decodes an Amino binary `sdk.Coin` (amounts are encoded as strings). */
+function coinFromBinary(bytes: Uint8Array) {
+  const f = readFields(bytes);
+  return { denom: text(f.get(1)?.[0]), amount: text(f.get(2)?.[0]) || '0' };
+}
+
+/** Decodes one field value of a legacy message from Amino binary. */
+function binaryValue(kind: FieldKind, values: Array<Uint8Array | string> | undefined): unknown {
+  const first = values?.[0];
+  if (Array.isArray(kind)) return (values ?? []).map((v) => structFromBinary(kind, v as Uint8Array));
+  switch (kind) {
+    case 'string':
+      return text(first);
+    case 'address':
+    case 'valAddress': {
+      if (!(first instanceof Uint8Array) || first.length === 0) return '';
+      const prefix = getBech32Prefix();
+      return toBech32(kind === 'address' ? prefix : `${prefix}valoper`, first);
+    }
+    case 'uint64':
+      return typeof first === 'string' ? first : '0';
+    case 'coin':
+      return first instanceof Uint8Array ? coinFromBinary(first) : null;
+    case 'coins':
+      return (values ?? []).map((v) => coinFromBinary(v as Uint8Array));
+    case 'voteOption':
+      return VOTE_OPTIONS[Number(first ?? 0)] ?? String(first);
+  }
+}
+
+/** Decodes a struct of a legacy message from Amino binary. */
+function structFromBinary(fields: FieldSpec[], bytes: Uint8Array): Record<string, unknown> {
+  const raw = readFields(bytes);
+  const out: Record<string, unknown> = {};
+  for (const f of fields) out[f.name] = binaryValue(f.kind, raw.get(f.no));
+  return out;
+}
+
+/** Normalizes one field value of a legacy message from Amino JSON. */
+function jsonValue(kind: FieldKind, v: any): unknown {
+  if (Array.isArray(kind)) return (Array.isArray(v) ? v : []).map((x) => structFromJson(kind, x));
+  switch (kind) {
+    case 'coin':
+      return v ? { denom: String(v.denom ?? ''), amount: String(v.amount ?? '0') } : null;
+    case 'coins':
+      return (Array.isArray(v) ? v : []).map((c) => ({
+        denom: String(c?.denom ?? ''),
+        amount: String(c?.amount ?? '0'),
+      }));
+    case 'uint64':
+      return String(v ?? '0');
+    case 'voteOption':
+      return VOTE_OPTIONS_JSON[v] ?? (typeof v === 'number' ? VOTE_OPTIONS[v] : undefined) ?? String(v ?? '');
+    default:
+      return typeof v === 'string' ? v : '';
+  }
+}
+
+/** Normalizes a struct of a legacy message from Amino JSON. */
+function structFromJson(fields: FieldSpec[], value: any): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const f of fields) out[f.name] = jsonValue(f.kind, value?.[f.json ?? f.name]);
+  return out;
+}
+
+/**
+ * Decodes an Amino binary public key (an interface value) into the shape of a protobuf `Any` key.
+ */
+function pubKeyFromBinary(bytes: Uint8Array | undefined) {
+  if (!bytes) return undefined;
+  const { prefix, rest } = splitPrefix(bytes);
+  const typeUrl = PUBKEYS_BY_PREFIX.get(prefix);
+  if (typeUrl === '/cosmos.crypto.secp256k1.PubKey' || typeUrl === '/cosmos.crypto.ed25519.PubKey') {
+    const key = protobuf.Reader.create(rest).bytes();
+    return { '@type': typeUrl, key: Buffer.from(key).toString('base64') };
+  }
+  return { '@type': typeUrl ?? `amino/${prefix}`, value: Buffer.from(rest).toString('base64') };
+}
+
+/** Shape of a transaction, with the legacy Amino sign mode. */
+function txShape(
+  messages: any[],
+  memo: string,
+  fee: any,
+  sigs: Array<{ public_key: any; sequence: string; signature: string }>,
+) {
+  return {
+    '@type': '/cosmos.tx.v1beta1.Tx',
+    body: {
+      messages,
+      memo,
+      timeout_height: '0',
+      unordered: false,
+      timeout_timestamp: null,
+      extension_options: [],
+      non_critical_extension_options: [],
+    },
+    auth_info: {
+      signer_infos: sigs.map((s) => ({
+        public_key: s.public_key,
+        mode_info: { single: { mode: 'SIGN_MODE_LEGACY_AMINO_JSON' } },
+        sequence: s.sequence,
+      })),
+      fee: { ...fee, payer: '', granter: '' },
+      tip: null,
+    },
+    signatures: sigs.map((s) => s.signature),
+  };
+}
+
+/**
+ * Returns the bytes of an Amino binary `StdTx` without its optional length prefix, or undefined
+ * when the bytes are not a `StdTx`.
+ * @param bytes Raw transaction bytes.
+ */
+function stdTxFields(bytes: Uint8Array): Uint8Array | undefined {
+  let body = bytes;
+  try {
+    const r = protobuf.Reader.create(bytes);
+    const len = r.uint32();
+    if (len === bytes.length - r.pos) body = bytes.subarray(r.pos);
+  } catch {
+    /* not length-prefixed */
+  }
+  const { prefix, rest } = splitPrefix(body);
+  return body.length >= 4 && STD_TX_PREFIXES.has(prefix) ? rest : undefined;
+}
+
+/**
+ * Decodes an Amino binary `StdTx`. Unregistered messages are kept as base64 under an
+ * `amino/<PREFIX>` type.
+ * @param bytes Raw transaction bytes, with or without the length prefix.
+ * @returns The normalized transaction, or undefined when the bytes are not a `StdTx`.
+ */
+export function decodeAminoStdTx(bytes: Uint8Array) {
+  const body = stdTxFields(bytes);
+  if (!body) return undefined;
+  const f = readFields(body);
+
+  const messages = (f.get(1) ?? []).map((v) => {
+    const { prefix, rest } = splitPrefix(v as Uint8Array);
+    const spec = MSGS_BY_PREFIX.get(prefix);
+    if (!spec) return { '@type': `amino/${prefix}`, value_b64: Buffer.from(rest).toString('base64') };
+    return { '@type': spec.typeUrl, ...structFromBinary(spec.fields, rest) };
+  });
+
+  const feeRaw = f.get(2)?.[0];
+  const feeFields = feeRaw instanceof Uint8Array ? readFields(feeRaw) : new Map();
+  const fee = {
+    amount: (feeFields.get(1) ?? []).map((v: Uint8Array) => coinFromBinary(v)),
+    gas_limit: feeFields.get(2)?.[0] ?? '0',
+  };
+
+  // StdSignature: pub key (1), signature (2); account number (3) and sequence (4) in early SDKs.
+  const sigs = (f.get(3) ?? []).map((v) => {
+    const s = readFields(v as Uint8Array);
+    const sig = s.get(2)?.[0];
+    return {
+      public_key: pubKeyFromBinary(s.get(1)?.[0] as Uint8Array | undefined),
+      sequence: (s.get(4)?.[0] as string | undefined) ?? '0',
+      signature: sig instanceof Uint8Array ? Buffer.from(sig).toString('base64') : '',
+    };
+  });
+
+  return txShape(messages, text(f.get(4)?.[0]), fee, sigs);
+}
+
+/**
+ * Decodes an Amino JSON `StdTx` (`{"type":"cosmos-sdk/StdTx","value":{...}}`), as stored by
+ * chains that JSON-encoded transactions. Unregistered messages are kept as JSON under an
+ * `amino/<name>` type.
+ * @param bytes Raw transaction bytes.
+ * @returns The normalized transaction, or undefined when the bytes are not an Amino JSON `StdTx`.
+ */
+export function decodeAminoJsonStdTx(bytes: Uint8Array) {
+  if (bytes[0] !== 0x7b) return undefined; // '{'
+  let doc: any;
+  try {
+    doc = JSON.parse(Buffer.from(bytes).toString('utf8'));
+  } catch {
+    return undefined;
+  }
+  if (doc?.type !== 'cosmos-sdk/StdTx' && doc?.type !== 'auth/StdTx') return undefined;
+  const tx = doc.value ?? {};
+
+  const messages = (Array.isArray(tx.msg) ? tx.msg : []).map((m: any) => {
+    const spec = MSGS_BY_NAME.get(m?.type);
+    if (!spec) return { '@type': `amino/${m?.type ?? ''}`, value: m?.value ?? null };
+    return { '@type': spec.typeUrl, ...structFromJson(spec.fields, m.value) };
+  });
+  const fee = { amount: jsonValue('coins', tx.fee?.amount), gas_limit: String(tx.fee?.gas ?? '0') };
+  const sigs = (Array.isArray(tx.signatures) ? tx.signatures : []).map((s: any) => {
+    const pk = s?.pub_key;
+    const typeUrl = PUBKEY_TYPES[pk?.type];
+    const public_key = !pk
+      ? undefined
+      : typeof pk.value === 'string' && typeUrl !== '/cosmos.crypto.multisig.LegacyAminoPubKey'
+        ? { '@type': typeUrl ?? `amino/${pk.type}`, key: pk.value }
+        : { '@type': typeUrl ?? `amino/${pk.type}`, value: pk.value };
+    return { public_key, sequence: String(s?.sequence ?? '0'), signature: String(s?.signature ?? '') };
+  });
+
+  return txShape(messages, String(tx.memo ?? ''), fee, sigs);
+}
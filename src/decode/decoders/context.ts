@@ -1,7 +1,8 @@
 /**
  * @module context
  * This module manages the dynamic protobuf root for transaction decoding.
- * It provides helper functions to set, get, check readiness, and clear the root.
+ * It provides helper functions to set, get, check readiness, and clear the root,
+ * and holds the bech32 prefix used for legacy Amino addresses.
  */
 // src/decode/decoders/context.ts
 import { getLogger } from '../../utils/logger.ts';
@@ -10,6 +11,9 @@ const log = getLogger('decode/txWorker');
 
 let _root: any | undefined;
 let _ready = false;
+// Named roots of a proto manifest; `_root` points at the selected one.
+const _roots = new Map<string, any>();
+let _bech32Prefix = 'cosmos';
 
 /**
  * Returns a boolean indicating whether the dynamic protobuf root is loaded and ready for decoding.
@@ -41,5 +45,43 @@ export function setProtoRoot(root: any): void {
 export function clearProtoRoot(): void {
   _root = undefined;
   _ready = false;
+  _roots.clear();
   log.warn(`[txWorker] proto root cleared`);
 }
+
+/**
+ * Registers a named protobuf root; the first registered one becomes the current root.
+ * @param name - Root name from the proto manifest.
+ * @param root - The protobuf root object.
+ */
+export function addProtoRoot(name: string, root: any): void {
+  _roots.set(name, root);
+  if (_roots.size === 1) setProtoRoot(root);
+}
+
+/**
+ * Makes a named root the current one. Unknown names keep the current root.
+ * @param name - Root name from the proto manifest.
+ * @returns True when the root exists.
+ */
+export function selectProtoRoot(name: string): boolean {
+  const root = _roots.get(name);
+  if (!root) return false;
+  _root = root;
+  return true;
+}
+
+/**
+ * Returns the bech32 prefix of account addresses, used for legacy Amino transactions.
+ */
+export function getBech32Prefix(): string {
+  return _bech32Prefix;
+}
+
+/**
+ * Sets the bech32 prefix of account addresses; validator addresses use `<prefix>valoper`.
+ * @param prefix - Human-readable part, e.g. `cosmos`.
+ */
+export function setBech32Prefix(prefix: string): void {
+  _bech32Prefix = prefix;
+}
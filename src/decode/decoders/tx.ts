@@ -7,10 +7,12 @@ import Long from 'long';
 import { decodeTxRaw } from '@cosmjs/proto-signing';
 import { PubKey as PubKeySecp256k1 } from 'cosmjs-types/cosmos/crypto/secp256k1/keys.js';
 import { TxBody, AuthInfo, Tx } from 'cosmjs-types/cosmos/tx/v1beta1/tx.js';
+import { CosmosTx } from 'cosmjs-types/ibc/applications/interchain_accounts/v1/packet.js';
 import { decodeAnyWithRoot } from '../dynamicProto.ts';
 import { decodeKnown } from '../../generated/knownMsgs.ts';
 import { getLogger } from '../../utils/logger.ts';
 import { getProtoRoot, isProtoReady } from './context.ts';
+import { decodeAminoJsonStdTx, decodeAminoStdTx } from './amino.ts';
 
 const log = getLogger('decode/txWorker');
 
@@ -23,23 +25,100 @@ function coinsToSnake(cs?: Array<{ denom: string; amount: string }>) {
   return (cs ?? []).map((c) => ({ denom: c.denom, amount: c.amount }));
 }
 
+/** Nesting depth down to which `Any` values inside a message are decoded; deeper ones stay base64. */
+export const MAX_ANY_DEPTH = 5;
+
+const ICA_SEND_TX = '/ibc.applications.interchain_accounts.controller.v1.MsgSendTx';
+
 /**
- * Decodes a single protobuf `Any` message with fast-path and dynamic fallbacks.
+ * Returns the type URL and bytes of an undecoded `Any`: `{ typeUrl, value }` with raw bytes from
+ * the fast path, or with base64 from the dynamic one.
+ * @param v Any value of a decoded message.
+ * @returns The `Any`, or undefined when `v` is not one.
+ */
+function asAny(v: any): { typeUrl: string; value: Uint8Array } | undefined {
+  if (!v || typeof v !== 'object' || Array.isArray(v) || v instanceof Uint8Array) return undefined;
+  const typeUrl = v.typeUrl ?? v.type_url;
+  if (typeof typeUrl !== 'string' || Object.keys(v).length !== 2) return undefined;
+  if (v.value instanceof Uint8Array) return { typeUrl, value: v.value };
+  if (typeof v.value === 'string') return { typeUrl, value: Buffer.from(v.value, 'base64') };
+  return undefined;
+}
+
+/**
+ * Replaces every `Any` found in a decoded message with its decoded form, recursively.
+ * @param v The decoded message, or a value inside it.
+ * @param depth Nesting depth of the message `v` belongs to.
+ * @returns A copy of `v` with nested messages decoded.
+ */
+function resolveNestedAnys(v: any, depth: number): any {
+  const any = asAny(v);
+  if (any) {
+    const b64 = () => ({ '@type': any.typeUrl, value_b64: Buffer.from(any.value).toString('base64') });
+    if (depth + 1 > MAX_ANY_DEPTH) return b64();
+    try {
+      return decodeMessage(any.typeUrl, any.value, depth + 1);
+    } catch {
+      return b64();
+    }
+  }
+  if (Array.isArray(v)) return v.map((x) => resolveNestedAnys(x, depth));
+  if (v && typeof v === 'object' && !(v instanceof Uint8Array)) {
+    const out: Record<string, any> = {};
+    for (const [k, x] of Object.entries(v)) out[k] = resolveNestedAnys(x, depth);
+    return out;
+  }
+  return v;
+}
+
+/**
+ * Decodes the nested messages of a decoded message: its `Any` fields, and the `CosmosTx` carried as
+ * bytes in the packet data of an ICA `MsgSendTx`.
+ * @param typeUrl The type URL of the message.
+ * @param msg The decoded message.
+ * @param depth Nesting depth of the message.
+ * @returns The message with nested messages decoded.
+ */
+function withNestedMessages(typeUrl: string, msg: any, depth: number): any {
+  const out = resolveNestedAnys(msg, depth);
+  const packet = out.packetData ?? out.packet_data;
+  if (typeUrl === ICA_SEND_TX && packet?.data && depth + 1 <= MAX_ANY_DEPTH) {
+    try {
+      const bytes = packet.data instanceof Uint8Array ? packet.data : Buffer.from(String(packet.data), 'base64');
+      const tx = CosmosTx.decode(bytes);
+      packet.data = {
+        '@type': '/ibc.applications.interchain_accounts.v1.CosmosTx',
+        messages: resolveNestedAnys(tx.messages, depth),
+      };
+    } catch {
+      /* keep the raw packet data */
+    }
+  }
+  return out;
+}
+
+/**
+ * Decodes a single protobuf `Any` message with fast-path and dynamic fallbacks. Messages nested
+ * in it (authz `MsgExec.msgs`, gov and group proposal messages, gov v1beta1 `content`, ICA
+ * packet data, ...) are decoded too, down to {@link MAX_ANY_DEPTH}.
  * @param typeUrl The type URL of the message.
  * @param value The binary value of the message.
+ * @param depth Nesting depth of the message; 0 for a transaction body message.
  * @returns The decoded message object.
  */
-export function decodeMessage(typeUrl: string, value: Uint8Array): any {
+export function decodeMessage(typeUrl: string, value: Uint8Array, depth = 0): any {
   const fast = decodeKnown(typeUrl, value);
-  if (fast) return { '@type': typeUrl, ...fast };
+  if (fast) return withNestedMessages(typeUrl, { '@type': typeUrl, ...fast }, depth);
 
   if (isProtoReady()) {
+    let decoded: Record<string, unknown> | undefined;
     try {
       const root = getProtoRoot();
-      return decodeAnyWithRoot(typeUrl, value, root);
+      decoded = decodeAnyWithRoot(typeUrl, value, root);
     } catch {
       /* fall back to base64 */
     }
+    if (decoded) return withNestedMessages(typeUrl, decoded, depth);
   }
   return { '@type': typeUrl, value_b64: Buffer.from(value).toString('base64') };
 }
@@ -105,12 +184,21 @@ export function decodeAuthInfoToShape(authBytes: Uint8Array) {
 
 /**
  * Decodes a base64-encoded Cosmos SDK transaction into normalized JSON representation.
+ * Legacy Amino `StdTx` transactions (binary or JSON) are tried first, as their bytes may also
+ * parse as a protobuf `TxRaw`.
  * @param base64 The base64-encoded transaction string.
  * @returns The decoded transaction object including body, auth_info, and signatures.
  */
 export function decodeTxBase64(base64: string) {
   const txBytes = Buffer.from(base64, 'base64');
 
+  try {
+    const legacy = decodeAminoStdTx(txBytes) ?? decodeAminoJsonStdTx(txBytes);
+    if (legacy) return legacy;
+  } catch (e: any) {
+    log.warn(`[txWorker] cannot decode Amino StdTx: ${String(e?.message ?? e)}`);
+  }
+
   let bodyBytes: Uint8Array | undefined;
   let authInfoBytes: Uint8Array | undefined;
   let sigs: Uint8Array[] | undefined;
@@ -29,6 +29,28 @@ export function collectProtoFiles(dir: string): string[] {
   return out;
 }
 
+const IMPORT_RE = /^\s*import\s+(?:public\s+|weak\s+)?"([^"]+)"\s*;/gm;
+
+/**
+ * Lists the imports of `.proto` files that resolve to no file under the proto directory.
+ * Well-known `google/protobuf/*` types bundled with protobufjs count as resolved.
+ * @param protoDir - Directory the imports are resolved against.
+ * @param files - The `.proto` files to check.
+ * @returns `{ file, target }` pairs, with `file` relative to `protoDir`.
+ */
+export function findUnresolvedImports(protoDir: string, files: string[]): Array<{ file: string; target: string }> {
+  const out: Array<{ file: string; target: string }> = [];
+  for (const f of files) {
+    for (const m of fs.readFileSync(f, 'utf8').matchAll(IMPORT_RE)) {
+      const target = m[1]!;
+      if (protobuf.common.get(target)) continue;
+      if (fs.existsSync(path.isAbsolute(target) ? target : path.join(protoDir, target))) continue;
+      out.push({ file: path.relative(protoDir, f), target });
+    }
+  }
+  return out;
+}
+
 /**
  * Loads all `.proto` files from a directory into a protobuf Root, in batches,
  * and optionally reports progress via a callback.
@@ -36,6 +58,7 @@ export function collectProtoFiles(dir: string): string[] {
  * @param onProgress - Optional callback receiving (loaded, total) after each batch.
  * @param batchSize - Number of files to load per batch (default 200).
  * @returns Promise resolving to the loaded protobuf.Root.
+ * @throws {Error} Listing every unresolved import, or naming the type that does not resolve.
  */
 export async function loadProtoRootWithProgress(
   protoDir: string,
@@ -45,6 +68,12 @@ export async function loadProtoRootWithProgress(
   const files = collectProtoFiles(protoDir);
   if (files.length === 0) throw new Error(`No .proto files found in ${protoDir}`);
 
+  const unresolved = findUnresolvedImports(protoDir, files);
+  if (unresolved.length > 0) {
+    const lines = unresolved.map((u) => `  ${u.file}: import "${u.target}"`);
+    throw new Error(`${unresolved.length} unresolved import(s) in ${protoDir}:\n${lines.join('\n')}`);
+  }
+
   const root = new protobuf.Root({ keepCase: true });
 
   root.resolvePath = (_origin, target) => {
@@ -52,6 +81,11 @@ export async function loadProtoRootWithProgress(
     return path.join(protoDir, target);
   };
 
+  // root.load resolves the whole root after every batch and throws from an I/O callback, where
+  // the error cannot be caught; resolution is done once, below, instead.
+  const resolveAll = root.resolveAll;
+  root.resolveAll = () => root;
+
   let loaded = 0;
   const total = files.length;
 
@@ -64,7 +98,12 @@ export async function loadProtoRootWithProgress(
     onProgress?.(Math.min(loaded, total), total);
   }
 
-  root.resolveAll();
+  root.resolveAll = resolveAll;
+  try {
+    root.resolveAll();
+  } catch (e: any) {
+    throw new Error(`cannot resolve proto definitions in ${protoDir}: ${String(e?.message ?? e)}`);
+  }
   log.debug('Loaded proto root', { totalFiles: total });
   return root;
 }
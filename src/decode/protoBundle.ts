@@ -0,0 +1,152 @@
+/**
+ * @module protoBundle
+ * @description
+ * Precompiled proto descriptor bundles. `scripts/build-proto-bundle.ts` parses a proto directory
+ * once and writes its resolved definitions as JSON, named after a hash of the directory's
+ * contents. Workers load the bundle of their proto directory when it exists and fall back to
+ * parsing the `.proto` files when it does not (for instance after the files changed).
+ */
+// src/decode/protoBundle.ts
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import protobuf from 'protobufjs';
+import { getLogger } from '../utils/logger.ts';
+import { collectProtoFiles, loadProtoRootWithProgress } from './dynamicProto.ts';
+
+const log = getLogger('decode/protoBundle');
+
+/** Format version of the bundle files; bundles of another version are ignored. */
+export const PROTO_BUNDLE_VERSION = 1;
+
+/**
+ * Contents of a bundle file.
+ * @property {number} version - {@link PROTO_BUNDLE_VERSION}.
+ * @property {string} hash - Content hash of the proto directory, see {@link hashProtoTree}.
+ * @property {number} files - Number of `.proto` files compiled.
+ * @property {protobuf.INamespace} root - Resolved definitions (`Root#toJSON`).
+ */
+export type ProtoBundle = {
+  version: number;
+  hash: string;
+  files: number;
+  root: protobuf.INamespace;
+};
+
+/**
+ * Hashes a proto directory: the relative path and contents of every `.proto` file, in path order.
+ *
+ * @param {string} protoDir - Directory containing `.proto` files.
+ * @returns {string} Hex SHA-256 of the tree.
+ */
+export function hashProtoTree(protoDir: string): string {
+  const h = crypto.createHash('sha256');
+  const files = collectProtoFiles(protoDir)
+    .map((f) => path.relative(protoDir, f).split(path.sep).join('/'))
+    .sort();
+  for (const rel of files) {
+    h.update(rel);
+    h.update('\0');
+    h.update(fs.readFileSync(path.join(protoDir, rel)));
+    h.update('\0');
+  }
+  return h.digest('hex');
+}
+
+/**
+ * Returns the path of the bundle for a content hash.
+ *
+ * @param {string} bundleDir - Directory holding the bundles.
+ * @param {string} hash - Content hash of the proto directory.
+ * @returns {string} File path.
+ */
+export function protoBundlePath(bundleDir: string, hash: string): string {
+  return path.join(bundleDir, `${hash}.json`);
+}
+
+/**
+ * Parses a proto directory and writes its bundle. An existing bundle for the same contents is
+ * left as is.
+ *
+ * @param {string} protoDir - Directory containing `.proto` files.
+ * @param {string} bundleDir - Directory to write the bundle to; created when missing.
+ * @returns {Promise<{ file: string; hash: string; files: number; written: boolean }>} Bundle location and size.
+ * @throws {Error} When the proto files cannot be parsed or resolved.
+ */
+export async function buildProtoBundle(
+  protoDir: string,
+  bundleDir: string,
+): Promise<{ file: string; hash: string; files: number; written: boolean }> {
+  const hash = hashProtoTree(protoDir);
+  const file = protoBundlePath(bundleDir, hash);
+  const files = collectProtoFiles(protoDir).length;
+  if (fs.existsSync(file)) return { file, hash, files, written: false };
+
+  const root = await loadProtoRootWithProgress(protoDir);
+  const bundle: ProtoBundle = { version: PROTO_BUNDLE_VERSION, hash, files, root: root.toJSON() };
+  fs.mkdirSync(bundleDir, { recursive: true });
+  // Write then rename, so a worker never reads a partial bundle.
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(bundle));
+  fs.renameSync(tmp, file);
+  return { file, hash, files, written: true };
+}
+
+/**
+ * Loads the bundle of a proto directory.
+ *
+ * @param {string} protoDir - Directory containing `.proto` files.
+ * @param {string} bundleDir - Directory holding the bundles.
+ * @returns {{ root: protobuf.Root; files: number } | undefined} The root, or undefined when there
+ *   is no bundle for the current contents of the directory.
+ * @throws {Error} When the bundle exists but is unreadable or does not resolve.
+ */
+export function loadProtoBundle(
+  protoDir: string,
+  bundleDir: string,
+): { root: protobuf.Root; files: number } | undefined {
+  const hash = hashProtoTree(protoDir);
+  const file = protoBundlePath(bundleDir, hash);
+  if (!fs.existsSync(file)) return undefined;
+
+  const bundle = JSON.parse(fs.readFileSync(file, 'utf8')) as ProtoBundle;
+  if (bundle.version !== PROTO_BUNDLE_VERSION || bundle.hash !== hash) return undefined;
+  const root = protobuf.Root.fromJSON(bundle.root);
+  try {
+    root.resolveAll();
+  } catch (e: any) {
+    throw new Error(`${file}: ${String(e?.message ?? e)}`);
+  }
+  return { root, files: bundle.files };
+}
+
+/**
+ * Loads a proto root from its bundle when one matches the directory, otherwise by parsing the
+ * `.proto` files. A bundle that fails to load is logged and parsing is used instead.
+ *
+ * @param {string} protoDir - Directory containing `.proto` files.
+ * @param {string} [bundleDir] - Directory holding the bundles; parsing only when omitted.
+ * @param {Function} [onProgress] - Receives `(loaded, total)` file counts.
+ * @returns {Promise<protobuf.Root>} The resolved root.
+ * @throws {Error} When parsing fails, e.g. on unresolved imports.
+ */
+export async function loadProtoRootPreferBundle(
+  protoDir: string,
+  bundleDir?: string,
+  onProgress?: (loaded: number, total: number) => void,
+): Promise<protobuf.Root> {
+  if (bundleDir) {
+    try {
+      const hit = loadProtoBundle(protoDir, bundleDir);
+      if (hit) {
+        onProgress?.(hit.files, hit.files);
+        log.debug('Loaded proto bundle', { protoDir, files: hit.files });
+        return hit.root;
+      }
+      log.info(`[proto] no bundle for ${protoDir} in ${bundleDir}, parsing .proto files`);
+    } catch (e: any) {
+      log.warn(`[proto] cannot load bundle for ${protoDir}, parsing .proto files: ${String(e?.message ?? e)}`);
+    }
+  }
+  return loadProtoRootWithProgress(protoDir, onProgress, 200);
+}
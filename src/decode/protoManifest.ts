@@ -0,0 +1,135 @@
+/**
+ * @module protoManifest
+ * @description
+ * Height-aware proto roots for chains whose message definitions changed across upgrades.
+ * A manifest lists proto directories in chain order; each one after the first starts at a fixed
+ * height (`from`) or at the height of a named software upgrade (`upgrade`), which is learned from
+ * `core.chain_upgrades` or from `upgrade` events while indexing.
+ */
+// src/decode/protoManifest.ts
+import fs from 'node:fs';
+import path from 'node:path';
+import { normalizeEvents } from '../normalize/events/normalize.ts';
+
+/**
+ * A proto root of the manifest.
+ * @property {string} name - Unique name, used in logs and to select the root in the workers.
+ * @property {string} protoDir - Directory of `.proto` files, relative to the manifest file.
+ * @property {number} [from] - First height decoded with this root.
+ * @property {string} [upgrade] - Software upgrade whose height starts this root (when `from` is not set).
+ */
+export type ProtoRootSpec = {
+  name: string;
+  protoDir: string;
+  from?: number;
+  upgrade?: string;
+};
+
+/**
+ * Contents of a proto manifest file: roots in chain order.
+ */
+export type ProtoManifest = {
+  roots: ProtoRootSpec[];
+};
+
+/**
+ * The root in use from a given height on.
+ * @property {number} from - First height.
+ * @property {string} name - Root name.
+ */
+export type RootSwitch = { from: number; name: string };
+
+/**
+ * Reads and validates a manifest file. Proto directories are resolved against the file's directory.
+ *
+ * @param {string} file - Path of the JSON manifest.
+ * @returns {ProtoManifest} The manifest with absolute proto directories.
+ * @throws {Error} When the file is malformed.
+ */
+export function loadProtoManifest(file: string): ProtoManifest {
+  const raw = JSON.parse(fs.readFileSync(file, 'utf8'));
+  const roots: any[] = Array.isArray(raw?.roots) ? raw.roots : [];
+  if (roots.length === 0) throw new Error(`${file}: "roots" must be a non-empty array`);
+
+  const names = new Set<string>();
+  const out: ProtoRootSpec[] = roots.map((r, i) => {
+    if (typeof r?.name !== 'string' || !r.name) throw new Error(`${file}: roots[${i}] needs a name`);
+    if (names.has(r.name)) throw new Error(`${file}: duplicate root name "${r.name}"`);
+    names.add(r.name);
+    if (typeof r.protoDir !== 'string' || !r.protoDir) throw new Error(`${file}: root "${r.name}" needs a protoDir`);
+    if (r.from !== undefined && !(Number.isSafeInteger(r.from) && r.from >= 0)) {
+      throw new Error(`${file}: root "${r.name}" has an invalid "from"`);
+    }
+    if (i > 0 && r.from === undefined && typeof r.upgrade !== 'string') {
+      throw new Error(`${file}: root "${r.name}" needs "from" or "upgrade"`);
+    }
+    return {
+      name: r.name,
+      protoDir: path.resolve(path.dirname(file), r.protoDir),
+      from: r.from,
+      upgrade: typeof r.upgrade === 'string' ? r.upgrade : undefined,
+    };
+  });
+  return { roots: out };
+}
+
+/**
+ * Computes the start height of every root whose start is known. The first root starts at 0;
+ * a root with an upgrade that has not happened (or is not known yet) is left out, so its heights
+ * stay on the root before it.
+ *
+ * @param {ProtoManifest} manifest - The manifest.
+ * @param {Map<string, number>} upgrades - Known upgrade heights by name.
+ * @returns {RootSwitch[]} Switches ordered by height.
+ * @throws {Error} When the known start heights are not increasing in manifest order.
+ */
+export function resolveRootSwitches(manifest: ProtoManifest, upgrades: Map<string, number>): RootSwitch[] {
+  const out: RootSwitch[] = [];
+  manifest.roots.forEach((r, i) => {
+    const from = i === 0 ? 0 : (r.from ?? (r.upgrade ? upgrades.get(r.upgrade) : undefined));
+    if (from === undefined) return;
+    const prev = out[out.length - 1];
+    if (prev && from <= prev.from) {
+      throw new Error(`proto root "${r.name}" starts at ${from}, not after "${prev.name}" (${prev.from})`);
+    }
+    out.push({ from, name: r.name });
+  });
+  return out;
+}
+
+/**
+ * Returns the root in use at a height.
+ *
+ * @param {RootSwitch[]} switches - Switches ordered by height.
+ * @param {number} height - Block height.
+ * @returns {string | undefined} Root name, or undefined when there is no switch.
+ */
+export function rootAtHeight(switches: RootSwitch[], height: number): string | undefined {
+  let name: string | undefined;
+  for (const s of switches) {
+    if (s.from > height) break;
+    name = s.name;
+  }
+  return name;
+}
+
+/**
+ * Returns the names of the software upgrades applied in a block, from the `upgrade` events of
+ * its `block_results` (begin-block events before CometBFT 0.38, finalize-block events after).
+ *
+ * @param {any} blockResults - Raw `block_results` response.
+ * @returns {string[]} Upgrade names.
+ */
+export function findUpgradeNames(blockResults: any): string[] {
+  const events = normalizeEvents([
+    ...(blockResults?.begin_block_events ?? []),
+    ...(blockResults?.finalize_block_events ?? []),
+  ]);
+  const out: string[] = [];
+  for (const e of events) {
+    if (e.type !== 'upgrade') continue;
+    const name = e.attributes.find((a) => a.key === 'name')?.value;
+    if (name) out.push(name);
+  }
+  return out;
+}
@@ -9,51 +9,283 @@
 // src/decode/txPool.ts
 import { Worker } from 'node:worker_threads';
 import { getLogger } from '../utils/logger.js';
+import { ProtoManifest, resolveRootSwitches, rootAtHeight, RootSwitch } from './protoManifest.ts';
 
 type ProgressMsg = { type: 'progress'; loaded: number; total: number };
 type ReadyMsg = { type: 'ready'; ok: boolean; detail?: string };
 type OkMsg = { id: number; ok: true; decoded: any };
+type BlockOkMsg = { id: number; ok: true; txs: any[]; text: Uint8Array; offsets: Uint32Array };
 type ErrMsg = { id: number; ok: false; error: string };
 
-type AnyOut = ProgressMsg | ReadyMsg | OkMsg | ErrMsg;
+type AnyOut = ProgressMsg | ReadyMsg | OkMsg | BlockOkMsg | ErrMsg;
+
+/**
+ * Transactions of a block decoded by {@link TxDecodePool.submitBlock}, parallel to the block's `txs`.
+ * @property {any[]} decoded - Decoded transactions.
+ * @property {string[]} hashes - Uppercase hex SHA-256 hashes of the raw transactions.
+ * @property {string[]} hex - Uppercase hex of the raw transactions.
+ */
+export type DecodedBlock = {
+  decoded: any[];
+  hashes: string[];
+  hex: string[];
+};
 
 /**
  * Represents a pool of worker threads for decoding transactions.
  * @typedef {Object} TxDecodePool
- * @property {(txBase64: string) => Promise<any>} submit - Submit a base64-encoded transaction for decoding.
+ * @property {(txBase64: string, height?: number) => Promise<any>} submit - Submit a base64-encoded transaction for decoding.
  *   @param {string} txBase64 - The base64-encoded transaction to decode.
+ *   @param {number} [height] - Height of the transaction; selects the proto root of a manifest.
  *   @returns {Promise<any>} - A promise that resolves with the decoded transaction, or rejects on error.
+ * @property {(height: number, txsBase64: string[]) => Promise<DecodedBlock>} submitBlock - Decode every transaction
+ *   of a block in one worker round trip, with hashes and hex computed by the worker.
+ * @property {(height: number) => string | undefined} rootFor - Name of the manifest root used at a height.
+ * @property {(height: number, names: string[]) => boolean} noteUpgrades - Records software upgrades applied at a
+ *   height; returns true when a root now starts there.
+ * @property {() => TxPoolMetrics} metrics - Snapshot of queue depth, restarts and per-worker latency.
+ * @property {() => string} describe - One-line summary of the metrics, for progress logs.
  * @property {() => Promise<void>} close - Gracefully shuts down all worker threads in the pool.
  *   @returns {Promise<void>} - A promise that resolves when all workers have terminated.
  */
 export type TxDecodePool = {
-  submit: (txBase64: string) => Promise<any>;
+  submit: (txBase64: string, height?: number) => Promise<any>;
+  submitBlock: (height: number, txsBase64: string[]) => Promise<DecodedBlock>;
+  rootFor: (height: number) => string | undefined;
+  noteUpgrades: (height: number, names: string[]) => boolean;
+  metrics: () => TxPoolMetrics;
+  describe: () => string;
   close: () => Promise<void>;
 };
 
+/**
+ * Metrics of one worker.
+ * @property {number} index - Worker slot.
+ * @property {boolean} ready - Whether the worker finished loading its proto roots.
+ * @property {boolean} busy - Whether a job is in flight on the worker.
+ * @property {number} jobs - Jobs completed by the slot (across restarts).
+ * @property {number} restarts - Times the slot's worker was respawned.
+ * @property {number} avgMs - Moving average of the decode latency, in milliseconds.
+ */
+export type TxWorkerMetrics = {
+  index: number;
+  ready: boolean;
+  busy: boolean;
+  jobs: number;
+  restarts: number;
+  avgMs: number;
+};
+
+/**
+ * Metrics of the pool.
+ * @property {number} queueDepth - Jobs waiting for a worker.
+ * @property {number} inFlight - Jobs sent to a worker and not answered yet.
+ * @property {number} restarts - Workers respawned since the pool was created.
+ * @property {TxWorkerMetrics[]} workers - Per-worker metrics.
+ */
+export type TxPoolMetrics = {
+  queueDepth: number;
+  inFlight: number;
+  restarts: number;
+  workers: TxWorkerMetrics[];
+};
+
 const INIT_TIMEOUT_MS = 30000;
+/** Default deadline of a job on a worker; a worker still busy after it is terminated and respawned. */
+const JOB_TIMEOUT_MS = 60_000;
+/**
+ * A job whose worker crashed or ran past the deadline this many times is rejected instead of requeued
+ * (e.g. a block that crashes or hangs the decoder).
+ */
+const MAX_JOB_CRASHES = 2;
+/** First respawn delay of a crashed worker; doubled per consecutive crash, up to {@link MAX_RESPAWN_DELAY_MS}. */
+const BASE_RESPAWN_DELAY_MS = 250;
+const MAX_RESPAWN_DELAY_MS = 30_000;
+/** Smoothing factor of the per-worker latency moving average. */
+const LATENCY_ALPHA = 0.1;
 const log = getLogger('decode/txPool');
 
+/**
+ * A decode request waiting in the queue or in flight on a worker. `msg` is the worker message
+ * without its id; the job resolves with the worker's answer.
+ */
+type Job = {
+  id: number;
+  msg:
+    | { type: 'decode'; txBase64: string; root?: string }
+    | { type: 'decodeBlock'; txsBase64: string[]; root?: string };
+  resolve: (v: any) => void;
+  reject: (e: any) => void;
+  crashes: number;
+  sentAt: number;
+};
+
+/**
+ * A worker slot. The slot outlives its worker: a crashed worker is replaced in the same slot.
+ */
+type Slot = {
+  index: number;
+  worker?: Worker;
+  ready: boolean;
+  job?: Job;
+  jobs: number;
+  restarts: number;
+  // Crashes since the last job completed; drives the respawn backoff.
+  crashStreak: number;
+  avgMs: number;
+  progress?: { loaded: number; total: number };
+  initTimer?: NodeJS.Timeout;
+  jobTimer?: NodeJS.Timeout;
+};
+
 /**
  * Creates a pool of worker threads for parallel transaction decoding.
  *
+ * Jobs wait in a FIFO queue and are sent to idle workers one at a time per worker. A worker that
+ * exits or crashes is respawned with a growing delay and initialised again with the same proto
+ * roots; only the job it was running is requeued, at the head of the queue. A worker that runs a
+ * job past `jobTimeoutMs` is terminated and handled the same way. A job whose worker crashed or
+ * timed out {@link MAX_JOB_CRASHES} times is rejected.
+ *
  * @param {number} size - The number of worker threads to spawn in the pool.
  * @param {Object} [opts] - Optional settings.
  * @param {string} [opts.protoDir] - Directory containing protobuf definitions for the workers.
+ * @param {ProtoManifest} [opts.manifest] - Height-aware proto roots; every worker loads all of them,
+ *   and each transaction is decoded with the root of its height. Replaces `protoDir`.
+ * @param {Map<string, number>} [opts.upgrades] - Known upgrade heights by name, for manifest roots started by an upgrade.
+ * @param {Function} [opts.onUpgrade] - Called with `(name, height)` when a manifest upgrade is first seen.
+ * @param {string} [opts.bundleDir] - Directory of precompiled proto bundles; workers parse the `.proto`
+ *   files of a directory that has no matching bundle.
+ * @param {string} [opts.bech32Prefix] - Bech32 prefix of addresses in legacy Amino transactions.
+ * @param {number} [opts.jobTimeoutMs=60000] - Deadline of a job once sent to a worker.
  * @returns {TxDecodePool} An object with `submit` and `close` methods for interacting with the pool.
  */
-export function createTxDecodePool(size: number, opts?: { protoDir?: string }): TxDecodePool {
-  const workers: Worker[] = [];
-  const idle: number[] = [];
-  const pending = new Map<number, { resolve: (v: any) => void; reject: (e: any) => void }>();
-  const readyFlags: boolean[] = Array(size).fill(false);
-  const readyResolvers: Array<() => void> = [];
-  const readyPromises: Array<Promise<void>> = [];
-  const perWorkerProgress: Record<number, { loaded: number; total: number }> = {};
+export function createTxDecodePool(
+  size: number,
+  opts?: {
+    protoDir?: string;
+    manifest?: ProtoManifest;
+    upgrades?: Map<string, number>;
+    onUpgrade?: (name: string, height: number) => void;
+    bundleDir?: string;
+    bech32Prefix?: string;
+    jobTimeoutMs?: number;
+  },
+): TxDecodePool {
+  const jobTimeoutMs = opts?.jobTimeoutMs ?? JOB_TIMEOUT_MS;
+  const slots: Slot[] = [];
+  const queue: Job[] = [];
+  let nextId = 1;
+  let restarts = 0;
+  let closing = false;
 
-  log.info(`[txPool] creating ${size} worker(s)`);
+  const manifest = opts?.manifest;
+  const upgrades = new Map(opts?.upgrades ?? []);
+  let switches: RootSwitch[] = manifest ? resolveRootSwitches(manifest, upgrades) : [];
+  const manifestUpgrades = new Set((manifest?.roots ?? []).flatMap((r) => (r.upgrade ? [r.upgrade] : [])));
+  if (manifest) {
+    log.info(`[txPool] proto roots: ${switches.map((s) => `${s.name}@${s.from}`).join(', ')}`);
+  }
+  // Sent to every worker, including respawned ones.
+  const initMsg = {
+    type: 'init',
+    protoDir: opts?.protoDir,
+    roots: manifest?.roots.map((r) => ({ name: r.name, protoDir: r.protoDir })),
+    bundleDir: opts?.bundleDir,
+    bech32Prefix: opts?.bech32Prefix,
+  };
 
-  for (let i = 0; i < size; i++) {
+  function logLoadProgress() {
+    const totals = slots.flatMap((s) => (s.progress ? [s.progress] : []));
+    if (totals.length === 0) return;
+    const sumLoaded = totals.reduce((a, b) => a + b.loaded, 0);
+    const sumTotal = totals.reduce((a, b) => a + b.total, 0);
+    const pct = sumTotal > 0 ? Math.floor((sumLoaded / sumTotal) * 100) : 0;
+    log.debug(`[proto] loading: ${sumLoaded}/${sumTotal} (${pct}%)`);
+  }
+
+  function markReady(slot: Slot, ok: boolean, detail?: string) {
+    if (slot.ready) return;
+    clearTimeout(slot.initTimer);
+    slot.ready = true;
+    if (ok) log.info(`[txPool] worker #${slot.index} ready`);
+    else log.warn(`[txPool] worker #${slot.index} init not-ok: ${detail ?? ''}`);
+    dispatch();
+  }
+
+  /**
+   * Sends queued jobs to idle, ready workers in FIFO order.
+   */
+  function dispatch() {
+    for (const slot of slots) {
+      if (queue.length === 0) return;
+      if (!slot.worker || !slot.ready || slot.job) continue;
+      const job = queue.shift()!;
+      slot.job = job;
+      job.sentAt = Date.now();
+      const w = slot.worker;
+      slot.jobTimer = setTimeout(() => {
+        if (slot.worker !== w || slot.job !== job) return;
+        log.error(`[txPool] worker #${slot.index} still busy after ${jobTimeoutMs}ms, terminating it`);
+        // The job is requeued or rejected when the worker exits.
+        void w.terminate();
+      }, jobTimeoutMs);
+      w.postMessage({ ...job.msg, id: job.id });
+    }
+  }
+
+  function onResult(slot: Slot, m: OkMsg | BlockOkMsg | ErrMsg) {
+    const job = slot.job;
+    if (!job || job.id !== m.id) return;
+    clearTimeout(slot.jobTimer);
+    slot.job = undefined;
+    slot.jobs++;
+    slot.crashStreak = 0;
+    const ms = Date.now() - job.sentAt;
+    slot.avgMs = slot.jobs === 1 ? ms : slot.avgMs * (1 - LATENCY_ALPHA) + ms * LATENCY_ALPHA;
+    if (m.ok) job.resolve(m);
+    else job.reject(new Error(m.error));
+    dispatch();
+  }
+
+  /**
+   * Handles the exit of a slot's worker: requeues or rejects its job and schedules a respawn.
+   */
+  function onExit(slot: Slot, w: Worker, code: number) {
+    if (slot.worker !== w) return;
+    clearTimeout(slot.initTimer);
+    clearTimeout(slot.jobTimer);
+    slot.worker = undefined;
+    slot.ready = false;
+    const job = slot.job;
+    slot.job = undefined;
+    if (closing) {
+      job?.reject(new Error('decode pool closed'));
+      return;
+    }
+
+    log.warn(`[txPool] worker #${slot.index} exited with code ${code}`);
+    if (job) {
+      job.crashes++;
+      if (job.crashes >= MAX_JOB_CRASHES) {
+        job.reject(new Error(`decode worker crashed or timed out ${job.crashes} times on this job`));
+      } else {
+        queue.unshift(job);
+      }
+    }
+    slot.crashStreak++;
+    const delay = Math.min(MAX_RESPAWN_DELAY_MS, BASE_RESPAWN_DELAY_MS * 2 ** (slot.crashStreak - 1));
+    log.warn(`[txPool] respawning worker #${slot.index} in ${delay}ms`);
+    setTimeout(() => {
+      if (closing) return;
+      slot.restarts++;
+      restarts++;
+      spawn(slot);
+    }, delay);
+    dispatch();
+  }
+
+  function spawn(slot: Slot) {
     const w = new Worker(new URL('./txWorker.ts', import.meta.url), {
       execArgv: ['--import', 'tsx/esm'],
       stdout: true,
@@ -64,108 +296,121 @@ export function createTxDecodePool(size: number, opts?: { protoDir?: string }):
     // @ts-ignore
     w.stderr?.pipe(process.stderr);
 
-    workers.push(w);
-
-    let resolveReady!: () => void;
-    let rejectReady!: (e?: any) => void;
-    const p = new Promise<void>((resolve, reject) => ((resolveReady = resolve), (rejectReady = reject)));
-    readyPromises.push(p);
-    readyResolvers.push(resolveReady);
-
-    const timer = setTimeout(() => {
-      if (!readyFlags[i]) {
-        log.error(`[txPool] worker #${i} init timeout after ${INIT_TIMEOUT_MS}ms`);
-        readyFlags[i] = true;
-        idle.push(i);
-        resolveReady();
-      }
+    slot.worker = w;
+    slot.ready = false;
+    slot.progress = undefined;
+    slot.initTimer = setTimeout(() => {
+      if (slot.worker !== w || slot.ready) return;
+      log.error(`[txPool] worker #${slot.index} init timeout after ${INIT_TIMEOUT_MS}ms`);
+      markReady(slot, false, 'init timeout');
     }, INIT_TIMEOUT_MS);
 
-    w.on('online', () => log.info(`[txPool] worker #${i} online`));
+    w.on('online', () => log.info(`[txPool] worker #${slot.index} online`));
 
     w.on('message', (m: AnyOut | any) => {
+      if (slot.worker !== w) return;
       if (m?.type === 'progress') {
         const { loaded, total } = m as ProgressMsg;
-        perWorkerProgress[i] = { loaded, total };
-        const totals = Object.values(perWorkerProgress);
-        if (totals.length > 0) {
-          const sumLoaded = totals.reduce((a, b) => a + b.loaded, 0);
-          const sumTotal = totals.reduce((a, b) => a + b.total, 0);
-          const pct = sumTotal > 0 ? Math.floor((sumLoaded / sumTotal) * 100) : 0;
-          log.debug(`[proto] loading: ${sumLoaded}/${sumTotal} (${pct}%)`);
-        }
+        slot.progress = { loaded, total };
+        logLoadProgress();
         return;
       }
-
       if (m?.type === 'ready') {
-        if (!readyFlags[i]) {
-          readyFlags[i] = true;
-          clearTimeout(timer);
-          if ((m as ReadyMsg).ok !== false) {
-            log.info(`[txPool] worker #${i} ready`);
-          } else {
-            log.warn(`[txPool] worker #${i} init not-ok: ${(m as ReadyMsg).detail ?? ''}`);
-          }
-          idle.push(i);
-          resolveReady();
-        }
-        return;
-      }
-
-      if (typeof (m as OkMsg | ErrMsg)?.id === 'number') {
-        const entry = pending.get((m as OkMsg | ErrMsg).id);
-        if (!entry) return;
-        pending.delete((m as OkMsg | ErrMsg).id);
-        idle.push(i);
-        if ((m as OkMsg).ok) entry.resolve((m as OkMsg).decoded);
-        else entry.reject(new Error((m as ErrMsg).error));
+        markReady(slot, (m as ReadyMsg).ok !== false, (m as ReadyMsg).detail);
         return;
       }
+      if (typeof (m as OkMsg | ErrMsg)?.id === 'number') onResult(slot, m as OkMsg | BlockOkMsg | ErrMsg);
     });
 
-    w.on('error', (e) => {
-      log.error(`[txPool] worker #${i} error: ${e?.message ?? e}`);
-      if (!readyFlags[i]) {
-        clearTimeout(timer);
-        readyFlags[i] = true;
-        idle.push(i);
-        resolveReady();
-      }
-      for (const [id, p] of pending) {
-        p.reject(e);
-        pending.delete(id);
-      }
-    });
+    // An error ends the worker; the job is handled on 'exit', which always follows.
+    w.on('error', (e) => log.error(`[txPool] worker #${slot.index} error: ${e?.message ?? e}`));
+    w.on('exit', (code) => onExit(slot, w, code));
 
-    w.on('exit', (code) => {
-      log.warn(`[txPool] worker #${i} exited with code ${code}`);
-    });
+    w.postMessage(initMsg);
+  }
 
-    w.postMessage({ type: 'init', protoDir: opts?.protoDir });
+  log.info(`[txPool] creating ${size} worker(s)`);
+  for (let i = 0; i < size; i++) {
+    const slot: Slot = { index: i, ready: false, jobs: 0, restarts: 0, crashStreak: 0, avgMs: 0 };
+    slots.push(slot);
+    spawn(slot);
   }
 
-  async function waitAllReady() {
-    await Promise.all(readyPromises);
+  function rootFor(height: number): string | undefined {
+    return rootAtHeight(switches, height);
   }
 
-  async function submit(txBase64: string): Promise<any> {
-    await waitAllReady();
-    while (idle.length === 0) await new Promise((r) => setTimeout(r, 0));
-    const wid = idle.shift()!;
-    const w = workers[wid];
+  function noteUpgrades(height: number, names: string[]): boolean {
+    let changed = false;
+    for (const name of names) {
+      if (!manifestUpgrades.has(name) || upgrades.has(name)) continue;
+      // Resolved before it is kept, so a height that contradicts the manifest fails every time.
+      switches = resolveRootSwitches(manifest!, new Map([...upgrades, [name, height]]));
+      upgrades.set(name, height);
+      changed = true;
+      log.info(`[txPool] upgrade "${name}" applied at ${height} → proto root ${rootFor(height)} from there on`);
+      opts?.onUpgrade?.(name, height);
+    }
+    return changed;
+  }
 
-    const id = (Math.random() * 2 ** 31) | 0;
-    const prom = new Promise<any>((resolve, reject) => {
-      pending.set(id, { resolve, reject });
+  function enqueue(msg: Job['msg']): Promise<any> {
+    if (closing) return Promise.reject(new Error('decode pool closed'));
+    return new Promise<any>((resolve, reject) => {
+      queue.push({ id: nextId++, msg, resolve, reject, crashes: 0, sentAt: 0 });
+      dispatch();
     });
+  }
+
+  async function submit(txBase64: string, height?: number): Promise<any> {
+    const root = manifest && height !== undefined ? rootFor(height) : undefined;
+    const m: OkMsg = await enqueue({ type: 'decode', txBase64, root });
+    return m.decoded;
+  }
+
+  async function submitBlock(height: number, txsBase64: string[]): Promise<DecodedBlock> {
+    if (txsBase64.length === 0) return { decoded: [], hashes: [], hex: [] };
+    const root = manifest ? rootFor(height) : undefined;
+    const m: BlockOkMsg = await enqueue({ type: 'decodeBlock', txsBase64, root });
+    const text = Buffer.from(m.text.buffer, m.text.byteOffset, m.text.byteLength);
+    const hashes: string[] = [];
+    const hex: string[] = [];
+    for (let i = 0; i < txsBase64.length; i++) {
+      const at = m.offsets[i]!;
+      hashes.push(text.toString('latin1', at, at + 64));
+      hex.push(text.toString('latin1', at + 64, m.offsets[i + 1]));
+    }
+    return { decoded: m.txs, hashes, hex };
+  }
+
+  function metrics(): TxPoolMetrics {
+    return {
+      queueDepth: queue.length,
+      inFlight: slots.filter((s) => s.job).length,
+      restarts,
+      workers: slots.map((s) => ({
+        index: s.index,
+        ready: s.ready,
+        busy: s.job !== undefined,
+        jobs: s.jobs,
+        restarts: s.restarts,
+        avgMs: Math.round(s.avgMs * 10) / 10,
+      })),
+    };
+  }
 
-    w?.postMessage({ type: 'decode', id, txBase64 });
-    return prom;
+  function describe(): string {
+    const m = metrics();
+    const ready = m.workers.filter((w) => w.ready).length;
+    const latencies = m.workers.map((w) => `${w.avgMs.toFixed(1)}`).join('/');
+    return `q=${m.queueDepth} busy=${m.inFlight}/${slots.length} ready=${ready} restarts=${m.restarts} ms=${latencies}`;
   }
 
   async function close() {
-    await Promise.all(workers.map((w) => w.terminate()));
+    closing = true;
+    for (const job of queue.splice(0)) job.reject(new Error('decode pool closed'));
+    await Promise.all(slots.map((s) => s.worker?.terminate()));
   }
 
-  return { submit, close };
+  return { submit, submitBlock, rootFor, noteUpgrades, metrics, describe, close };
 }
@@ -1,32 +1,37 @@
 /**
- * Worker thread that listens for 'init' and 'decode' messages,
+ * Worker thread that listens for 'init', 'decode' and 'decodeBlock' messages,
  * loads protobuf root if needed, and decodes Cosmos transactions.
  */
+import { createHash } from 'node:crypto';
 import { parentPort } from 'node:worker_threads';
-import { loadProtoRootWithProgress } from './dynamicProto.ts';
+import { loadProtoRootPreferBundle } from './protoBundle.ts';
 import { getLogger } from '../utils/logger.ts';
 import type {
   InitMsg,
   DecodeMsg,
+  DecodeBlockMsg,
   InMsg,
   ProgressMsg,
   ReadyMsg,
   WorkerOk,
+  WorkerBlockOk,
   WorkerErr,
   OutMsg,
 } from './txWorker.types.ts';
-import { setProtoRoot, clearProtoRoot } from './decoders/context.ts';
+import { setProtoRoot, clearProtoRoot, addProtoRoot, selectProtoRoot, setBech32Prefix } from './decoders/context.ts';
 import { decodeTxBase64 } from './decoders/tx.ts';
 
 const log = getLogger('decode/txWorker');
 
 /**
- * Handles the 'init' message: loads proto definitions if a directory is provided,
- * sends progress and ready messages.
+ * Handles the 'init' message: loads proto definitions if a directory is provided (from its
+ * precompiled bundle when one matches), sends progress and ready messages.
  * @param msg - The initialization message containing optional protoDir.
  * @returns Promise<void>
  */
 async function onInit(msg: InitMsg) {
+  if (msg.bech32Prefix) setBech32Prefix(msg.bech32Prefix);
+  if (msg.roots?.length) return onInitRoots(msg.roots, msg.bundleDir);
   if (!msg.protoDir) {
     clearProtoRoot();
     parentPort!.postMessage({ type: 'ready', ok: true } as ReadyMsg);
@@ -35,10 +40,8 @@ async function onInit(msg: InitMsg) {
   }
 
   try {
-    const root = await loadProtoRootWithProgress(
-      msg.protoDir,
-      (loaded, total) => parentPort!.postMessage({ type: 'progress', loaded, total } as ProgressMsg),
-      200,
+    const root = await loadProtoRootPreferBundle(msg.protoDir, msg.bundleDir, (loaded, total) =>
+      parentPort!.postMessage({ type: 'progress', loaded, total } as ProgressMsg),
     );
     setProtoRoot(root);
     parentPort!.postMessage({ type: 'ready', ok: true } as ReadyMsg);
@@ -50,12 +53,42 @@ async function onInit(msg: InitMsg) {
   }
 }
 
+/**
+ * Loads every root of a proto manifest, one after the other, reporting progress over all files.
+ * @param roots - Named proto directories.
+ * @param bundleDir - Directory of precompiled proto bundles, if any.
+ * @returns Promise<void>
+ */
+async function onInitRoots(roots: Array<{ name: string; protoDir: string }>, bundleDir?: string) {
+  const done: number[] = roots.map(() => 0);
+  const totals: number[] = roots.map(() => 0);
+  try {
+    for (let i = 0; i < roots.length; i++) {
+      const r = roots[i]!;
+      const root = await loadProtoRootPreferBundle(r.protoDir, bundleDir, (loaded, total) => {
+        done[i] = loaded;
+        totals[i] = total;
+        const sum = (xs: number[]) => xs.reduce((a, b) => a + b, 0);
+        parentPort!.postMessage({ type: 'progress', loaded: sum(done), total: sum(totals) } as ProgressMsg);
+      });
+      addProtoRoot(r.name, root);
+      log.info(`[txWorker] loaded proto root "${r.name}" from: ${r.protoDir}`);
+    }
+    parentPort!.postMessage({ type: 'ready', ok: true } as ReadyMsg);
+  } catch (e: any) {
+    clearProtoRoot();
+    parentPort!.postMessage({ type: 'ready', ok: false, detail: String(e?.message ?? e) } as ReadyMsg);
+    log.warn(`[txWorker] failed to load proto roots: ${String(e?.message ?? e)}`);
+  }
+}
+
 /**
  * Handles the 'decode' message: decodes a base64 transaction and sends the result back.
- * @param msg - The decode message containing the transaction base64 string and id.
+ * @param msg - The decode message containing the transaction base64 string, id and root name.
  */
 function onDecode(msg: DecodeMsg) {
   try {
+    if (msg.root && !selectProtoRoot(msg.root)) throw new Error(`unknown proto root "${msg.root}"`);
     const decoded = decodeTxBase64(msg.txBase64);
     const out: WorkerOk = { id: msg.id, ok: true, decoded };
     parentPort!.postMessage(out as OutMsg);
@@ -65,10 +98,47 @@ function onDecode(msg: DecodeMsg) {
   }
 }
 
+/**
+ * Handles the 'decodeBlock' message: decodes every transaction of a block and computes its hash
+ * and hex, returned in one message with the text buffer transferred. The first transaction that
+ * fails to decode fails the whole block.
+ * @param msg - The message containing the block's base64 transactions, id and root name.
+ */
+function onDecodeBlock(msg: DecodeBlockMsg) {
+  try {
+    if (msg.root && !selectProtoRoot(msg.root)) throw new Error(`unknown proto root "${msg.root}"`);
+    const raws = msg.txsBase64.map((b64) => Buffer.from(b64, 'base64'));
+    const txs = msg.txsBase64.map((b64, i) => {
+      try {
+        return decodeTxBase64(b64);
+      } catch (e: any) {
+        throw new Error(`tx #${i}: ${String(e?.message ?? e)}`);
+      }
+    });
+
+    const offsets = new Uint32Array(raws.length + 1);
+    for (let i = 0; i < raws.length; i++) offsets[i + 1] = offsets[i]! + 64 + 2 * raws[i]!.length;
+    const text = new Uint8Array(offsets[raws.length]!);
+    const buf = Buffer.from(text.buffer);
+    raws.forEach((raw, i) => {
+      const at = offsets[i]!;
+      buf.write(createHash('sha256').update(raw).digest('hex').toUpperCase(), at, 'latin1');
+      buf.write(raw.toString('hex').toUpperCase(), at + 64, 'latin1');
+    });
+
+    const out: WorkerBlockOk = { id: msg.id, ok: true, txs, text, offsets };
+    parentPort!.postMessage(out as OutMsg, [text.buffer, offsets.buffer]);
+  } catch (e: any) {
+    const out: WorkerErr = { id: msg.id, ok: false, error: String(e?.message ?? e) };
+    parentPort!.postMessage(out as OutMsg);
+  }
+}
+
 /**
  * Routes incoming worker messages to appropriate handlers.
  */
 parentPort!.on('message', (msg: InMsg) => {
   if (msg.type === 'init') return void onInit(msg);
   if (msg.type === 'decode') return void onDecode(msg);
+  if (msg.type === 'decodeBlock') return void onDecodeBlock(msg);
 });
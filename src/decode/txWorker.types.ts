@@ -3,15 +3,32 @@
 export type InitMsg = {
   type: 'init';
   protoDir?: string;
+  /** Named proto roots of a manifest; replaces `protoDir` when set. */
+  roots?: Array<{ name: string; protoDir: string }>;
+  /** Directory of precompiled proto bundles, tried before parsing `.proto` files. */
+  bundleDir?: string;
+  /** Bech32 prefix of addresses in legacy Amino transactions. */
+  bech32Prefix?: string;
 };
 
 export type DecodeMsg = {
   type: 'decode';
   id: number;
   txBase64: string;
+  /** Root to decode with; the default root when omitted. */
+  root?: string;
 };
 
-export type InMsg = InitMsg | DecodeMsg;
+/** Decodes every transaction of a block in one round trip. */
+export type DecodeBlockMsg = {
+  type: 'decodeBlock';
+  id: number;
+  txsBase64: string[];
+  /** Root to decode with; the default root when omitted. */
+  root?: string;
+};
+
+export type InMsg = InitMsg | DecodeMsg | DecodeBlockMsg;
 
 export type ProgressMsg = {
   type: 'progress';
@@ -31,10 +48,23 @@ export type WorkerOk = {
   decoded: unknown;
 };
 
+/**
+ * Result of a `decodeBlock` message. `text` is transferred, not copied: it holds, for each
+ * transaction, the uppercase SHA-256 hash (64 characters) followed by the uppercase hex of the
+ * raw bytes, as ASCII; transaction i spans `text[offsets[i]..offsets[i + 1])`.
+ */
+export type WorkerBlockOk = {
+  id: number;
+  ok: true;
+  txs: unknown[];
+  text: Uint8Array;
+  offsets: Uint32Array;
+};
+
 export type WorkerErr = {
   id: number;
   ok: false;
   error: string;
 };
 
-export type OutMsg = WorkerOk | WorkerErr | ProgressMsg | ReadyMsg;
+export type OutMsg = WorkerOk | WorkerBlockOk | WorkerErr | ProgressMsg | ReadyMsg;
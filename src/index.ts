@@ -1,40 +1,520 @@
 /**
  * Entry point for the Cosmos indexer application.
- * Initializes configuration, RPC client, decoding pool, and sink.
- * Handles backfilling blockchain data and optionally follows new blocks in real-time.
+ * Dispatches the command given on the command line (`index` by default): indexing, repair,
+ * verification, status, rederive or schema migrations.
+ * Indexing backfills blockchain data and optionally follows new blocks in real-time.
  * Responds to SIGINT and SIGTERM signals to gracefully shut down.
  */
 // src/index.ts
 import { EventEmitter } from 'node:events';
 import { getConfig, printConfig } from './config.ts';
+import { parseCommandLine } from './config/argv.ts';
+import { findCommand } from './config/commands.ts';
+import { formatCommandHelp, formatCommandList } from './config/help.ts';
 import { createRpcClientFromConfig } from './rpc/client.ts';
+import { toWebSocketUrl } from './rpc/ws.ts';
 import { createTxDecodePool } from './decode/txPool.ts';
+import { loadProtoManifest } from './decode/protoManifest.ts';
 import { createSink } from './sink/index.ts';
-import { closePgPool, createPgPool } from './db/pg.ts';
+import { PostgresSink } from './sink/postgres.ts';
+import { closePgPool, createPgPool, getPgPool } from './db/pg.ts';
 import { getProgress } from './db/progress.ts';
+import { findGaps } from './db/gaps.ts';
+import { applyMigrations, readMigrationFiles } from './db/migrate.ts';
+import { HeightFailure, recordFailedHeight } from './db/failedHeights.ts';
 import { getLogger } from './utils/logger.ts';
-import { syncRange } from './runner/syncRange.ts';
+import { syncRange, SyncDirection } from './runner/syncRange.ts';
 import { followLoop } from './runner/follow.ts';
+import { formatRanges, printRepairReport, repairGaps } from './runner/repair.ts';
+import { printVerifyReport, verifyRange } from './runner/verify.ts';
+import { collectStatus, printStatusReport } from './runner/status.ts';
+import { resolveTimeRange } from './runner/timeRange.ts';
+import { printRederiveReport, rederiveRange } from './runner/rederive.ts';
+import { planExtractors, startExtractorCatchUp } from './runner/catchUp.ts';
+import { loadExtractorPlugins } from './sink/pg/extractors/index.ts';
+import { startDeadLetterLoop } from './runner/deadLetter.ts';
+import { shardProgressId, syncShard } from './runner/shard.ts';
+import { createShutdown } from './runner/shutdown.ts';
+import { createContinuityGuard } from './runner/continuity.ts';
+import { runJobWorker } from './runner/jobs.ts';
+import { enqueueJobs } from './db/jobs.ts';
+import { listChainUpgrades, recordChainUpgrade } from './db/upgrades.ts';
 
 EventEmitter.defaultMaxListeners = 0;
 const log = getLogger('index');
 
+type AppConfig = ReturnType<typeof getConfig>;
+
 /**
- * Main function that runs the indexing process.
- * It resolves configuration, determines starting and ending block heights,
- * sets up RPC client, decode pool, and sink, performs range backfill,
- * and if enabled, follows new blocks in real-time.
+ * Creates the transaction decode worker pool for the configured proto directory, or for the
+ * roots of the proto manifest. With the Postgres sink, upgrade heights are read from and
+ * recorded to `core.chain_upgrades`; the sink must be initialized first.
  *
- * @returns {Promise<void>} Resolves when the indexing process completes or exits.
+ * @param {AppConfig} cfg Resolved configuration.
+ * @returns {Promise<ReturnType<typeof createTxDecodePool>>} Decode pool.
  */
-async function main() {
-  const cfg = getConfig();
-  printConfig(cfg);
+async function makeDecodePool(cfg: AppConfig) {
+  const poolSize = Math.max(1, Math.min(cfg.concurrency ?? 8, 8));
+  const defaultBundleDir = new URL('./generated/proto-bundles', import.meta.url).pathname;
+  const bundleDir = process.env.PROTO_BUNDLE_DIR || defaultBundleDir;
+  if (!cfg.protoManifest) {
+    const defaultProtoDir = new URL('../protos', import.meta.url).pathname;
+    const protoDir = process.env.PROTO_DIR || defaultProtoDir;
+    log.info(`[proto] dir = ${protoDir}`);
+    return createTxDecodePool(poolSize, { protoDir, bundleDir, bech32Prefix: cfg.bech32Prefix });
+  }
 
-  const rpc = createRpcClientFromConfig(cfg);
-  const status = await rpc.fetchStatus();
+  const manifest = loadProtoManifest(cfg.protoManifest);
+  log.info(`[proto] manifest = ${cfg.protoManifest} (${manifest.roots.length} root(s))`);
+  let upgrades = new Map<string, number>();
+  if (cfg.sinkKind === 'postgres') {
+    try {
+      upgrades = await listChainUpgrades(getPgPool());
+    } catch (e: any) {
+      log.warn(`[proto] cannot read core.chain_upgrades, upgrade heights are learned from events: ${e?.message ?? e}`);
+    }
+  }
+  const onUpgrade =
+    cfg.sinkKind === 'postgres'
+      ? (name: string, height: number) => {
+          recordChainUpgrade(getPgPool(), name, height).catch((e: any) =>
+            log.warn(`[proto] failed to record upgrade "${name}" at ${height}: ${e?.message ?? e}`),
+          );
+        }
+      : undefined;
+  return createTxDecodePool(poolSize, {
+    manifest,
+    upgrades,
+    onUpgrade,
+    bundleDir,
+    bech32Prefix: cfg.bech32Prefix,
+  });
+}
+
+/**
+ * Creates the configured sink (not yet initialized).
+ *
+ * @param {AppConfig} cfg Resolved configuration.
+ * @param {string} [progressId] Progress id the sink records to, overriding `cfg.pg.progressId`.
+ * @param {SyncDirection} [direction='asc'] With `desc`, the sink records the lowest flushed height as progress.
+ * @returns {ReturnType<typeof createSink>} Sink instance.
+ */
+function makeSink(cfg: AppConfig, progressId?: string, direction: SyncDirection = 'asc') {
+  return createSink({
+    kind: cfg.sinkKind,
+    outPath: cfg.outPath,
+    flushEvery: cfg.flushEvery ?? 1,
+    pg: cfg.pg ? { ...cfg.pg, progressId: progressId ?? cfg.pg.progressId, progressDirection: direction } : undefined,
+    batchSizes: {
+      blocks: cfg.pg?.batchBlocks,
+      txs: cfg.pg?.batchTxs,
+      msgs: cfg.pg?.batchMsgs,
+      events: cfg.pg?.batchEvents,
+      attrs: cfg.pg?.batchAttrs,
+    },
+  });
+}
+
+/**
+ * Resolves `fromTime`/`toTime` to `from`/`to`. `core.blocks` is used when it covers the times
+ * (with the Postgres sink, and for every command but `index`); otherwise the RPC is searched.
+ *
+ * @param {AppConfig} cfg Resolved configuration.
+ * @param {ReturnType<typeof createRpcClientFromConfig>} [rpc] RPC client; `core.blocks` only when omitted.
+ * @param {any} [status] Result of `/status`, bounding the RPC search.
+ * @returns {Promise<AppConfig>} The configuration with the resolved heights.
+ */
+async function applyTimeRange(cfg: AppConfig, rpc?: ReturnType<typeof createRpcClientFromConfig>, status?: any) {
+  if (!cfg.fromTime && !cfg.toTime) return cfg;
+  const usePg = cfg.sinkKind === 'postgres' || cfg.command !== 'index';
+  const pool = usePg ? createPgPool({ ...cfg.pg, applicationName: 'cosmos-indexer-resolver' }) : undefined;
+  try {
+    const range = await resolveTimeRange(cfg, {
+      pool,
+      rpc,
+      earliest: status ? Number(status['sync_info']['earliest_block_height']) : undefined,
+      latest: status ? Number(status['sync_info']['latest_block_height']) : undefined,
+    });
+    const from = range.from ?? cfg.from;
+    const to = range.to ?? cfg.to;
+    if (typeof from === 'number' && to != null && to < from) throw new Error(`to (${to}) must be >= from (${from})`);
+    return { ...cfg, from, to };
+  } finally {
+    if (pool) await closePgPool();
+  }
+}
+
+/**
+ * Resolves the range checked by `repair` and `verify`: `[from, to]` when given; otherwise it spans
+ * from `firstBlock` up to the stored progress of `progressId` (or the latest height when there is none).
+ *
+ * @param {AppConfig} cfg Resolved configuration.
+ * @param {import('pg').Pool} pool Pool used to read the progress row.
+ * @param {any} status Result of `/status`, used for the default bounds.
+ * @returns {Promise<{ from: number; to: number }>} The range.
+ */
+async function resolveStoredRange(cfg: AppConfig, pool: import('pg').Pool, status: any) {
+  const progressId = cfg.pg?.progressId ?? 'default';
+  const from =
+    typeof cfg.from === 'number' ? cfg.from : (cfg.firstBlock ?? Number(status['sync_info']['earliest_block_height']));
+  let to = cfg.to;
+  if (to == null) {
+    const last = await getProgress(pool, progressId);
+    to = last ?? Number(status['sync_info']['latest_block_height']);
+    log.info(
+      `[${cfg.command}] --to not provided → using ${last != null ? `progress of "${progressId}"` : 'latest'} ${to}`,
+    );
+  }
+  return { from, to };
+}
+
+/**
+ * `repair` command: scans `core.blocks` for missing heights and re-indexes them.
+ * With `dryRun`, the gaps are only listed. The range is resolved by {@link resolveStoredRange}.
+ *
+ * @param {AppConfig} cfg Resolved configuration.
+ * @param {ReturnType<typeof createRpcClientFromConfig>} rpc RPC client.
+ * @param {any} status Result of `/status`, used as the upper bound fallback.
+ * @param {AbortSignal} signal Shutdown signal; the repair stops after the current gap drains.
+ * @returns {Promise<void>} Resolves when the repair report has been printed.
+ */
+async function runRepair(
+  cfg: AppConfig,
+  rpc: ReturnType<typeof createRpcClientFromConfig>,
+  status: any,
+  signal: AbortSignal,
+) {
+  if (cfg.dryRun) {
+    const pool = createPgPool({ ...cfg.pg, applicationName: 'cosmos-indexer-repair' });
+    try {
+      const { from, to } = await resolveStoredRange(cfg, pool, status);
+      const gaps = await findGaps(pool, from, to);
+      log.info(`[repair] dry run: ${gaps.length} gap(s) in [${from}, ${to}]: ${formatRanges(gaps, 1000)}`);
+    } finally {
+      await closePgPool();
+    }
+    return;
+  }
+
+  const sink = makeSink(cfg);
+  await sink.init();
+  const decodePool = await makeDecodePool(cfg);
+  try {
+    const pgPool = getPgPool();
+    const { from, to } = await resolveStoredRange(cfg, pgPool, status);
+    const report = await repairGaps(pgPool, rpc, decodePool, sink, {
+      from,
+      to,
+      concurrency: cfg.concurrency,
+      caseMode: cfg.caseMode,
+      signal,
+      maxBufferBytes: cfg.maxBufferMb * 1024 * 1024,
+      rpcBatch: cfg.rpcBatch,
+      emptyFastPath: cfg.emptyFastPath,
+    });
+    printRepairReport(report);
+  } finally {
+    await decodePool.close();
+    await sink.close();
+  }
+}
+
+/**
+ * `verify` command: compares stored blocks with the RPC. The range is resolved by {@link resolveStoredRange}.
+ *
+ * @param {AppConfig} cfg Resolved configuration.
+ * @param {ReturnType<typeof createRpcClientFromConfig>} rpc RPC client.
+ * @param {any} status Result of `/status`, used for the default bounds.
+ * @param {AbortSignal} signal Shutdown signal; the check stops after the current window.
+ * @returns {Promise<boolean>} True when every checked height matches and none is missing.
+ */
+async function runVerify(
+  cfg: AppConfig,
+  rpc: ReturnType<typeof createRpcClientFromConfig>,
+  status: any,
+  signal: AbortSignal,
+) {
+  const pool = createPgPool({ ...cfg.pg, applicationName: 'cosmos-indexer-verify' });
+  try {
+    const { from, to } = await resolveStoredRange(cfg, pool, status);
+    const report = await verifyRange(pool, rpc, {
+      from,
+      to,
+      concurrency: cfg.concurrency,
+      sample: cfg.verifySample,
+      signal,
+    });
+    printVerifyReport(report);
+    return report.mismatches.length === 0 && report.missing === 0 && report.errors.length === 0;
+  } finally {
+    await closePgPool();
+  }
+}
+
+/**
+ * `status` command: prints the progress and lag of every progress id.
+ *
+ * @param {AppConfig} cfg Resolved configuration.
+ * @returns {Promise<void>} Resolves when the report has been printed.
+ */
+async function runStatus(cfg: AppConfig) {
+  const pool = createPgPool({ ...cfg.pg, applicationName: 'cosmos-indexer-status' });
+  try {
+    printStatusReport(await collectStatus(pool, createRpcClientFromConfig(cfg)));
+  } finally {
+    await closePgPool();
+  }
+}
+
+/**
+ * `migrate` command: applies the pending files of the migrations directory (`initdb/` by default).
+ *
+ * @param {AppConfig} cfg Resolved configuration.
+ * @returns {Promise<void>} Resolves when every pending file is applied.
+ */
+async function runMigrate(cfg: AppConfig) {
+  const dir = cfg.migrationsDir ?? new URL('../initdb', import.meta.url).pathname;
+  const files = await readMigrationFiles(dir);
+  const pool = createPgPool({ ...cfg.pg, applicationName: 'cosmos-indexer-migrate' });
+  try {
+    const res = await applyMigrations(pool, files, { baseline: cfg.migrateBaseline });
+    for (const name of res.recorded) log.info(`[migrate] recorded ${name}`);
+    for (const name of res.applied) log.info(`[migrate] applied ${name}`);
+    for (const name of res.changed) log.warn(`[migrate] ${name} changed since it was applied; it is not run again`);
+    log.info(
+      `[migrate] ${res.applied.length} file(s) applied, ${res.recorded.length} recorded, ` +
+        `${res.skipped.length} already applied (${dir})`,
+    );
+  } finally {
+    await closePgPool();
+  }
+}
+
+/**
+ * `rederive` command: rebuilds the derived tables of a range from the rows stored in `core.*`,
+ * without any RPC. The range is `[from, to]` when given; otherwise it spans from `firstBlock`
+ * up to the stored progress of `progressId`.
+ *
+ * @param {AppConfig} cfg Resolved configuration.
+ * @param {AbortSignal} signal Shutdown signal; the run stops after the current window commits.
+ * @returns {Promise<void>} Resolves when the rederive report has been printed.
+ */
+async function runRederive(cfg: AppConfig, signal: AbortSignal) {
+  const pool = createPgPool({ ...cfg.pg, applicationName: 'cosmos-indexer-rederive' });
+  try {
+    const progressId = cfg.pg?.progressId ?? 'default';
+    const from = typeof cfg.from === 'number' ? cfg.from : (cfg.firstBlock as number);
+    let to = cfg.to;
+    if (to == null) {
+      const last = await getProgress(pool, progressId);
+      if (last == null) throw new Error(`rederive: no --to given and no progress stored for "${progressId}"`);
+      to = last;
+      log.info(`[rederive] --to not provided → using progress of "${progressId}" ${to}`);
+    }
+    const report = await rederiveRange(pool, { from, to, windowSize: cfg.rederiveWindow, signal });
+    printRederiveReport(report);
+  } finally {
+    await closePgPool();
+  }
+}
+
+/**
+ * Wraps the Postgres sink with the parent-hash continuity guard; other sinks are returned as is.
+ *
+ * @param {AppConfig} cfg Resolved configuration.
+ * @param {ReturnType<typeof createRpcClientFromConfig>} rpc RPC client.
+ * @param {ReturnType<typeof createTxDecodePool>} decodePool Decode pool used to re-index after a rollback.
+ * @param {ReturnType<typeof createSink>} sink Initialized sink.
+ * @param {string[]} progressIds Progress ids a rollback moves back to the fork base.
+ * @returns {ReturnType<typeof createSink>} Sink to write blocks to.
+ */
+function guardSink(
+  cfg: AppConfig,
+  rpc: ReturnType<typeof createRpcClientFromConfig>,
+  decodePool: ReturnType<typeof createTxDecodePool>,
+  sink: ReturnType<typeof createSink>,
+  progressIds: string[],
+) {
+  if (cfg.sinkKind !== 'postgres') return sink;
+  return createContinuityGuard(sink, {
+    pool: getPgPool(),
+    rpc,
+    decodePool,
+    mode: cfg.onFork,
+    maxRollback: cfg.forkMaxRollback,
+    caseMode: cfg.caseMode,
+    concurrency: cfg.concurrency,
+    progressIds,
+  });
+}
+
+/**
+ * Descending mode: indexes from `to` (or the latest height) down to `from` (or `firstBlock`,
+ * or the earliest available height), newest blocks first.
+ *
+ * Progress is a low watermark stored under `<progressId>:desc`, so a descending run does not
+ * interfere with an ascending follow process using `progressId`. On resume, the run continues
+ * right below the watermark.
+ *
+ * @param {AppConfig} cfg Resolved configuration.
+ * @param {ReturnType<typeof createRpcClientFromConfig>} rpc RPC client.
+ * @param {any} status Result of `/status`, used for the default bounds.
+ * @param {ReturnType<typeof createShutdown>} shutdown Shutdown coordinator.
+ * @returns {Promise<void>} Resolves when the range is done or drained.
+ */
+async function runDescending(
+  cfg: AppConfig,
+  rpc: ReturnType<typeof createRpcClientFromConfig>,
+  status: any,
+  shutdown: ReturnType<typeof createShutdown>,
+) {
+  const progressId = `${cfg.pg?.progressId ?? 'default'}:desc`;
+  const from =
+    typeof cfg.from === 'number' ? cfg.from : (cfg.firstBlock ?? Number(status['sync_info']['earliest_block_height']));
+  let to = cfg.to ?? Number(status['sync_info']['latest_block_height']);
+
+  if (cfg.sinkKind === 'postgres') {
+    const pool = createPgPool({ ...cfg.pg, applicationName: 'cosmos-indexer-resolver' });
+    try {
+      const low = await getProgress(pool, progressId);
+      if (low != null) to = Math.min(to, low - 1);
+      log.info(`[resume] desc low_height=${low ?? 'null'} → start from ${to} down to ${from}`);
+    } finally {
+      await closePgPool();
+    }
+  }
+  if (to < from) {
+    log.info(`[done-range] nothing left to index down to ${from}`);
+    return;
+  }
+  log.info(`[start] from ${to} down to ${from} (incl.)`);
+
+  const baseSink = makeSink(cfg, progressId, 'desc');
+  await baseSink.init();
+  const decodePool = await makeDecodePool(cfg);
+  // Forks halt a descending run; its low watermark is never moved by a rollback.
+  const sink = guardSink(cfg, rpc, decodePool, baseSink, []);
+  const onGiveUp = cfg.sinkKind === 'postgres' ? (f: HeightFailure) => recordFailedHeight(getPgPool(), f) : undefined;
+
+  const res = await syncRange(rpc, decodePool, sink, {
+    from,
+    to,
+    direction: 'desc',
+    concurrency: cfg.concurrency,
+    progressEveryBlocks: cfg.progressEveryBlocks,
+    progressIntervalSec: cfg.progressIntervalSec,
+    caseMode: cfg.caseMode,
+    onGiveUp,
+    signal: shutdown.signal,
+    drainTimeoutMs: cfg.shutdownTimeoutMs,
+    maxBufferBytes: cfg.maxBufferMb * 1024 * 1024,
+    rpcBatch: cfg.rpcBatch,
+    emptyFastPath: cfg.emptyFastPath,
+  });
+  if (res.drained === false) shutdown.markUnclean('descending heights still in flight at the deadline');
+  log.info(`[done-range] processed ${res.processed} blocks in [${from}, ${to}] (desc)`);
+
+  await sink.flush?.();
+  await decodePool.close();
+  await sink.close();
+}
+
+/**
+ * Job mode: adds chunks covering `[from, to]` to the `core.index_jobs` queue of `progressId`
+ * (only above the chunks it already has), then claims and indexes chunks until none is left.
+ * Any number of replicas can run this concurrently; the contiguous done prefix is stored as
+ * the progress of `progressId`, so a regular process can resume or follow from it afterwards.
+ *
+ * @param {AppConfig} cfg Resolved configuration.
+ * @param {ReturnType<typeof createRpcClientFromConfig>} rpc RPC client.
+ * @param {any} status Result of `/status`, used for the default bounds.
+ * @param {ReturnType<typeof createShutdown>} shutdown Shutdown coordinator.
+ * @returns {Promise<void>} Resolves when the queue is drained or the worker stopped.
+ */
+async function runJobs(
+  cfg: AppConfig,
+  rpc: ReturnType<typeof createRpcClientFromConfig>,
+  status: any,
+  shutdown: ReturnType<typeof createShutdown>,
+) {
+  if (cfg.sinkKind !== 'postgres') throw new Error('job mode requires sink=postgres');
+
+  const queue = cfg.pg?.progressId ?? 'default';
+  const from =
+    typeof cfg.from === 'number' ? cfg.from : (cfg.firstBlock ?? Number(status['sync_info']['earliest_block_height']));
+  const to = cfg.to ?? Number(status['sync_info']['latest_block_height']);
+
+  // Chunks finish out of order; the sink's own progress row is informational only.
+  const baseSink = makeSink(cfg, `${queue}:jobs`);
+  await baseSink.init();
+  const decodePool = await makeDecodePool(cfg);
+  const sink = guardSink(cfg, rpc, decodePool, baseSink, [queue, `${queue}:jobs`]);
+  try {
+    const added = await enqueueJobs(getPgPool(), queue, from, to, cfg.jobChunk);
+    log.info(`[jobs] queue "${queue}": ${added} chunk(s) of ${cfg.jobChunk} added for [${from}, ${to}]`);
+
+    const res = await runJobWorker(rpc, decodePool, sink, {
+      pool: getPgPool(),
+      queue,
+      leaseMs: cfg.jobLeaseMs,
+      maxAttempts: cfg.jobMaxAttempts,
+      concurrency: cfg.concurrency,
+      progressEveryBlocks: cfg.progressEveryBlocks,
+      progressIntervalSec: cfg.progressIntervalSec,
+      caseMode: cfg.caseMode,
+      onGiveUp: (f: HeightFailure) => recordFailedHeight(getPgPool(), f),
+      signal: shutdown.signal,
+      drainTimeoutMs: cfg.shutdownTimeoutMs,
+      maxBufferBytes: cfg.maxBufferMb * 1024 * 1024,
+      rpcBatch: cfg.rpcBatch,
+      emptyFastPath: cfg.emptyFastPath,
+    });
+    if (res.drained === false) shutdown.markUnclean('job heights still in flight at the deadline');
+    log.info(`[done-range] processed ${res.processed} blocks in ${res.jobs} chunk(s)`);
+  } finally {
+    await sink.flush?.();
+    await decodePool.close();
+    await sink.close();
+  }
+}
+
+/**
+ * `index` command: runs the indexing process.
+ * It determines starting and ending block heights, sets up the decode pool and sink,
+ * performs range backfill, and if enabled, follows new blocks in real-time.
+ *
+ * On SIGINT/SIGTERM the runners stop spawning heights and drain, then the sink is flushed
+ * (committing progress) and the decode and pg pools are closed.
+ *
+ * @param {AppConfig} cfg Resolved configuration.
+ * @param {ReturnType<typeof createRpcClientFromConfig>} rpc RPC client.
+ * @param {any} status Result of `/status`, used for the default bounds.
+ * @param {ReturnType<typeof createShutdown>} shutdown Shutdown coordinator.
+ * @returns {Promise<number>} Process exit code: 0 on completion or a clean drain, 1 otherwise.
+ */
+async function runIndex(
+  cfg: AppConfig,
+  rpc: ReturnType<typeof createRpcClientFromConfig>,
+  status: any,
+  shutdown: ReturnType<typeof createShutdown>,
+): Promise<number> {
+  if (cfg.jobs) {
+    await runJobs(cfg, rpc, status, shutdown);
+    return shutdown.exitCode();
+  }
+  if (cfg.direction === 'desc') {
+    await runDescending(cfg, rpc, status, shutdown);
+    return shutdown.exitCode();
+  }
+
+  const progressId = cfg.pg?.progressId ?? 'default';
+  const sharded = cfg.shards > 1;
+  const layout = { shards: cfg.shards, shardId: cfg.shardId, chunkSize: cfg.shardChunk };
+  const ownProgressId = shardProgressId(progressId, cfg.shardId, cfg.shards);
 
   let startFrom = cfg.from as number | undefined;
+  // First height of the whole run, common to all shards; the global watermark counts from here.
+  let rangeFrom = startFrom;
   const wantResume =
     !startFrom || cfg.resume === true || (typeof cfg.from === 'string' && cfg.from.toLowerCase() === 'resume');
 
@@ -42,11 +522,21 @@ async function main() {
     if (cfg.sinkKind === 'postgres') {
       const pool = createPgPool({ ...cfg.pg, applicationName: 'cosmos-indexer-resolver' });
       try {
-        const last = await getProgress(pool, cfg.pg?.progressId ?? 'default');
+        const last = await getProgress(pool, ownProgressId);
         const earliest = Number(status['sync_info']['earliest_block_height']);
         const explicitFrom = typeof cfg.from === 'number' ? cfg.from : (cfg.firstBlock as number | undefined);
-        startFrom = last != null ? last + 1 : (explicitFrom ?? earliest);
-        log.info(`[resume] last_height=${last ?? 'null'} → start from ${startFrom}`);
+        if (sharded) {
+          const global = await getProgress(pool, progressId);
+          rangeFrom = global != null ? global + 1 : (explicitFrom ?? earliest);
+          startFrom = last != null ? Math.max(rangeFrom, last + 1) : rangeFrom;
+          log.info(
+            `[resume] shard ${cfg.shardId + 1}/${cfg.shards}: last_height=${last ?? 'null'} global=${global ?? 'null'} → start from ${startFrom}`,
+          );
+        } else {
+          startFrom = last != null ? last + 1 : (explicitFrom ?? earliest);
+          rangeFrom = startFrom;
+          log.info(`[resume] last_height=${last ?? 'null'} → start from ${startFrom}`);
+        }
       } finally {
         await closePgPool();
       }
@@ -63,75 +553,176 @@ async function main() {
   if (startFrom == null || endHeight == null) throw new Error('Both startFrom and endHeight must be resolved.');
   log.info(`[start] from ${startFrom} to ${endHeight} (incl.)`);
 
-  const defaultProtoDir = new URL('../protos', import.meta.url).pathname;
-  const protoDir = process.env.PROTO_DIR || defaultProtoDir;
-  log.info(`[proto] dir = ${protoDir}`);
+  const baseSink = makeSink(cfg, ownProgressId);
+  await baseSink.init();
+  const decodePool = await makeDecodePool(cfg);
+  // Every block is checked against its stored parent before it reaches the database.
+  const sink = guardSink(cfg, rpc, decodePool, baseSink, sharded ? [ownProgressId, progressId] : [progressId]);
 
-  const poolSize = Math.max(1, Math.min(cfg.concurrency ?? 8, 8));
-  const decodePool = createTxDecodePool(poolSize, { protoDir });
+  // Extractors that are new or out of date are rebuilt from core rows (and cached blocks) while the tip moves on.
+  let catchUp: ReturnType<typeof startExtractorCatchUp> | undefined;
+  if (cfg.sinkKind === 'postgres') {
+    const blocks = cfg.rpcCacheDir ? { rpcCacheDir: cfg.rpcCacheDir, decodePool, caseMode: cfg.caseMode } : undefined;
+    const pending = await planExtractors(getPgPool(), blocks);
+    if (pending.length > 0 && cfg.extractorCatchUp) {
+      catchUp = startExtractorCatchUp(getPgPool(), {
+        windowSize: cfg.rederiveWindow,
+        signal: shutdown.signal,
+        blocks,
+      });
+    } else if (pending.length > 0) {
+      log.warn(`[extractors] catch-up disabled; ${pending.join(', ')} stay behind`);
+    }
+  }
 
-  const sink = createSink({
-    kind: cfg.sinkKind,
-    outPath: cfg.outPath,
-    flushEvery: cfg.flushEvery ?? 1,
-    pg: cfg.pg,
-    batchSizes: {
-      blocks: cfg.pg?.batchBlocks,
-      txs: cfg.pg?.batchTxs,
-      msgs: cfg.pg?.batchMsgs,
-      events: cfg.pg?.batchEvents,
-      attrs: cfg.pg?.batchAttrs,
-    },
-  });
-  await sink.init();
+  // Heights that exhaust their retries go to the dead-letter table (postgres only).
+  const onGiveUp = cfg.sinkKind === 'postgres' ? (f: HeightFailure) => recordFailedHeight(getPgPool(), f) : undefined;
 
-  const backfill = await syncRange(rpc, decodePool, sink, {
+  const rangeOpts = {
     from: startFrom,
     to: endHeight,
     concurrency: cfg.concurrency,
     progressEveryBlocks: cfg.progressEveryBlocks,
     progressIntervalSec: cfg.progressIntervalSec,
     caseMode: cfg.caseMode,
-  });
+    onGiveUp,
+    signal: shutdown.signal,
+    drainTimeoutMs: cfg.shutdownTimeoutMs,
+    maxBufferBytes: cfg.maxBufferMb * 1024 * 1024,
+    rpcBatch: cfg.rpcBatch,
+    emptyFastPath: cfg.emptyFastPath,
+  };
+  const backfill = sharded
+    ? await syncShard(rpc, decodePool, sink, {
+        ...rangeOpts,
+        layout,
+        watermark:
+          cfg.sinkKind === 'postgres'
+            ? { pool: getPgPool(), baseId: progressId, floor: rangeFrom ?? startFrom }
+            : undefined,
+      })
+    : await syncRange(rpc, decodePool, sink, rangeOpts);
+  if (backfill.drained === false) shutdown.markUnclean('backfill heights still in flight at the deadline');
+
+  // The follow tail is not sharded: run a single unsharded process to keep up with the chain.
+  const follow = cfg.follow !== false && !sharded && cfg.source !== 'cache' && !shutdown.requested;
+  if (cfg.follow !== false && sharded) log.warn('[follow] disabled when SHARDS > 1; run with SHARDS=1 to follow');
+  if (cfg.follow !== false && cfg.source === 'cache') log.info('[follow] disabled with source=cache');
 
   log.info(
     `[done-range] processed ${backfill.processed} blocks in [${startFrom}, ${endHeight}] — switching mode: ${
-      cfg.follow === false ? 'exit' : 'follow'
+      follow ? 'follow' : 'exit'
     }`,
   );
 
-  if (cfg.follow !== false) {
+  // Recovered heights are written block-atomically so they never mix with the follow loop buffers.
+  let retrySink: PostgresSink | undefined;
+  if (follow) {
     const pollMs = cfg.followIntervalMs ?? 1500;
-    await followLoop(rpc, decodePool, sink, {
-      startNext: endHeight + 1,
-      pollMs,
-      concurrency: cfg.concurrency,
-      caseMode: cfg.caseMode,
-    });
+
+    let deadLetter: ReturnType<typeof startDeadLetterLoop> | undefined;
+    if (cfg.sinkKind === 'postgres') {
+      retrySink = new PostgresSink({ kind: 'postgres', pg: cfg.pg ?? {}, mode: 'block-atomic' });
+      await retrySink.init();
+      deadLetter = startDeadLetterLoop(getPgPool(), rpc, decodePool, retrySink, {
+        intervalMs: cfg.deadLetterIntervalMs,
+        backoffMs: cfg.deadLetterBackoffMs,
+        batchSize: 50,
+        caseMode: cfg.caseMode,
+        signal: shutdown.signal,
+      });
+    }
+
+    try {
+      const live = await followLoop(rpc, decodePool, sink, {
+        startNext: endHeight + 1,
+        pollMs,
+        mode: cfg.followMode,
+        wsUrl: cfg.followWsUrl ?? toWebSocketUrl(cfg.rpcUrl),
+        concurrency: cfg.concurrency,
+        caseMode: cfg.caseMode,
+        onGiveUp,
+        signal: shutdown.signal,
+        drainTimeoutMs: cfg.shutdownTimeoutMs,
+        maxBufferBytes: cfg.maxBufferMb * 1024 * 1024,
+        rpcBatch: cfg.rpcBatch,
+        emptyFastPath: cfg.emptyFastPath,
+      });
+      if (live.drained === false) shutdown.markUnclean('follow heights still in flight at the deadline');
+    } finally {
+      await deadLetter?.stop();
+    }
   }
 
-  await decodePool.close();
+  // Buffered rows are written in height order together with the progress row.
   await sink.flush?.();
+  // A catch-up still running stops after its current window; the next start continues it.
+  await catchUp?.stop();
+  await decodePool.close();
   await sink.close();
+  // Shares the main sink's connection pool, so it is closed last.
+  await retrySink?.close();
+  if (shutdown.requested) log.info(`[shutdown] drained, exit code ${shutdown.exitCode()}`);
+  return shutdown.exitCode();
 }
 
 /**
- * Handle SIGINT signal to gracefully shut down the indexer.
- */
-process.on('SIGINT', async () => {
-  log.warn('SIGINT received, shutting down…');
-  process.exit(0);
-});
-/**
- * Handle SIGTERM signal to gracefully shut down the indexer.
+ * Main function: prints the requested help, or resolves the configuration of the command
+ * and runs it.
+ *
+ * @returns {Promise<number>} Process exit code: 0 on success or a clean drain, 1 otherwise.
  */
-process.on('SIGTERM', async () => {
-  log.warn('SIGTERM received, shutting down…');
-  process.exit(0);
-});
-
-main().catch((e) => {
-  const msg = e instanceof Error ? e.stack || e.message : String(e);
-  getLogger('index').error(msg);
-  process.exit(1);
-});
+async function main(): Promise<number> {
+  const cli = parseCommandLine();
+  if (cli.help) {
+    const spec = cli.command ? findCommand(cli.command) : undefined;
+    if (cli.command && !spec) throw new Error(`unknown command "${cli.command}"`);
+    process.stdout.write(spec ? formatCommandHelp(spec) : formatCommandList());
+    return 0;
+  }
+
+  let cfg = getConfig(cli);
+  printConfig(cfg);
+  const shutdown = createShutdown({ timeoutMs: cfg.shutdownTimeoutMs });
+
+  // Commands that only read or change the database run before the RPC is contacted.
+  if (cfg.command === 'migrate') {
+    await runMigrate(cfg);
+    return 0;
+  }
+  if (cfg.command === 'status') {
+    await runStatus(cfg);
+    return 0;
+  }
+
+  // Plugin extractors must be registered before any sink or rederive run picks up the registry.
+  if (cfg.pluginsDir) await loadExtractorPlugins(cfg.pluginsDir);
+
+  if (cfg.command === 'rederive') {
+    cfg = await applyTimeRange(cfg);
+    await runRederive(cfg, shutdown.signal);
+    return shutdown.exitCode();
+  }
+
+  const rpc = createRpcClientFromConfig(cfg);
+  const status = await rpc.fetchStatus();
+  cfg = await applyTimeRange(cfg, rpc, status);
+
+  if (cfg.command === 'verify') {
+    const ok = await runVerify(cfg, rpc, status, shutdown.signal);
+    return ok ? shutdown.exitCode() : 1;
+  }
+  if (cfg.command === 'repair') {
+    await runRepair(cfg, rpc, status, shutdown.signal);
+    return shutdown.exitCode();
+  }
+  return runIndex(cfg, rpc, status, shutdown);
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((e) => {
+    const msg = e instanceof Error ? e.stack || e.message : String(e);
+    getLogger('index').error(msg);
+    process.exit(1);
+  });
@@ -30,9 +30,9 @@ export interface GovProposalRow {
 export function extractGovFromBlock(params: {
   height: number;
   txHash: string;
-  blockTime: Date;
+  blockTime: Date | null;
   msgs: Array<{ type_url: string; value: any; signer?: string | null }>;
-  eventsByMsg: Array<Array<{ type: string; attributes: Array<{ key: string; value: string }> }>>;
+  eventsByMsg: Array<Array<{ type: string; attributes: Array<{ key: string; value: string | null }> }>>;
 }): {
   deposits: GovDepositRow[];
   votes: GovVoteRow[];
@@ -0,0 +1,151 @@
+// src/rpc/adaptive.ts
+/**
+ * This module implements an AIMD (additive increase, multiplicative decrease) controller
+ * that tunes the in-flight window and the request rate from RPC feedback.
+ */
+import { getLogger } from '../utils/logger.js';
+
+const log = getLogger('rpc/adaptive');
+
+/**
+ * Outcome of one RPC request as seen by the controller.
+ * - `ok`: successful response;
+ * - `throttled`: HTTP 429 (or 503 with `Retry-After`);
+ * - `error`: HTTP 5xx or network error;
+ * - `timeout`: the request was aborted by the client timeout.
+ */
+export type RpcOutcome = 'ok' | 'throttled' | 'error' | 'timeout';
+
+/**
+ * Options for {@link createAdaptiveController}.
+ * @property {number} maxConcurrency - Ceiling for the in-flight window (`CONCURRENCY`).
+ * @property {number} maxRps - Ceiling for the request rate (`RPS`).
+ * @property {number} targetP95Ms - The window only grows while p95 latency stays at or below this.
+ * @property {number} [minConcurrency=1] - Floor for the in-flight window.
+ * @property {number} [minRateFactor=0.05] - Floor for the rate, as a fraction of `maxRps`.
+ * @property {number} [intervalMs=2000] - How often the collected samples are evaluated.
+ */
+export type AdaptiveOptions = {
+  maxConcurrency: number;
+  maxRps: number;
+  targetP95Ms: number;
+  minConcurrency?: number;
+  minRateFactor?: number;
+  intervalMs?: number;
+};
+
+/**
+ * Shared controller state.
+ * @property {() => number} concurrency - Current in-flight window (between the floor and `maxConcurrency`).
+ * @property {() => number} rateFactor - Current rate as a fraction of the configured rate (0..1].
+ * @property {(ms: number, outcome: RpcOutcome) => void} record - Reports one request.
+ * @property {(fn: (rateFactor: number) => void) => void} onRateChange - Registers a listener for rate changes.
+ * @property {() => string} describe - One-line state for progress logs.
+ */
+export type AdaptiveController = {
+  concurrency: () => number;
+  rateFactor: () => number;
+  record: (ms: number, outcome: RpcOutcome) => void;
+  onRateChange: (fn: (rateFactor: number) => void) => void;
+  describe: () => string;
+};
+
+/**
+ * Parses an HTTP `Retry-After` header (delta-seconds or HTTP date).
+ * @param {string | null | undefined} v - Header value.
+ * @returns {number | undefined} Delay in milliseconds, or undefined if absent/invalid.
+ */
+export function parseRetryAfter(v: string | null | undefined): number | undefined {
+  if (!v) return undefined;
+  const secs = Number(v);
+  if (Number.isFinite(secs)) return Math.max(0, secs * 1000);
+  const at = Date.parse(v);
+  return Number.isFinite(at) ? Math.max(0, at - Date.now()) : undefined;
+}
+
+/**
+ * Computes the p-th percentile of a list of numbers.
+ * @param {number[]} xs - Samples (not modified).
+ * @param {number} p - Percentile in [0, 1].
+ * @returns {number} Percentile value, 0 for an empty list.
+ */
+function percentile(xs: number[], p: number): number {
+  if (xs.length === 0) return 0;
+  const sorted = [...xs].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))]!;
+}
+
+/**
+ * Creates an AIMD controller.
+ *
+ * Every `intervalMs` the samples of the last interval are evaluated:
+ * - any throttling, or more than 5% errors/timeouts → the window is halved and the rate cut by 30%;
+ * - p95 latency within target and no errors → the window grows by one and the rate by 5% of the ceiling;
+ * - otherwise both stay as they are.
+ * Both start at a quarter of their ceiling and never exceed it.
+ *
+ * @param {AdaptiveOptions} opts - Controller options.
+ * @returns {AdaptiveController} The controller.
+ */
+export function createAdaptiveController(opts: AdaptiveOptions): AdaptiveController {
+  const minConcurrency = Math.max(1, opts.minConcurrency ?? 1);
+  const minRateFactor = opts.minRateFactor ?? 0.05;
+  const intervalMs = opts.intervalMs ?? 2000;
+
+  let window = Math.max(minConcurrency, Math.ceil(opts.maxConcurrency / 4));
+  let rate = Math.max(minRateFactor, 0.25);
+  let latencies: number[] = [];
+  let throttled = 0;
+  let errors = 0;
+  const listeners: Array<(rateFactor: number) => void> = [];
+
+  const setRate = (next: number) => {
+    const clamped = Math.min(1, Math.max(minRateFactor, next));
+    if (clamped === rate) return;
+    rate = clamped;
+    for (const fn of listeners) fn(rate);
+  };
+
+  function evaluate() {
+    const n = latencies.length + errors;
+    if (n === 0) return;
+    const p95 = percentile(latencies, 0.95);
+    const errorRate = errors / n;
+
+    if (throttled > 0 || errorRate > 0.05) {
+      const prev = window;
+      window = Math.max(minConcurrency, Math.floor(window / 2));
+      setRate(rate * 0.7);
+      log.warn(
+        `[adaptive] backing off: throttled=${throttled} errors=${errors}/${n} p95=${p95}ms → window ${prev}→${window}, rate ${(rate * 100).toFixed(0)}%`,
+      );
+    } else if (errors === 0 && p95 <= opts.targetP95Ms) {
+      window = Math.min(opts.maxConcurrency, window + 1);
+      setRate(rate + 0.05);
+      log.debug(`[adaptive] growing: p95=${p95}ms → window=${window}, rate ${(rate * 100).toFixed(0)}%`);
+    }
+
+    latencies = [];
+    throttled = 0;
+    errors = 0;
+  }
+
+  setInterval(evaluate, intervalMs).unref();
+
+  return {
+    concurrency: () => window,
+    rateFactor: () => rate,
+    record: (ms, outcome) => {
+      if (outcome === 'ok') {
+        latencies.push(ms);
+        return;
+      }
+      errors++;
+      if (outcome === 'throttled') throttled++;
+    },
+    onRateChange: (fn) => {
+      listeners.push(fn);
+    },
+    describe: () => `window=${window}/${opts.maxConcurrency} rate=${Math.round(rate * opts.maxRps)}/${opts.maxRps}rps`,
+  };
+}
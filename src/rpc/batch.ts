@@ -0,0 +1,60 @@
+// src/rpc/batch.ts
+/**
+ * This module groups per-height block fetches into JSON-RPC batch requests.
+ */
+import type { BlockParts, RpcClient } from './client.js';
+
+/**
+ * Fetches the block and block results of a height through a shared batch.
+ */
+export type BlockBatcher = {
+  fetch: (height: number) => Promise<BlockParts>;
+};
+
+type Pending = {
+  height: number;
+  resolve: (parts: BlockParts) => void;
+  reject: (e: unknown) => void;
+};
+
+/**
+ * Creates a batcher over `rpc.fetchBlockBatch`. Heights requested in the same tick are sent
+ * together, in batches of at most `size` heights; a full batch is sent right away.
+ *
+ * @param {RpcClient} rpc - Client with `fetchBlockBatch`.
+ * @param {number} size - Maximum heights per batch.
+ * @returns {BlockBatcher} Batcher instance.
+ */
+export function createBlockBatcher(rpc: RpcClient, size: number): BlockBatcher {
+  if (!rpc.fetchBlockBatch) throw new Error('RPC client does not support batch requests');
+  const fetchBatch = rpc.fetchBlockBatch;
+  let pending: Pending[] = [];
+  let scheduled = false;
+
+  function send(batch: Pending[]) {
+    fetchBatch(batch.map((p) => p.height)).then(
+      (parts) => batch.forEach((p, i) => p.resolve(parts[i]!)),
+      (e) => batch.forEach((p) => p.reject(e)),
+    );
+  }
+
+  function flush() {
+    scheduled = false;
+    while (pending.length > 0) send(pending.splice(0, size));
+  }
+
+  function fetch(height: number): Promise<BlockParts> {
+    return new Promise((resolve, reject) => {
+      pending.push({ height, resolve, reject });
+      if (pending.length >= size) {
+        send(pending);
+        pending = [];
+      } else if (!scheduled) {
+        scheduled = true;
+        setImmediate(flush);
+      }
+    });
+  }
+
+  return { fetch };
+}
@@ -0,0 +1,111 @@
+// src/rpc/blockchain.ts
+/**
+ * This module reads transaction counts ahead of the pipeline from `/blockchain` block metas,
+ * so that empty heights can be told apart before their block is fetched.
+ */
+import type { RpcClient } from './client.js';
+import { getLogger } from '../utils/logger.js';
+
+const log = getLogger('rpc/blockchain');
+
+/** Block metas returned per `/blockchain` call (CometBFT's limit). */
+export const HEADERS_PER_CALL = 20;
+
+/** `/blockchain` calls in flight at a time. */
+const MAX_LOADS = 4;
+
+/**
+ * Transaction counts of the heights ahead of a walking cursor.
+ * @property prefetch - Starts loading the windows of the heights ahead of `cursor`; windows behind it are dropped.
+ * @property peek - Count of a height: a number, `undefined` when unknown (failed call or no meta),
+ *   or `'pending'` while its window is still loading.
+ */
+export type TxCountPrefetcher = {
+  prefetch: (cursor: number) => void;
+  peek: (height: number) => number | undefined | 'pending';
+};
+
+/**
+ * Options of {@link createTxCountPrefetcher}.
+ * @property {number} from - Inclusive lower bound of the range.
+ * @property {number} to - Inclusive upper bound of the range.
+ * @property {1 | -1} step - Walking direction: 1 walks up from `from`, -1 down from `to`.
+ * @property {() => void} onLoad - Called after each window settles, loaded or failed.
+ */
+export type TxCountPrefetcherOptions = {
+  from: number;
+  to: number;
+  step: 1 | -1;
+  onLoad: () => void;
+};
+
+/**
+ * Creates a prefetcher over `rpc.fetchBlockchain`. The range is cut into windows of
+ * {@link HEADERS_PER_CALL} heights counted from its first height in walking order. `prefetch`
+ * keeps up to `MAX_LOADS` windows ahead of the cursor loading, so counts are usually known
+ * before the cursor reaches them. A failed window is not retried; its heights are unknown.
+ *
+ * @param {RpcClient} rpc - Client with `fetchBlockchain`.
+ * @param {TxCountPrefetcherOptions} opts - Range, direction and load callback.
+ * @returns {TxCountPrefetcher} Prefetcher instance.
+ */
+export function createTxCountPrefetcher(rpc: RpcClient, opts: TxCountPrefetcherOptions): TxCountPrefetcher {
+  if (!rpc.fetchBlockchain) throw new Error('RPC client does not support /blockchain');
+  const fetchBlockchain = rpc.fetchBlockchain;
+  const { from, to, step, onLoad } = opts;
+  const first = step > 0 ? from : to;
+  const lastWindow = Math.floor((to - from) / HEADERS_PER_CALL);
+  // Loaded windows by index; null marks a failed call.
+  const loaded = new Map<number, Map<number, number> | null>();
+  const loading = new Set<number>();
+  let nextWindow = 0;
+  let cursorWindow = 0;
+
+  const windowOf = (height: number) => Math.floor(Math.abs(height - first) / HEADERS_PER_CALL);
+
+  async function load(k: number): Promise<void> {
+    const a = first + step * k * HEADERS_PER_CALL;
+    const b = first + step * Math.min((k + 1) * HEADERS_PER_CALL - 1, to - from);
+    const [min, max] = a < b ? [a, b] : [b, a];
+    let counts: Map<number, number> | null = null;
+    try {
+      const res = await fetchBlockchain(min, max);
+      counts = new Map();
+      for (const m of res?.block_metas ?? []) {
+        const height = Number(m?.header?.height);
+        const n = Number(m?.num_txs);
+        if (Number.isFinite(height) && Number.isFinite(n)) counts.set(height, n);
+      }
+      log.debug(`[blockchain] ${counts.size} meta(s) for [${min}, ${max}]`);
+    } catch (e: any) {
+      log.warn(`[blockchain] [${min}, ${max}] failed, these heights take the regular path: ${String(e?.message ?? e)}`);
+    }
+    loading.delete(k);
+    if (k >= cursorWindow) loaded.set(k, counts);
+    startLoads();
+    onLoad();
+  }
+
+  function startLoads() {
+    while (loading.size < MAX_LOADS && nextWindow <= Math.min(lastWindow, cursorWindow + MAX_LOADS - 1)) {
+      loading.add(nextWindow);
+      void load(nextWindow++);
+    }
+  }
+
+  function prefetch(cursor: number) {
+    cursorWindow = Math.min(windowOf(cursor), lastWindow + 1);
+    for (const k of loaded.keys()) if (k < cursorWindow) loaded.delete(k);
+    nextWindow = Math.max(nextWindow, cursorWindow);
+    startLoads();
+  }
+
+  function peek(height: number): number | undefined | 'pending' {
+    const k = windowOf(height);
+    if (loaded.has(k)) return loaded.get(k)?.get(height);
+    // Heights behind the cursor (retries) have no window any more; they take the regular path.
+    return k < cursorWindow ? undefined : 'pending';
+  }
+
+  return { prefetch, peek };
+}
@@ -0,0 +1,241 @@
+// src/rpc/cache.ts
+/**
+ * This module stores raw `/block` and `/block_results` responses on disk and serves them back,
+ * either in front of a live RPC client or as a fully offline source.
+ */
+import { randomUUID } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import { gunzip, gzip } from 'node:zlib';
+import type { BlockParts, RpcClient } from './client.js';
+import { getLogger } from '../utils/logger.js';
+
+const log = getLogger('rpc/cache');
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+/** Cached response kinds; each has its own directory tree. */
+export type CacheKind = 'block' | 'block_results';
+
+/** Heights per top-level directory. */
+const SHARD_OUTER = 1_000_000;
+/** Heights per second-level directory. */
+const SHARD_INNER = 1_000;
+
+/**
+ * Returns the file of a cached response: `<dir>/<kind>/<h / 1e6>/<h / 1e3>/<h>.json.gz`.
+ * Two directory levels keep every directory at no more than a thousand entries.
+ *
+ * @param {string} dir - Cache root directory.
+ * @param {CacheKind} kind - Response kind.
+ * @param {number} height - Block height.
+ * @returns {string} File path.
+ */
+export function cacheFile(dir: string, kind: CacheKind, height: number): string {
+  return join(
+    dir,
+    kind,
+    String(Math.floor(height / SHARD_OUTER)),
+    String(Math.floor(height / SHARD_INNER)),
+    `${height}.json.gz`,
+  );
+}
+
+/**
+ * Reads a cached response.
+ * @param {string} dir - Cache root directory.
+ * @param {CacheKind} kind - Response kind.
+ * @param {number} height - Block height.
+ * @returns {Promise<any | undefined>} The `result` object, or undefined when not cached.
+ */
+async function readCached(dir: string, kind: CacheKind, height: number): Promise<any | undefined> {
+  let buf: Buffer;
+  try {
+    buf = await readFile(cacheFile(dir, kind, height));
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return undefined;
+    throw e;
+  }
+  return JSON.parse((await gunzipAsync(buf)).toString('utf8'));
+}
+
+/**
+ * Writes a response to the cache. The file is written under a temporary name and renamed,
+ * so concurrent readers never see a partial file. The temporary name is unique per write, so
+ * concurrent writes of the same height (e.g. a retry racing the original fetch) do not collide.
+ * @param {string} dir - Cache root directory.
+ * @param {CacheKind} kind - Response kind.
+ * @param {number} height - Block height.
+ * @param {any} value - The `result` object to store.
+ * @returns {Promise<void>}
+ */
+async function writeCached(dir: string, kind: CacheKind, height: number, value: any): Promise<void> {
+  const file = cacheFile(dir, kind, height);
+  await mkdir(join(file, '..'), { recursive: true });
+  const tmp = `${file}.${randomUUID()}.tmp`;
+  try {
+    await writeFile(tmp, await gzipAsync(Buffer.from(JSON.stringify(value), 'utf8')));
+    await rename(tmp, file);
+  } catch (e) {
+    await rm(tmp, { force: true });
+    throw e;
+  }
+}
+
+/**
+ * Removes a cached response, if there is one.
+ * @param {string} dir - Cache root directory.
+ * @param {CacheKind} kind - Response kind.
+ * @param {number} height - Block height.
+ * @returns {Promise<void>}
+ */
+async function dropCached(dir: string, kind: CacheKind, height: number): Promise<void> {
+  await rm(cacheFile(dir, kind, height), { force: true });
+}
+
+/**
+ * Lists the numeric entries of a directory in ascending order.
+ * @param {string} dir - Directory.
+ * @param {string} [suffix=''] - Suffix stripped from entry names before parsing.
+ * @returns {Promise<number[]>} Sorted numbers; empty when the directory does not exist.
+ */
+async function numericEntries(dir: string, suffix = ''): Promise<number[]> {
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return [];
+    throw e;
+  }
+  return names
+    .filter((n) => n.endsWith(suffix))
+    .map((n) => Number(n.slice(0, n.length - suffix.length)))
+    .filter((n) => Number.isInteger(n))
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Finds the lowest and highest cached `/block` heights by walking the first and last directories.
+ * @param {string} dir - Cache root directory.
+ * @returns {Promise<{ earliest: number; latest: number } | undefined>} Bounds, or undefined for an empty cache.
+ */
+async function cachedBounds(dir: string): Promise<{ earliest: number; latest: number } | undefined> {
+  const root = join(dir, 'block');
+  const edge = async (pick: (xs: number[]) => number | undefined): Promise<number | undefined> => {
+    const outer = pick(await numericEntries(root));
+    if (outer === undefined) return undefined;
+    const inner = pick(await numericEntries(join(root, String(outer))));
+    if (inner === undefined) return undefined;
+    return pick(await numericEntries(join(root, String(outer), String(inner)), '.json.gz'));
+  };
+  const earliest = await edge((xs) => xs[0]);
+  const latest = await edge((xs) => xs[xs.length - 1]);
+  return earliest !== undefined && latest !== undefined ? { earliest, latest } : undefined;
+}
+
+/**
+ * Wraps an RPC client with a read-through disk cache for `/block` and `/block_results`.
+ * Cached heights are served from disk; missing ones are fetched from `inner` and stored.
+ * Other calls go straight to `inner`. `invalidate` drops a height's responses, e.g. for heights
+ * rolled back after a fork, whose cached responses belong to the abandoned branch.
+ *
+ * @param {RpcClient} inner - Live RPC client.
+ * @param {string} dir - Cache root directory.
+ * @returns {RpcClient} Caching RPC client.
+ */
+export function withRpcCache(inner: RpcClient, dir: string): RpcClient {
+  const cached =
+    (kind: CacheKind, fetch: (height: number) => Promise<any>) =>
+    async (height: number): Promise<any> => {
+      const hit = await readCached(dir, kind, height);
+      if (hit !== undefined) return hit;
+      const value = await fetch(height);
+      // A failed cache write must not fail the height; the response is still good.
+      await writeCached(dir, kind, height, value).catch((e: any) => {
+        log.warn(`[cache] could not store ${kind}@${height}: ${String(e?.message ?? e)}`);
+      });
+      return value;
+    };
+
+  const fetchBlock = cached('block', (h) => inner.fetchBlock(h));
+  const fetchBlockResults = cached('block_results', (h) => inner.fetchBlockResults(h));
+
+  // Heights with both responses cached are served from disk; the rest go to `inner` in one batch.
+  async function fetchBlockBatch(heights: number[]): Promise<BlockParts[]> {
+    const out = await Promise.all(
+      heights.map(async (height) => ({
+        height,
+        block: await readCached(dir, 'block', height),
+        blockResults: await readCached(dir, 'block_results', height),
+      })),
+    );
+    const misses = out.filter((p) => p.block === undefined || p.blockResults === undefined).map((p) => p.height);
+    if (misses.length === 0) return out;
+    const fetched = new Map((await inner.fetchBlockBatch!(misses)).map((p) => [p.height, p]));
+    return Promise.all(
+      out.map(async (p) => {
+        const f = fetched.get(p.height);
+        if (!f) return p;
+        await Promise.all([
+          writeCached(dir, 'block', f.height, f.block),
+          writeCached(dir, 'block_results', f.height, f.blockResults),
+        ]).catch((e: any) => {
+          log.warn(`[cache] could not store height ${f.height}: ${String(e?.message ?? e)}`);
+        });
+        return f;
+      }),
+    );
+  }
+
+  async function invalidate(height: number): Promise<void> {
+    await Promise.all([dropCached(dir, 'block', height), dropCached(dir, 'block_results', height)]);
+  }
+
+  log.info(`[cache] caching /block and /block_results under ${dir}`);
+  return {
+    ...inner,
+    fetchBlock,
+    fetchBlockResults,
+    fetchBlockBatch: inner.fetchBlockBatch ? fetchBlockBatch : undefined,
+    invalidate,
+  };
+}
+
+/**
+ * Creates an offline RpcClient that serves `/block` and `/block_results` from the cache only.
+ *
+ * `fetchStatus` reports the lowest and highest cached `/block` heights as
+ * `earliest_block_height`/`latest_block_height`. A height missing from the cache fails like
+ * an RPC error, so it is retried and then given up on by the regular pipeline.
+ *
+ * @param {string} dir - Cache root directory.
+ * @returns {RpcClient} Offline RPC client.
+ */
+export function createCacheRpcClient(dir: string): RpcClient {
+  const fromCache = (kind: CacheKind) => async (height: number) => {
+    const hit = await readCached(dir, kind, height);
+    if (hit === undefined) throw new Error(`${kind}@${height} is not in the cache at ${dir}`);
+    return hit;
+  };
+
+  return {
+    getJson: async (path: string) => {
+      throw new Error(`${path} is not available with source=cache`);
+    },
+    fetchBlock: fromCache('block'),
+    fetchBlockResults: fromCache('block_results'),
+    fetchStatus: async () => {
+      const bounds = await cachedBounds(dir);
+      if (!bounds) throw new Error(`no cached blocks under ${dir}`);
+      return {
+        sync_info: {
+          earliest_block_height: String(bounds.earliest),
+          latest_block_height: String(bounds.latest),
+        },
+      };
+    },
+    describe: () => `cache ${dir}`,
+  };
+}
@@ -8,6 +8,9 @@ import { Agent, setGlobalDispatcher, fetch } from 'undici';
 import { createTokenBucket, TokenBucket } from './ratelimit.js';
 import { getLogger } from '../utils/logger.js';
 import { LogLevel } from '../types.js';
+import { createRpcPool, parseRpcEndpoints } from './pool.js';
+import { AdaptiveController, createAdaptiveController, parseRetryAfter } from './adaptive.js';
+import { createCacheRpcClient, withRpcCache } from './cache.js';
 
 const agent = new Agent({
   connections: 128,
@@ -25,6 +28,7 @@ setGlobalDispatcher(agent);
  * @property {number} backoffJitter - Jitter factor between 0 and 1.
  * @property {number} rps - Target requests per second for token bucket rate limiting.
  * @property {Record<string, string>=} headers - Optional HTTP headers.
+ * @property {AdaptiveController=} adaptive - Optional controller that receives request outcomes and scales `rps`.
  */
 export type RpcClientOptions = {
   baseUrl: string; // http(s)://host:26657
@@ -34,6 +38,7 @@ export type RpcClientOptions = {
   backoffJitter: number; // 0..1
   rps: number; // target req/s (token bucket)
   headers?: Record<string, string>;
+  adaptive?: AdaptiveController;
 };
 
 /**
@@ -43,12 +48,34 @@ export type RpcClientOptions = {
  * @method fetchBlock - Fetches block data at a given height.
  * @method fetchBlockResults - Fetches block results at a given height.
  * @method fetchStatus - Fetches the node status.
+ * @method fetchBlockBatch - Optional; fetches the blocks and block results of several heights in one request.
+ * @method fetchBlockchain - Optional; fetches the block metas (header, size, tx count) of a height range.
+ * @method describe - Optional one-line summary of endpoint health, for progress logs.
+ * @method invalidate - Optional; drops the cached responses of a height, so the next fetch goes to the node.
+ * @property adaptive - Optional AIMD controller shared with `syncRange` (in-flight window).
  */
 export type RpcClient = {
   getJson: <T = any>(path: string, params?: Record<string, string | number | boolean | undefined>) => Promise<T>;
   fetchBlock: (height: number) => Promise<any>;
   fetchBlockResults: (height: number) => Promise<any>;
   fetchStatus: () => Promise<any>;
+  fetchBlockBatch?: (heights: number[]) => Promise<BlockParts[]>;
+  fetchBlockchain?: (minHeight: number, maxHeight: number) => Promise<any>;
+  describe?: () => string;
+  invalidate?: (height: number) => Promise<void>;
+  adaptive?: AdaptiveController;
+};
+
+/**
+ * Block and block results of one height, as returned by `fetchBlockBatch`.
+ * @property {number} height - Block height.
+ * @property {any} block - `/block` result.
+ * @property {any} blockResults - `/block_results` result.
+ */
+export type BlockParts = {
+  height: number;
+  block: any;
+  blockResults: any;
 };
 
 const log = getLogger('rpc/client');
@@ -99,6 +126,13 @@ function buildUrl(base: string, path: string, params?: Record<string, string | n
  */
 export function createRpcClient(opts: RpcClientOptions): RpcClient {
   const bucket: TokenBucket = createTokenBucket(Math.max(1, Math.floor(opts.rps)), 2);
+  const adaptive = opts.adaptive;
+  // Set from `Retry-After`; requests to this endpoint wait until then.
+  let pausedUntil = 0;
+  if (adaptive) {
+    bucket.setRate(opts.rps * adaptive.rateFactor());
+    adaptive.onRateChange((f) => bucket.setRate(opts.rps * f));
+  }
   const headers: Record<string, string> = {
     accept: 'application/json',
     'accept-encoding': 'gzip, br',
@@ -106,37 +140,67 @@ export function createRpcClient(opts: RpcClientOptions): RpcClient {
     ...(opts.headers ?? {}),
   };
 
-  async function getJson<T = any>(
-    path: string,
-    params?: Record<string, string | number | boolean | undefined>,
-  ): Promise<T> {
-    const url = buildUrl(opts.baseUrl, path, params);
-
+  /**
+   * Sends one HTTP request with rate limiting and retries and returns the parsed JSON body.
+   * @param {string} url - Request URL.
+   * @param {any} [body] - JSON body; the request is a POST when set, a GET otherwise.
+   * @param {number} [tokens=1] - Tokens taken from the bucket per attempt (one per JSON-RPC call).
+   * @returns {Promise<T>} Parsed response body.
+   */
+  async function requestJson<T = any>(url: string, body?: any, tokens = 1): Promise<T> {
     for (let attempt = 0; attempt <= opts.retries; attempt++) {
-      await bucket.take(1);
+      const pause = pausedUntil - Date.now();
+      if (pause > 0) await sleep(pause);
+      await bucket.take(tokens);
 
       const ac = new AbortController();
       const t = setTimeout(() => ac.abort(), opts.timeoutMs);
+      const t0 = Date.now();
 
       try {
-        const res = await fetch(url, { method: 'GET', headers, signal: ac.signal });
+        const res = await fetch(
+          url,
+          body === undefined
+            ? { method: 'GET', headers, signal: ac.signal }
+            : {
+                method: 'POST',
+                headers: { ...headers, 'content-type': 'application/json' },
+                body: JSON.stringify(body),
+                signal: ac.signal,
+              },
+        );
         clearTimeout(t);
 
         if (!res.ok) {
           const text = await res.text().catch(() => '');
-          const err = new Error(`HTTP ${res.status} ${res.statusText} for ${url} :: ${text.slice(0, 200)}`);
+          const err: any = new Error(`HTTP ${res.status} ${res.statusText} for ${url} :: ${text.slice(0, 200)}`);
+          err.status = res.status;
+          const retryAfterMs =
+            res.status === 429 || res.status === 503 ? parseRetryAfter(res.headers.get('retry-after')) : undefined;
+          if (res.status === 429 || retryAfterMs !== undefined) {
+            adaptive?.record(Date.now() - t0, 'throttled');
+          } else if (res.status >= 500) {
+            adaptive?.record(Date.now() - t0, 'error');
+          }
+          if (retryAfterMs !== undefined) pausedUntil = Math.max(pausedUntil, Date.now() + retryAfterMs);
+          err.retryAfterMs = retryAfterMs;
+          err.recorded = true;
           if ((res.status >= 500 || res.status === 429) && attempt < opts.retries) {
-            const delay = jitter(opts.backoffMs * Math.pow(2, attempt), opts.backoffJitter);
-            log.debug('retry http', { attempt, delay, status: res.status });
+            const backoff = jitter(opts.backoffMs * Math.pow(2, attempt), opts.backoffJitter);
+            const delay = Math.max(backoff, retryAfterMs ?? 0);
+            log.debug('retry http', { attempt, delay, status: res.status, retryAfterMs });
             await sleep(delay);
             continue;
           }
           throw err;
         }
 
-        return (await res.json()) as T;
+        const json = (await res.json()) as T;
+        adaptive?.record(Date.now() - t0, 'ok');
+        return json;
       } catch (e: any) {
         clearTimeout(t);
+        if (!e?.recorded) adaptive?.record(Date.now() - t0, e?.name === 'AbortError' ? 'timeout' : 'error');
         const transient = e?.name === 'AbortError' || e?.code === 'ECONNRESET' || e?.code === 'ETIMEDOUT';
         if (transient && attempt < opts.retries) {
           const delay = jitter(opts.backoffMs * Math.pow(2, attempt), opts.backoffJitter);
@@ -150,6 +214,13 @@ export function createRpcClient(opts: RpcClientOptions): RpcClient {
     throw new Error('unreachable');
   }
 
+  async function getJson<T = any>(
+    path: string,
+    params?: Record<string, string | number | boolean | undefined>,
+  ): Promise<T> {
+    return requestJson<T>(buildUrl(opts.baseUrl, path, params));
+  }
+
   async function fetchBlock(height: number): Promise<any> {
     const j = await getJson<any>('/block', { height });
     return j.result ?? j;
@@ -160,24 +231,69 @@ export function createRpcClient(opts: RpcClientOptions): RpcClient {
     return j.result ?? j;
   }
 
+  async function fetchBlockchain(minHeight: number, maxHeight: number): Promise<any> {
+    const j = await getJson<any>('/blockchain', { minHeight, maxHeight });
+    return j.result ?? j;
+  }
+
   async function fetchStatus(): Promise<any> {
     const j = await getJson<any>('/status');
     return j.result ?? j;
   }
 
-  return { getJson, fetchBlock, fetchBlockResults, fetchStatus };
+  /**
+   * Fetches `/block` and `/block_results` of every height in one JSON-RPC 2.0 batch POST, which
+   * takes one bucket token per call. Elements that come back with an error (or not at all) are
+   * fetched again one by one; if the batch itself fails, every height is.
+   */
+  async function fetchBlockBatch(heights: number[]): Promise<BlockParts[]> {
+    const calls = heights.flatMap((h, i) => [
+      { jsonrpc: '2.0', id: 2 * i, method: 'block', params: { height: String(h) } },
+      { jsonrpc: '2.0', id: 2 * i + 1, method: 'block_results', params: { height: String(h) } },
+    ]);
+    const byId = new Map<number, any>();
+    try {
+      const res = await requestJson<any>(opts.baseUrl, calls, calls.length);
+      if (!Array.isArray(res)) throw new Error('batch response is not an array');
+      for (const item of res) {
+        if (item && item.error == null && item.result != null) byId.set(Number(item.id), item.result);
+      }
+    } catch (e: any) {
+      log.warn(`[rpc] batch of ${heights.length} height(s) failed, fetching them one by one: ${e?.message ?? e}`);
+    }
+    const missing = calls.length - byId.size;
+    if (missing > 0 && byId.size > 0) log.debug(`[rpc] ${missing} batch element(s) failed, fetching them one by one`);
+    return Promise.all(
+      heights.map(async (height, i) => {
+        const [block, blockResults] = await Promise.all([
+          byId.get(2 * i) ?? fetchBlock(height),
+          byId.get(2 * i + 1) ?? fetchBlockResults(height),
+        ]);
+        return { height, block, blockResults };
+      }),
+    );
+  }
+
+  return { getJson, fetchBlock, fetchBlockResults, fetchStatus, fetchBlockBatch, fetchBlockchain, adaptive };
 }
 
 /**
  * Creates an RpcClient from a simplified configuration object.
+ * A single plain URL gives a direct client; a comma-separated list (or any `|weight=`/`|rps=` parameter)
+ * gives a pooled client with failover (see {@link createRpcPool}).
  * @param {object} cfg - Configuration object.
- * @param {string} cfg.rpcUrl - RPC endpoint URL.
+ * @param {string} cfg.rpcUrl - RPC endpoint URL or endpoint list.
  * @param {number} cfg.timeoutMs - Per-request timeout in milliseconds.
  * @param {number} cfg.retries - Number of retries for transient errors.
  * @param {number} cfg.backoffMs - Base backoff delay in milliseconds.
  * @param {number} cfg.backoffJitter - Jitter factor between 0 and 1.
  * @param {number} cfg.rps - Target requests per second for token bucket rate limiting.
  * @param {LogLevel} cfg.logLevel - Optional log level.
+ * @param {boolean} cfg.adaptive - When true, `concurrency` and `rps` become ceilings of an AIMD controller.
+ * @param {number} cfg.concurrency - In-flight ceiling for the adaptive controller.
+ * @param {number} cfg.adaptiveTargetP95Ms - p95 latency the adaptive controller aims to stay under.
+ * @param {string} cfg.rpcCacheDir - When set, `/block` and `/block_results` responses are cached on disk.
+ * @param {'rpc' | 'cache'} cfg.source - With `cache`, blocks are read from `rpcCacheDir` only, without network.
  * @returns {RpcClient} Configured RPC client instance.
  */
 export function createRpcClientFromConfig(cfg: {
@@ -188,7 +304,43 @@ export function createRpcClientFromConfig(cfg: {
   backoffJitter: number;
   rps: number;
   logLevel?: LogLevel;
-}) {
+  adaptive?: boolean;
+  concurrency?: number;
+  adaptiveTargetP95Ms?: number;
+  rpcCacheDir?: string;
+  source?: 'rpc' | 'cache';
+}): RpcClient {
+  if (cfg.source === 'cache') {
+    if (!cfg.rpcCacheDir) throw new Error('source=cache requires RPC_CACHE_DIR');
+    return createCacheRpcClient(cfg.rpcCacheDir);
+  }
+  const client = createLiveRpcClient(cfg);
+  return cfg.rpcCacheDir ? withRpcCache(client, cfg.rpcCacheDir) : client;
+}
+
+/**
+ * Creates the network RpcClient described by {@link createRpcClientFromConfig}, without the cache.
+ * @param {Parameters<typeof createRpcClientFromConfig>[0]} cfg - Configuration object.
+ * @returns {RpcClient} Direct or pooled RPC client.
+ */
+function createLiveRpcClient(cfg: Parameters<typeof createRpcClientFromConfig>[0]): RpcClient {
+  const adaptive = cfg.adaptive
+    ? createAdaptiveController({
+        maxConcurrency: cfg.concurrency ?? 48,
+        maxRps: cfg.rps,
+        targetP95Ms: cfg.adaptiveTargetP95Ms ?? 2000,
+      })
+    : undefined;
+  const endpoints = parseRpcEndpoints(cfg.rpcUrl, cfg.rps);
+  if (endpoints.length > 1 || cfg.rpcUrl.includes('|')) {
+    return createRpcPool(endpoints, {
+      timeoutMs: cfg.timeoutMs,
+      retries: cfg.retries,
+      backoffMs: cfg.backoffMs,
+      backoffJitter: cfg.backoffJitter,
+      adaptive,
+    });
+  }
   return createRpcClient({
     baseUrl: cfg.rpcUrl,
     timeoutMs: cfg.timeoutMs,
@@ -196,5 +348,6 @@ export function createRpcClientFromConfig(cfg: {
     backoffMs: cfg.backoffMs,
     backoffJitter: cfg.backoffJitter,
     rps: cfg.rps,
+    adaptive,
   });
 }
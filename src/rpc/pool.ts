@@ -0,0 +1,288 @@
+// src/rpc/pool.ts
+/**
+ * This module spreads RPC requests over several endpoints with per-endpoint rate limits,
+ * health scoring, failover and height-aware routing.
+ */
+import { createRpcClient, RpcClient, RpcClientOptions } from './client.js';
+import { getLogger } from '../utils/logger.js';
+
+const log = getLogger('rpc/pool');
+
+/** Smoothing factor of the latency moving average. */
+const LATENCY_ALPHA = 0.2;
+/** Smoothing factor of the error-rate moving average. */
+const ERROR_ALPHA = 0.1;
+/** Consecutive failures after which an endpoint is put on cooldown. */
+const COOLDOWN_AFTER_FAILURES = 3;
+/** First cooldown period; doubled for every further failure, up to {@link MAX_COOLDOWN_MS}. */
+const BASE_COOLDOWN_MS = 5_000;
+const MAX_COOLDOWN_MS = 5 * 60_000;
+/** Latency at which an endpoint's score is halved; keeps weights meaningful among fast nodes. */
+const LATENCY_REF_MS = 250;
+/** Node heights from `/status` are refreshed in the background when older than this. */
+const STATUS_MAX_AGE_MS = 60_000;
+
+/**
+ * One endpoint of `RPC_URL`.
+ * @property {string} url - RPC endpoint URL.
+ * @property {number} weight - Relative share of traffic when endpoints are equally healthy.
+ * @property {number} rps - Requests per second allowed against this endpoint.
+ */
+export type RpcEndpointSpec = {
+  url: string;
+  weight: number;
+  rps: number;
+};
+
+/**
+ * Parses a comma-separated endpoint list. Each entry is a URL optionally followed by
+ * `|weight=<n>` and `|rps=<n>`, e.g. `https://a:26657|weight=3|rps=100,https://b:26657`.
+ *
+ * @param {string} raw - Raw `RPC_URL` value.
+ * @param {number} defaultRps - Rate used for entries without `rps=`.
+ * @returns {RpcEndpointSpec[]} Parsed endpoints.
+ * @throws {Error} If an entry is not an http(s) URL or a parameter is invalid.
+ */
+export function parseRpcEndpoints(raw: string, defaultRps: number): RpcEndpointSpec[] {
+  const out: RpcEndpointSpec[] = [];
+  for (const entry of raw.split(',')) {
+    const [urlPart, ...params] = entry.trim().split('|');
+    const url = (urlPart ?? '').trim();
+    if (!url) continue;
+    if (!url.startsWith('http://') && !url.startsWith('https://')) {
+      throw new Error(`RPC_URL entries must start with http:// or https://, got "${url}"`);
+    }
+    const spec: RpcEndpointSpec = { url, weight: 1, rps: defaultRps };
+    for (const p of params) {
+      const [k, v] = p.split('=').map((x) => x.trim());
+      const n = Number(v);
+      if ((k !== 'weight' && k !== 'rps') || !Number.isFinite(n) || n <= 0) {
+        throw new Error(`Invalid RPC_URL parameter "${p}" for ${url} (expected weight=<n> or rps=<n>)`);
+      }
+      spec[k] = n;
+    }
+    out.push(spec);
+  }
+  if (out.length === 0) throw new Error('RPC_URL must contain at least one endpoint');
+  return out;
+}
+
+/**
+ * Runtime state of one endpoint.
+ */
+type Endpoint = {
+  spec: RpcEndpointSpec;
+  client: RpcClient;
+  label: string;
+  latencyMs: number;
+  errorRate: number;
+  failures: number;
+  downUntil: number;
+  earliest?: number;
+  latest?: number;
+  statusAt: number;
+};
+
+/**
+ * Applies jitter to a base value.
+ * @param {number} base - Base value.
+ * @param {number} j - Jitter factor (0..1).
+ * @returns {number} Value after applying jitter.
+ */
+function jitter(base: number, j: number) {
+  if (j <= 0) return base;
+  return base + (Math.random() * 2 - 1) * base * j;
+}
+
+/**
+ * Creates an RpcClient backed by several endpoints.
+ *
+ * Every endpoint has its own token bucket. Requests go to a healthy endpoint picked at random in
+ * proportion to `weight / ((1 + latency / 250ms) * (1 + 10 * errorRate))`. A failed request is retried on another
+ * endpoint. Endpoints with repeated failures are put on a growing cooldown. Requests for a height are
+ * only sent to nodes whose `/status` range covers it (nodes with unknown range are always eligible).
+ *
+ * @param {RpcEndpointSpec[]} specs - Endpoints to use.
+ * @param {Omit<RpcClientOptions, 'baseUrl' | 'rps'>} opts - Shared timeout and retry options.
+ * @returns {RpcClient} Pooled RPC client; `describe()` reports per-endpoint health.
+ */
+export function createRpcPool(specs: RpcEndpointSpec[], opts: Omit<RpcClientOptions, 'baseUrl' | 'rps'>): RpcClient {
+  const endpoints: Endpoint[] = specs.map((spec) => ({
+    spec,
+    // Retries are done by the pool, so that they can go to another endpoint.
+    client: createRpcClient({ ...opts, baseUrl: spec.url, rps: spec.rps, retries: 0 }),
+    label: new URL(spec.url).host,
+    latencyMs: 200,
+    errorRate: 0,
+    failures: 0,
+    downUntil: 0,
+    statusAt: 0,
+  }));
+
+  function score(ep: Endpoint): number {
+    return ep.spec.weight / ((1 + ep.latencyMs / LATENCY_REF_MS) * (1 + 10 * ep.errorRate));
+  }
+
+  function covers(ep: Endpoint, height?: number, last = height): boolean {
+    if (height === undefined || last === undefined) return true;
+    if (ep.earliest !== undefined && height < ep.earliest) return false;
+    if (ep.latest !== undefined && last > ep.latest) return false;
+    return true;
+  }
+
+  /**
+   * Picks an endpoint for a request, preferring ones not tried yet and not on cooldown.
+   * With `last`, the endpoint must cover every height from `height` to `last`.
+   */
+  function pick(height: number | undefined, tried: Set<Endpoint>, last = height): Endpoint {
+    const now = Date.now();
+    const eligible = endpoints.filter((ep) => covers(ep, height, last));
+    // Nodes report their range with a delay; if nobody covers the height, try everyone.
+    const base = eligible.length > 0 ? eligible : endpoints;
+    const tiers = [
+      base.filter((ep) => !tried.has(ep) && ep.downUntil <= now),
+      base.filter((ep) => ep.downUntil <= now),
+      base.filter((ep) => !tried.has(ep)),
+      base,
+    ];
+    const candidates = tiers.find((t) => t.length > 0)!;
+    const total = candidates.reduce((acc, ep) => acc + score(ep), 0);
+    let r = Math.random() * total;
+    for (const ep of candidates) {
+      r -= score(ep);
+      if (r <= 0) return ep;
+    }
+    return candidates[candidates.length - 1]!;
+  }
+
+  function recordSuccess(ep: Endpoint, ms: number) {
+    ep.latencyMs = ep.latencyMs * (1 - LATENCY_ALPHA) + ms * LATENCY_ALPHA;
+    ep.errorRate = ep.errorRate * (1 - ERROR_ALPHA);
+    if (ep.failures >= COOLDOWN_AFTER_FAILURES) log.info(`[pool] ${ep.label} is healthy again`);
+    ep.failures = 0;
+    ep.downUntil = 0;
+  }
+
+  function recordFailure(ep: Endpoint, ms: number, e: any) {
+    ep.latencyMs = ep.latencyMs * (1 - LATENCY_ALPHA) + ms * LATENCY_ALPHA;
+    ep.errorRate = ep.errorRate * (1 - ERROR_ALPHA) + ERROR_ALPHA;
+    ep.failures++;
+    // A throttling endpoint is skipped for as long as it asked.
+    if (e?.retryAfterMs !== undefined) ep.downUntil = Math.max(ep.downUntil, Date.now() + e.retryAfterMs);
+    if (ep.failures >= COOLDOWN_AFTER_FAILURES) {
+      const cooldown = Math.min(MAX_COOLDOWN_MS, BASE_COOLDOWN_MS * Math.pow(2, ep.failures - COOLDOWN_AFTER_FAILURES));
+      ep.downUntil = Date.now() + cooldown;
+      log.warn(`[pool] ${ep.label} down for ${cooldown}ms after ${ep.failures} failures: ${String(e?.message ?? e)}`);
+    }
+  }
+
+  function applyStatus(ep: Endpoint, st: any) {
+    const earliest = Number(st?.sync_info?.earliest_block_height);
+    const latest = Number(st?.sync_info?.latest_block_height);
+    if (Number.isFinite(earliest)) ep.earliest = earliest;
+    if (Number.isFinite(latest)) ep.latest = latest;
+    ep.statusAt = Date.now();
+  }
+
+  async function callOn<T>(ep: Endpoint, fn: (c: RpcClient) => Promise<T>): Promise<T> {
+    const t0 = Date.now();
+    try {
+      const out = await fn(ep.client);
+      recordSuccess(ep, Date.now() - t0);
+      return out;
+    } catch (e) {
+      recordFailure(ep, Date.now() - t0, e);
+      throw e;
+    }
+  }
+
+  async function refreshStatus(ep: Endpoint): Promise<any> {
+    const st = await callOn(ep, (c) => c.fetchStatus());
+    applyStatus(ep, st);
+    return st;
+  }
+
+  function refreshStaleStatuses() {
+    const now = Date.now();
+    for (const ep of endpoints) {
+      if (now - ep.statusAt < STATUS_MAX_AGE_MS || ep.downUntil > now) continue;
+      ep.statusAt = now;
+      refreshStatus(ep).catch(() => {});
+    }
+  }
+
+  async function withFailover<T>(
+    height: number | undefined,
+    fn: (c: RpcClient) => Promise<T>,
+    last = height,
+  ): Promise<T> {
+    refreshStaleStatuses();
+    const tried = new Set<Endpoint>();
+    let lastErr: unknown;
+    for (let attempt = 0; attempt <= opts.retries; attempt++) {
+      const ep = pick(height, tried, last);
+      // Only back off when the request goes to an endpoint that already failed it.
+      if (tried.has(ep))
+        await new Promise((r) => setTimeout(r, jitter(opts.backoffMs * Math.pow(2, attempt), opts.backoffJitter)));
+      tried.add(ep);
+      try {
+        return await callOn(ep, fn);
+      } catch (e: any) {
+        lastErr = e;
+        log.debug('failover', { attempt, endpoint: ep.label, height, error: String(e?.message ?? e) });
+      }
+    }
+    throw lastErr;
+  }
+
+  /**
+   * Queries every endpoint and returns the status of the most advanced node, with
+   * `earliest_block_height` set to the lowest height any responding node can serve.
+   */
+  async function fetchStatus(): Promise<any> {
+    const results = await Promise.allSettled(endpoints.map((ep) => refreshStatus(ep)));
+    let best: any;
+    let earliest: number | undefined;
+    for (const r of results) {
+      if (r.status !== 'fulfilled') continue;
+      const st = r.value;
+      const e = Number(st?.sync_info?.earliest_block_height);
+      if (Number.isFinite(e)) earliest = earliest === undefined ? e : Math.min(earliest, e);
+      if (!best || Number(st?.sync_info?.latest_block_height) > Number(best?.sync_info?.latest_block_height)) best = st;
+    }
+    if (!best) {
+      const first = results[0];
+      throw first && first.status === 'rejected' ? first.reason : new Error('no RPC endpoint answered /status');
+    }
+    return earliest === undefined
+      ? best
+      : { ...best, sync_info: { ...best.sync_info, earliest_block_height: String(earliest) } };
+  }
+
+  function describe(): string {
+    const now = Date.now();
+    return endpoints
+      .map((ep) => {
+        const state = ep.downUntil > now ? `down ${Math.ceil((ep.downUntil - now) / 1000)}s` : 'up';
+        return `${ep.label} ${state} ${Math.round(ep.latencyMs)}ms err=${(ep.errorRate * 100).toFixed(0)}%`;
+      })
+      .join(', ');
+  }
+
+  return {
+    getJson: <T = any>(path: string, params?: Record<string, string | number | boolean | undefined>) => {
+      const h = params?.height !== undefined ? Number(params.height) : undefined;
+      return withFailover(Number.isFinite(h) ? h : undefined, (c) => c.getJson<T>(path, params));
+    },
+    fetchBlock: (height: number) => withFailover(height, (c) => c.fetchBlock(height)),
+    fetchBlockResults: (height: number) => withFailover(height, (c) => c.fetchBlockResults(height)),
+    // The whole batch goes to one endpoint that serves all of its heights.
+    fetchBlockBatch: (heights: number[]) =>
+      withFailover(Math.min(...heights), (c) => c.fetchBlockBatch!(heights), Math.max(...heights)),
+    fetchBlockchain: (minHeight: number, maxHeight: number) =>
+      withFailover(minHeight, (c) => c.fetchBlockchain!(minHeight, maxHeight), maxHeight),
+    fetchStatus,
+    describe,
+    adaptive: opts.adaptive,
+  };
+}
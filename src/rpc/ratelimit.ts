@@ -8,10 +8,11 @@ import { getLogger } from '../utils/logger.js';
 const logger = getLogger('rpc/ratelimit');
 
 /**
- * Represents a token bucket with a method to take tokens.
+ * Represents a token bucket with a method to take tokens and one to change its refill rate.
  */
 export type TokenBucket = {
   take: (n?: number) => Promise<void>;
+  setRate: (rps: number) => void;
 };
 
 /**
@@ -22,12 +23,12 @@ export type TokenBucket = {
  * @returns {TokenBucket} A token bucket instance with a take method to consume tokens.
  */
 export function createTokenBucket(rps: number, burstMultiplier = 2): TokenBucket {
-  const capacity = Math.max(1, Math.floor(rps * burstMultiplier));
+  let capacity = Math.max(1, Math.floor(rps * burstMultiplier));
   let tokens = capacity;
   /**
    * tokens/ms
    */
-  const refillPerMs = rps / 1000;
+  let refillPerMs = rps / 1000;
   let last = Date.now();
 
   function refill() {
@@ -62,5 +63,20 @@ export function createTokenBucket(rps: number, burstMultiplier = 2): TokenBucket
     logger.debug(`took ${n} token(s), remaining=${tokens.toFixed(2)}`);
   }
 
-  return { take };
+  /**
+   * Changes the refill rate (and burst capacity) of the bucket. Tokens already accumulated are kept
+   * up to the new capacity.
+   *
+   * @param {number} next - New rate in requests per second.
+   */
+  function setRate(next: number): void {
+    refill();
+    const r = Math.max(0.1, next);
+    refillPerMs = r / 1000;
+    capacity = Math.max(1, Math.floor(r * burstMultiplier));
+    tokens = Math.min(tokens, capacity);
+    logger.debug(`rate set to ${r.toFixed(2)} rps`);
+  }
+
+  return { take, setRate };
 }
@@ -0,0 +1,178 @@
+// src/rpc/ws.ts
+/**
+ * This module subscribes to CometBFT `NewBlock` events over the `/websocket` endpoint
+ * and keeps the subscription alive with reconnects.
+ */
+// @ts-ignore
+import WebSocket from 'ws';
+import { getLogger } from '../utils/logger.js';
+
+const log = getLogger('rpc/ws');
+
+/** JSON-RPC subscription query for new block announcements. */
+const NEW_BLOCK_QUERY = "tm.event='NewBlock'";
+
+/**
+ * Options for the `NewBlock` subscription.
+ * @property {string} url - WebSocket endpoint, e.g. `ws://host:26657/websocket`.
+ * @property {number} reconnectBackoffMs - Initial delay before reconnecting; doubled after each failed attempt.
+ * @property {number} maxReconnectBackoffMs - Upper bound for the reconnect delay.
+ * @property {number} connectTimeoutMs - How long to wait for the socket to open.
+ */
+export type NewBlockSubscriptionOptions = {
+  url: string;
+  reconnectBackoffMs: number;
+  maxReconnectBackoffMs: number;
+  connectTimeoutMs: number;
+};
+
+/**
+ * Live `NewBlock` subscription.
+ * @property {() => boolean} connected - True while the socket is open and subscribed.
+ * @property {() => number | undefined} latest - Highest announced height since start, if any.
+ * @property {(afterHeight: number, timeoutMs: number, signal?: AbortSignal) => Promise<boolean>} waitForBlock -
+ *   Resolves `true` as soon as a height above `afterHeight` is announced, `false` on timeout, abort or disconnect.
+ * @property {() => void} close - Closes the socket and stops reconnecting.
+ */
+export type NewBlockSubscription = {
+  connected: () => boolean;
+  latest: () => number | undefined;
+  waitForBlock: (afterHeight: number, timeoutMs: number, signal?: AbortSignal) => Promise<boolean>;
+  close: () => void;
+};
+
+/**
+ * Derives the CometBFT WebSocket endpoint from an RPC URL (`http` → `ws`, `https` → `wss`, path `/websocket`).
+ * For an endpoint list, the first endpoint is used.
+ * @param {string} rpcUrl - HTTP(S) RPC endpoint or endpoint list.
+ * @returns {string} WebSocket URL.
+ */
+export function toWebSocketUrl(rpcUrl: string): string {
+  const first = rpcUrl.split(',')[0]!.split('|')[0]!.trim();
+  const u = new URL(first);
+  u.protocol = u.protocol === 'https:' ? 'wss:' : 'ws:';
+  u.pathname = u.pathname.replace(/\/+$/, '') + '/websocket';
+  u.search = '';
+  return u.toString();
+}
+
+/**
+ * Extracts the block height from a `NewBlock` event message, if it is one.
+ * @param {any} msg - Parsed JSON-RPC message.
+ * @returns {number | undefined} Announced height.
+ */
+function newBlockHeight(msg: any): number | undefined {
+  const data = msg?.result?.data;
+  const raw = data?.value?.block?.header?.height ?? msg?.result?.events?.['block.height']?.[0];
+  const h = Number(raw);
+  return Number.isFinite(h) && h > 0 ? h : undefined;
+}
+
+/**
+ * Opens a `NewBlock` subscription and keeps it alive.
+ * When the socket closes or cannot be opened, it reconnects with exponential backoff until {@link NewBlockSubscription.close} is called.
+ *
+ * @param {NewBlockSubscriptionOptions} opts - Subscription options.
+ * @returns {NewBlockSubscription} The subscription handle.
+ */
+export function subscribeNewBlocks(opts: NewBlockSubscriptionOptions): NewBlockSubscription {
+  let ws: any;
+  let isConnected = false;
+  let closed = false;
+  let latest: number | undefined;
+  let backoff = opts.reconnectBackoffMs;
+  let reconnectTimer: NodeJS.Timeout | undefined;
+  const waiters = new Set<(announced: boolean) => void>();
+
+  const notify = (announced: boolean) => {
+    for (const w of [...waiters]) w(announced);
+  };
+
+  const scheduleReconnect = () => {
+    if (closed || reconnectTimer) return;
+    const delay = Math.min(backoff, opts.maxReconnectBackoffMs);
+    backoff = Math.min(backoff * 2, opts.maxReconnectBackoffMs);
+    log.warn(`[ws] reconnecting to ${opts.url} in ${delay}ms`);
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = undefined;
+      connect();
+    }, delay);
+  };
+
+  const connect = () => {
+    if (closed) return;
+    const sock = new WebSocket(opts.url, { handshakeTimeout: opts.connectTimeoutMs });
+    ws = sock;
+
+    sock.on('open', () => {
+      sock.send(JSON.stringify({ jsonrpc: '2.0', method: 'subscribe', id: 1, params: { query: NEW_BLOCK_QUERY } }));
+    });
+
+    sock.on('message', (buf: Buffer) => {
+      let msg: any;
+      try {
+        msg = JSON.parse(buf.toString());
+      } catch {
+        return;
+      }
+      if (msg?.error) {
+        log.warn(`[ws] subscription error: ${JSON.stringify(msg.error)}`);
+        sock.close();
+        return;
+      }
+      if (msg?.id === 1 && !isConnected) {
+        isConnected = true;
+        backoff = opts.reconnectBackoffMs;
+        log.info(`[ws] subscribed to ${NEW_BLOCK_QUERY} at ${opts.url}`);
+      }
+      const h = newBlockHeight(msg);
+      if (h !== undefined && (latest === undefined || h > latest)) {
+        latest = h;
+        notify(true);
+      }
+    });
+
+    sock.on('error', (e: any) => {
+      log.warn(`[ws] ${opts.url}: ${String(e?.message ?? e)}`);
+    });
+
+    sock.on('close', () => {
+      const was = isConnected;
+      isConnected = false;
+      if (ws === sock) ws = undefined;
+      if (was && !closed) log.warn(`[ws] connection to ${opts.url} closed`);
+      notify(false);
+      scheduleReconnect();
+    });
+  };
+
+  connect();
+
+  return {
+    connected: () => isConnected,
+    latest: () => latest,
+    waitForBlock: (afterHeight, timeoutMs, signal) => {
+      if (latest !== undefined && latest > afterHeight) return Promise.resolve(true);
+      if (!isConnected || signal?.aborted) return Promise.resolve(false);
+      return new Promise<boolean>((resolve) => {
+        const done = (announced: boolean) => {
+          if (announced && (latest ?? 0) <= afterHeight) return;
+          waiters.delete(done);
+          clearTimeout(t);
+          signal?.removeEventListener('abort', onAbort);
+          resolve(announced);
+        };
+        const onAbort = () => done(false);
+        const t = setTimeout(() => done(false), timeoutMs);
+        waiters.add(done);
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+    },
+    close: () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      notify(false);
+      ws?.close();
+    },
+  };
+}
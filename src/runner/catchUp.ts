@@ -0,0 +1,266 @@
+/**
+ * Background catch-up of extractors that are new or whose version changed: rebuilds their tables
+ * from the rows stored in `core.*` while the tip keeps indexing. Extractors that read the assembled
+ * block are rebuilt from the RPC cache when one is configured.
+ */
+
+// src/runner/catchUp.ts
+import type { Pool } from 'pg';
+import { getLogger } from '../utils/logger.ts';
+import { storedHeightBounds } from '../db/gaps.ts';
+import { ensureCorePartitions } from '../db/partitions.ts';
+import { loadStoredTxs, deleteDerivedRows, deleteDerivedRowsAt } from '../db/rederive.ts';
+import {
+  advanceExtractorBackfill,
+  listExtractorProgress,
+  claimPendingExtractor,
+  lockExtractorProgress,
+  releaseExtractorClaim,
+  planExtractorBackfill,
+} from '../db/extractorProgress.ts';
+import { assembleBlockJsonFromParts } from '../assemble/blockJson.ts';
+import { createTxDecodePool } from '../decode/txPool.ts';
+import { findUpgradeNames } from '../decode/protoManifest.ts';
+import { createCacheRpcClient } from '../rpc/cache.ts';
+import { extractBlockRows, flushExtractorRows } from '../sink/pg/derive.ts';
+import { findExtractor, getExtractors, isRebuildable, partitionedTables } from '../sink/pg/extractors/index.ts';
+import type { ExtractedRows, Extractor } from '../sink/pg/extractors/index.ts';
+import { deriveStored } from './rederive.ts';
+import type { CaseMode } from './syncRange.ts';
+
+const log = getLogger('runner/catchUp');
+
+/**
+ * Source of the assembled blocks that `fromBlock` extractors are rebuilt from: the raw responses
+ * in the RPC cache, decoded and assembled again like the tip does.
+ *
+ * @property rpcCacheDir - Cache root directory (`RPC_CACHE_DIR`).
+ * @property decodePool - Pool decoding the cached transactions.
+ * @property caseMode - Key case of the assembled blocks.
+ */
+export interface CachedBlockSource {
+  rpcCacheDir: string;
+  decodePool: ReturnType<typeof createTxDecodePool>;
+  caseMode: CaseMode;
+}
+
+/**
+ * Options for {@link startExtractorCatchUp}.
+ *
+ * @property windowSize - Heights rebuilt per transaction.
+ * @property signal - Optional abort signal; the loop stops after the current window commits.
+ * @property blocks - Optional cached blocks; without them `fromBlock` extractors are not rebuilt.
+ */
+export interface CatchUpOptions {
+  windowSize: number;
+  signal?: AbortSignal;
+  blocks?: CachedBlockSource;
+}
+
+/**
+ * Returns the extractors a catch-up can rebuild: those reading only core rows, and with cached
+ * blocks also those reading the assembled block.
+ *
+ * @param blocks - Optional cached blocks.
+ * @returns Extractors to track.
+ */
+function catchUpExtractors(blocks?: CachedBlockSource): Extractor[] {
+  return getExtractors().filter((e) => isRebuildable(e) || blocks !== undefined);
+}
+
+/**
+ * Assembles the cached blocks of `[from, to]`. Heights missing from the cache are counted and
+ * left out.
+ *
+ * @param blocks - Cached block source.
+ * @param from - First height (inclusive).
+ * @param to - Last height (inclusive).
+ * @returns Assembled blocks in height order and the number of missing heights.
+ */
+async function loadCachedBlocks(
+  blocks: CachedBlockSource,
+  from: number,
+  to: number,
+): Promise<{ lines: any[]; missing: number }> {
+  const rpc = createCacheRpcClient(blocks.rpcCacheDir);
+  const lines: any[] = [];
+  let missing = 0;
+  for (let h = from; h <= to; h++) {
+    let b: any;
+    let br: any;
+    try {
+      [b, br] = await Promise.all([rpc.fetchBlock(h), rpc.fetchBlockResults(h)]);
+    } catch (e: any) {
+      log.debug(`[extractors] height ${h} not rebuilt from the cache: ${String(e?.message ?? e)}`);
+      missing++;
+      continue;
+    }
+    blocks.decodePool.noteUpgrades(h, findUpgradeNames(br));
+    const txs = await blocks.decodePool.submitBlock(h, b?.block?.data?.txs ?? []);
+    lines.push(await assembleBlockJsonFromParts(rpc, b, br, txs.decoded, blocks.caseMode, txs));
+  }
+  return { lines, missing };
+}
+
+/**
+ * Handle returned by {@link startExtractorCatchUp}.
+ *
+ * @property stop - Stops after the current window and waits for it to commit.
+ * @property done - Resolves when nothing is left to rebuild or the loop was stopped.
+ */
+export interface CatchUpLoop {
+  stop: () => Promise<void>;
+  done: Promise<void>;
+}
+
+/**
+ * Compares the registered extractor versions with `core.extractor_progress` and schedules a
+ * rebuild of the stored heights for every extractor that is new or out of date.
+ * Must run before the tip writes anything, so that heights above the stored ones are known
+ * to be written with the current versions.
+ *
+ * @param pool - PostgreSQL connection pool.
+ * @param blocks - Optional cached blocks; `fromBlock` extractors are only tracked with them.
+ * @returns Names of the extractors with a pending rebuild.
+ */
+export async function planExtractors(pool: Pool, blocks?: CachedBlockSource): Promise<string[]> {
+  const bounds = await storedHeightBounds(pool);
+  const extractors = catchUpExtractors(blocks);
+  const planned = await planExtractorBackfill(pool, extractors, bounds?.from ?? null, bounds?.to ?? null);
+  for (const name of planned) {
+    log.info(`[extractors] ${name} is new or out of date → rebuilding [${bounds?.from}, ${bounds?.to}]`);
+  }
+
+  const progress = await listExtractorProgress(pool);
+  if (!blocks && bounds) {
+    // Block extractors are not tracked without the cache; say so when their rows are stale.
+    const stored = new Map(progress.map((p) => [p.extractor, p.version]));
+    for (const e of getExtractors()) {
+      const v = stored.get(e.name);
+      if (isRebuildable(e) || (v !== undefined && v >= e.version)) continue;
+      log.warn(
+        `[extractors] ${e.name} v${e.version} reads the assembled block and cannot be rebuilt without RPC_CACHE_DIR; ` +
+          `its rows of [${bounds.from}, ${bounds.to}] stay as they are`,
+      );
+    }
+  }
+
+  const pending: string[] = [];
+  for (const p of progress) {
+    const e = findExtractor(p.extractor);
+    if (!e) continue;
+    if (p.version > e.version) {
+      log.warn(`[extractors] ${p.extractor} is stored at version ${p.version}, newer than this build (${e.version})`);
+    } else if (p.backfillNext != null) {
+      pending.push(p.extractor);
+      log.info(`[extractors] ${p.extractor} v${p.version} behind: next=${p.backfillNext} to=${p.backfillTo}`);
+    }
+  }
+  return pending;
+}
+
+/**
+ * Rebuilds one window of the first unclaimed extractor with a pending rebuild: the window's stored
+ * core rows are derived again, the extractor's rows of the window are replaced and its backfill
+ * position moves forward, in one short transaction. Concurrent replicas work on different
+ * extractors (a session advisory lock per extractor).
+ * A `fromBlock` extractor is rebuilt for the heights found in the RPC cache; the rows of heights
+ * missing from it are kept. The cached blocks are read and decoded before the transaction starts.
+ *
+ * @param pool - PostgreSQL connection pool.
+ * @param windowSize - Heights per window.
+ * @param blocks - Optional cached blocks for `fromBlock` extractors.
+ * @returns False when nothing is left to rebuild.
+ */
+export async function catchUpWindow(pool: Pool, windowSize: number, blocks?: CachedBlockSource): Promise<boolean> {
+  const client = await pool.connect();
+  let claimed: string | null = null;
+  try {
+    const state = await claimPendingExtractor(client, catchUpExtractors(blocks));
+    const e = state && findExtractor(state.extractor);
+    if (!state || !e || state.backfillNext == null || state.backfillTo == null) return false;
+    claimed = e.name;
+    const from = state.backfillNext;
+    const to = Math.min(state.backfillTo, from + Math.max(1, Math.floor(windowSize)) - 1);
+    const cached = !isRebuildable(e) && blocks ? await loadCachedBlocks(blocks, from, to) : null;
+
+    await client.query('BEGIN');
+    try {
+      // Planning on another replica may have restarted the rebuild meanwhile; the claim is then
+      // taken again with the new window.
+      const locked = await lockExtractorProgress(client, e.name);
+      if (locked?.version !== state.version || locked.backfillNext !== from) {
+        await client.query('COMMIT');
+        return true;
+      }
+
+      await ensureCorePartitions(client, from, to, partitionedTables([e]));
+      const txs = await loadStoredTxs(client, from, to);
+      let rows: ExtractedRows;
+      if (!cached) {
+        rows = deriveStored(txs, [e]);
+        await deleteDerivedRows(client, from, to, [e.target.table]);
+      } else {
+        const heights = new Set(cached.lines.map((l) => Number(l.meta.height)));
+        rows = deriveStored(
+          txs.filter((tx) => heights.has(tx.height)),
+          [e],
+        );
+        for (const line of cached.lines) extractBlockRows([e], line, rows);
+        // Tables without a height column are upserted instead.
+        if (e.target.columns.includes('height')) await deleteDerivedRowsAt(client, [...heights], [e.target.table]);
+        if (cached.missing > 0) {
+          log.warn(
+            `[extractors] ${e.name}: ${cached.missing} height(s) of [${from}, ${to}] not in the RPC cache, kept as they are`,
+          );
+        }
+      }
+      await flushExtractorRows(client, e, rows[e.name]);
+      await advanceExtractorBackfill(client, e.name, to);
+      await client.query('COMMIT');
+    } catch (err) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw err;
+    }
+
+    if (to >= state.backfillTo) log.info(`[extractors] ${e.name} v${e.version} caught up at ${to}`);
+    else log.debug(`[extractors] ${e.name} rebuilt [${from}, ${to}]`);
+    return true;
+  } finally {
+    // A connection that could not release its claim is dropped, which releases it.
+    let broken = false;
+    if (claimed) await releaseExtractorClaim(client, claimed).catch(() => (broken = true));
+    client.release(broken);
+  }
+}
+
+/**
+ * Starts rebuilding pending extractors in the background, window after window, until nothing is
+ * pending. A failed window is logged and ends the loop; its transaction is rolled back, so the
+ * next start continues from the same height.
+ *
+ * @param pool - PostgreSQL connection pool.
+ * @param opts - Loop options (type `CatchUpOptions`).
+ * @returns A handle to stop or await the loop (type `CatchUpLoop`).
+ */
+export function startExtractorCatchUp(pool: Pool, opts: CatchUpOptions): CatchUpLoop {
+  let stopped = false;
+
+  async function run(): Promise<void> {
+    while (!stopped && !opts.signal?.aborted) {
+      if (!(await catchUpWindow(pool, opts.windowSize, opts.blocks))) return;
+    }
+  }
+
+  const done = run().catch((e: any) => {
+    log.error(`[extractors] catch-up failed: ${String(e?.message ?? e)}`);
+  });
+
+  return {
+    stop: async () => {
+      stopped = true;
+      await done;
+    },
+    done,
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * Parent-hash continuity guard: checks that every block links to the block stored below it.
+ */
+
+// src/runner/continuity.ts
+import type { Pool } from 'pg';
+import { getLogger } from '../utils/logger.ts';
+import { createRpcClientFromConfig } from '../rpc/client.ts';
+import { createTxDecodePool } from '../decode/txPool.ts';
+import { createSink } from '../sink/index.ts';
+import { deleteHeights, getBlockHash } from '../db/rollback.ts';
+import { getExtractors, partitionedTables } from '../sink/pg/extractors/index.ts';
+import { syncRange, CaseMode } from './syncRange.ts';
+
+const log = getLogger('runner/continuity');
+
+/**
+ * What to do when a block does not link to the stored block below it.
+ * - `halt`: flush what was written so far and stop with a {@link ForkError};
+ * - `rollback`: delete the diverging heights, re-index them and continue.
+ */
+export type ForkMode = 'halt' | 'rollback';
+
+/**
+ * Options for {@link createContinuityGuard}.
+ *
+ * @property pool - Pool used to read stored hashes and delete rolled-back heights.
+ * @property rpc - RPC client used to locate the fork point and re-index.
+ * @property decodePool - Transaction decode worker pool used to re-index.
+ * @property mode - Reaction to a mismatch.
+ * @property maxRollback - Maximum number of heights a rollback may walk back to find a common block.
+ * @property caseMode - Field casing for re-indexed output objects.
+ * @property concurrency - Maximum number of heights re-indexed in parallel.
+ * @property progressIds - Progress ids of `core.indexer_progress` moved back to the fork base by a rollback.
+ */
+export interface ContinuityOptions {
+  pool: Pool;
+  rpc: ReturnType<typeof createRpcClientFromConfig>;
+  decodePool: ReturnType<typeof createTxDecodePool>;
+  mode: ForkMode;
+  maxRollback: number;
+  caseMode: CaseMode;
+  concurrency: number;
+  progressIds: string[];
+}
+
+/**
+ * Raised when a block's `last_block_id.hash` does not match the stored hash of its parent
+ * and the mismatch could not (or must not) be repaired.
+ */
+export class ForkError extends Error {
+  constructor(
+    readonly height: number,
+    readonly parentHash: string,
+    readonly storedHash: string,
+    detail?: string,
+  ) {
+    super(
+      `fork at height ${height}: last_block_id.hash=${parentHash} but stored block ${height - 1} has hash ${storedHash}` +
+        (detail ? ` (${detail})` : ''),
+    );
+    this.name = 'ForkError';
+  }
+}
+
+/**
+ * Returns `[height, hash, parentHash]` of an assembled block line.
+ * @param {any} line Assembled block.
+ * @returns {[number, string | undefined, string | undefined]} Height and upper-cased hashes.
+ */
+function linkOf(line: any): [number, string | undefined, string | undefined] {
+  const hash = line?.block?.block_id?.hash;
+  const parent = line?.block?.block?.header?.last_block_id?.hash;
+  return [
+    Number(line?.meta?.height),
+    hash ? String(hash).toUpperCase() : undefined,
+    parent ? String(parent).toUpperCase() : undefined,
+  ];
+}
+
+/**
+ * Wraps a sink so that each written block is checked against its parent before it is persisted.
+ *
+ * The hash of the last written block is kept in memory, so consecutive heights are checked
+ * without a query, in either direction; after a skipped height, a restart or a batch boundary the parent hash is
+ * read from `core.blocks`. Blocks whose parent is not indexed (first height, gaps) pass unchecked.
+ *
+ * In `rollback` mode the guard walks back from the parent until the stored hash matches the
+ * chain served by the RPC (at most `maxRollback` heights), deletes the diverging heights from
+ * every height-keyed table, re-indexes them through the inner sink and checks the block again.
+ *
+ * @param inner - Sink the blocks are written to.
+ * @param opts - Guard options (type `ContinuityOptions`).
+ * @returns A sink with the same lifecycle as `inner`.
+ */
+export function createContinuityGuard(
+  inner: ReturnType<typeof createSink>,
+  opts: ContinuityOptions,
+): ReturnType<typeof createSink> {
+  let lastHeight: number | undefined;
+  let lastHash: string | undefined;
+  let lastParent: string | undefined;
+
+  async function storedHash(height: number): Promise<string | undefined> {
+    if (height === lastHeight) return lastHash;
+    const h = await getBlockHash(opts.pool, height);
+    return h ? h.toUpperCase() : undefined;
+  }
+
+  /**
+   * Finds the highest height below `height` whose stored hash matches the RPC chain.
+   * @returns The common height, or undefined when none was found within `maxRollback`.
+   */
+  async function findForkBase(height: number): Promise<number | undefined> {
+    const floor = Math.max(1, height - opts.maxRollback);
+    for (let k = height - 1; k >= floor; k--) {
+      // A cached response may belong to the abandoned branch; the node is asked again.
+      await opts.rpc.invalidate?.(k);
+      const [stored, b] = await Promise.all([getBlockHash(opts.pool, k), opts.rpc.fetchBlock(k)]);
+      const remote = b?.block_id?.hash;
+      if (stored && remote && stored.toUpperCase() === String(remote).toUpperCase()) return k;
+    }
+    return undefined;
+  }
+
+  async function rollback(height: number, parent: string, stored: string): Promise<void> {
+    // The incoming block is fetched again on the next attempt, whichever branch it came from.
+    await opts.rpc.invalidate?.(height);
+    const base = await findForkBase(height);
+    if (base === undefined) {
+      throw new ForkError(height, parent, stored, `no common block within ${opts.maxRollback} heights`);
+    }
+    if (base === height - 1) {
+      // The stored parent is still on the chain: the incoming block is the one that does not link.
+      throw new ForkError(
+        height,
+        parent,
+        stored,
+        `stored block ${base} matches the chain, block ${height} does not link to it`,
+      );
+    }
+    const from = base + 1;
+    const to = height - 1;
+    const deleted = await deleteHeights(opts.pool, from, to, {
+      extraTables: partitionedTables(getExtractors()),
+      progressIds: opts.progressIds,
+    });
+    log.warn(`[fork] rolled back ${deleted} block(s) in [${from}, ${to}], re-indexing`);
+
+    const res = await syncRange(opts.rpc, opts.decodePool, inner, {
+      from,
+      to,
+      concurrency: opts.concurrency,
+      progressEveryBlocks: 1000,
+      progressIntervalSec: 60,
+      caseMode: opts.caseMode,
+      reportSpeed: false,
+    });
+    await inner.flush?.();
+    if (res.failed.length > 0) {
+      throw new ForkError(height, parent, stored, `${res.failed.length} height(s) failed to re-index`);
+    }
+
+    lastHeight = undefined;
+    const now = await storedHash(height - 1);
+    if (now !== parent) {
+      throw new ForkError(height, parent, now ?? 'none', 'still diverging after rollback');
+    }
+    log.info(`[fork] heights [${from}, ${to}] re-indexed, chain linked again at ${height}`);
+  }
+
+  return {
+    init: () => inner.init(),
+    flush: inner.flush ? () => inner.flush!() : undefined,
+    close: () => inner.close(),
+    write: async (line: any) => {
+      const [height, hash, parent] = linkOf(line);
+      if (Number.isFinite(height) && height + 1 === lastHeight) {
+        // Walking down: this block must be the parent of the one written just before it.
+        if (hash && lastParent && hash !== lastParent) {
+          await inner.flush?.();
+          throw new ForkError(height + 1, lastParent, hash, 'while indexing in descending order');
+        }
+      } else if (Number.isFinite(height) && parent) {
+        const stored = await storedHash(height - 1);
+        if (stored && stored !== parent) {
+          log.error(`[fork] height ${height} links to ${parent}, stored block ${height - 1} is ${stored}`);
+          // Buffered rows must reach the DB before a rollback deletes them, and before halting.
+          await inner.flush?.();
+          if (opts.mode === 'halt') throw new ForkError(height, parent, stored);
+          await rollback(height, parent, stored);
+        }
+      }
+      await inner.write(line);
+      lastHeight = height;
+      lastHash = hash;
+      lastParent = parent;
+    },
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * Background loop that drains the dead-letter table of heights that failed to index.
+ */
+
+// src/runner/deadLetter.ts
+import type { Pool } from 'pg';
+import { getLogger } from '../utils/logger.ts';
+import { createRpcClientFromConfig } from '../rpc/client.ts';
+import { createTxDecodePool } from '../decode/txPool.ts';
+import { createSink } from '../sink/index.ts';
+import { listDueFailedHeights, markFailedHeightResolved, rescheduleFailedHeight } from '../db/failedHeights.ts';
+import { syncRange, CaseMode } from './syncRange.ts';
+
+const log = getLogger('runner/deadLetter');
+
+/** Upper bound for the delay between two retries of the same height. */
+const MAX_BACKOFF_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Options for the dead-letter retry loop.
+ *
+ * @property intervalMs - Delay between two scans of `core.failed_heights`.
+ * @property backoffMs - Base delay of the per-height schedule; doubled after each failed retry.
+ * @property batchSize - Maximum number of due heights retried per scan.
+ * @property caseMode - Field casing for assembled output objects.
+ * @property signal - Optional abort signal; stops the current scan between heights.
+ */
+export interface DeadLetterOptions {
+  intervalMs: number;
+  backoffMs: number;
+  batchSize: number;
+  caseMode: CaseMode;
+  signal?: AbortSignal;
+}
+
+/**
+ * Handle returned by {@link startDeadLetterLoop}.
+ *
+ * @property stop - Stops scheduling new scans and waits for the current one to finish.
+ */
+export interface DeadLetterLoop {
+  stop: () => Promise<void>;
+}
+
+/**
+ * Computes the delay before the next retry of a height: `backoffMs * 2^retryCount`, capped at one day.
+ *
+ * @param backoffMs - Base delay in milliseconds.
+ * @param retryCount - Number of retry rounds already made.
+ * @returns Delay in milliseconds.
+ */
+export function deadLetterDelay(backoffMs: number, retryCount: number): number {
+  return Math.min(MAX_BACKOFF_MS, backoffMs * Math.pow(2, Math.min(retryCount, 30)));
+}
+
+/**
+ * Starts a background loop that periodically picks due heights from `core.failed_heights`,
+ * re-runs them through the pipeline and either marks them resolved or reschedules them.
+ *
+ * The sink should write each block on its own (e.g. a `block-atomic` Postgres sink), so that
+ * a recovered height is persisted before it is marked as resolved and does not interleave
+ * with the buffers of the main follow loop.
+ *
+ * @param pgPool - Pool used to read and update `core.failed_heights`.
+ * @param rpc - RPC client created from configuration.
+ * @param decodePool - Transaction decode worker pool.
+ * @param sink - Sink where recovered blocks are persisted.
+ * @param opts - Loop options (type `DeadLetterOptions`).
+ * @returns A handle to stop the loop (type `DeadLetterLoop`).
+ */
+export function startDeadLetterLoop(
+  pgPool: Pool,
+  rpc: ReturnType<typeof createRpcClientFromConfig>,
+  decodePool: ReturnType<typeof createTxDecodePool>,
+  sink: ReturnType<typeof createSink>,
+  opts: DeadLetterOptions,
+): DeadLetterLoop {
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+  let current: Promise<void> = Promise.resolve();
+
+  async function drainOnce(): Promise<void> {
+    const due = await listDueFailedHeights(pgPool, opts.batchSize);
+    if (due.length === 0) return;
+    log.info(`[dead-letter] retrying ${due.length} height(s): ${due.map((d) => d.height).join(', ')}`);
+
+    for (const { height, retryCount } of due) {
+      if (stopped || opts.signal?.aborted) return;
+      const res = await syncRange(rpc, decodePool, sink, {
+        from: height,
+        to: height,
+        concurrency: 1,
+        progressEveryBlocks: 1,
+        progressIntervalSec: 60,
+        caseMode: opts.caseMode,
+        maxBlockRetries: 0,
+        reportSpeed: false,
+        signal: opts.signal,
+      });
+      if (res.aborted) return;
+      const failure = res.failed[0];
+      if (!failure) {
+        await sink.flush?.();
+        await markFailedHeightResolved(pgPool, height);
+        log.info(`[dead-letter] height ${height} recovered after ${retryCount + 1} retry round(s)`);
+      } else {
+        const delay = deadLetterDelay(opts.backoffMs, retryCount + 1);
+        await rescheduleFailedHeight(pgPool, failure, delay);
+        log.warn(`[dead-letter] height ${height} still fails at ${failure.stage}; next retry in ${delay}ms`);
+      }
+    }
+  }
+
+  function schedule() {
+    if (stopped) return;
+    timer = setTimeout(() => {
+      current = drainOnce()
+        .catch((e: any) => {
+          log.error(`[dead-letter] scan failed: ${String(e?.message ?? e)}`);
+        })
+        .finally(schedule);
+    }, opts.intervalMs);
+  }
+
+  log.info(`[dead-letter] retry loop started, interval=${opts.intervalMs}ms backoff=${opts.backoffMs}ms`);
+  schedule();
+
+  return {
+    stop: async () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      await current;
+    },
+  };
+}
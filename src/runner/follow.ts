@@ -7,64 +7,135 @@ import { getLogger } from '../utils/logger.ts';
 import { createRpcClientFromConfig } from '../rpc/client.ts';
 import { createTxDecodePool } from '../decode/txPool.ts';
 import { createSink } from '../sink/index.ts';
-import { syncRange, CaseMode } from './syncRange.ts';
+import { syncRange, CaseMode, EmptyFastPath, SyncRangeOptions, SyncRangeResult } from './syncRange.ts';
 import { sleep } from '../utils/sleep.ts';
+import { subscribeNewBlocks } from '../rpc/ws.ts';
 
 const log = getLogger('follow');
 
+/** In `ws` mode, `/status` is polled when no block has been announced for this long. */
+const WS_IDLE_MS = 30_000;
+
+/**
+ * How the follow loop learns about new blocks: polling `/status` or a `NewBlock` WebSocket subscription.
+ */
+export type FollowMode = 'poll' | 'ws';
+
 /**
  * Specifies the configuration options for the follow loop.
  *
  * @property startNext - The height of the next block from which to start following.
- * @property pollMs - Polling interval in milliseconds to check for new blocks.
+ * @property pollMs - Polling interval in milliseconds to check for new blocks (also used while the WebSocket is down).
+ * @property mode - Block discovery strategy (type `FollowMode`); defaults to `poll`.
+ * @property wsUrl - WebSocket endpoint used in `ws` mode.
  * @property concurrency - Maximum number of blocks to process in parallel.
  * @property caseMode - Mode for handling case processing (type `CaseMode`).
+ * @property onGiveUp - Optional callback for heights skipped after exhausting retries.
+ * @property signal - Optional abort signal; the loop returns after draining the current range.
+ * @property drainTimeoutMs - How long to wait for in-flight heights once `signal` is aborted.
+ * @property maxBufferBytes - Memory budget of the reorder buffer (see `SyncRangeOptions`).
+ * @property rpcBatch - Heights per JSON-RPC batch request (see `SyncRangeOptions`).
+ * @property wsIdleMs - In `ws` mode, how long without announcements before `/status` is polled; defaults to 30s.
+ * @property emptyFastPath - Route empty heights around the in-flight window (see `SyncRangeOptions`).
  */
 export interface FollowOptions {
   startNext: number;
   pollMs: number;
+  mode?: FollowMode;
+  wsUrl?: string;
   concurrency: number;
   caseMode: CaseMode;
+  onGiveUp?: SyncRangeOptions['onGiveUp'];
+  signal?: AbortSignal;
+  drainTimeoutMs?: number;
+  maxBufferBytes?: number;
+  rpcBatch?: number;
+  wsIdleMs?: number;
+  emptyFastPath?: EmptyFastPath;
 }
 
 /**
  * Runs an infinite loop to follow the blockchain from a starting height,
  * fetching and processing new blocks as they are produced.
  *
+ * In `ws` mode a range sync starts as soon as a block is announced. Announcements are only used as
+ * the target height, so everything between the last processed height and the announced one is
+ * fetched, including heights whose notification was missed. While the socket is down (it reconnects
+ * with backoff), or when nothing was announced for a while, the loop falls back to polling `/status`.
+ *
  * @param rpc - RPC client created from configuration.
  * @param decodePool - Transaction decode worker pool.
  * @param sink - Sink implementation where indexed data is persisted.
  * @param opts - Options controlling the follow behavior (type `FollowOptions`).
- * @returns A Promise that resolves to void. This function never terminates under normal conditions.
+ * @returns A Promise that resolves with the last result of the range sync (type `SyncRangeResult`)
+ *   once `signal` is aborted; it never resolves otherwise.
  */
 export async function followLoop(
   rpc: ReturnType<typeof createRpcClientFromConfig>,
   decodePool: ReturnType<typeof createTxDecodePool>,
   sink: ReturnType<typeof createSink>,
   opts: FollowOptions,
-): Promise<void> {
+): Promise<SyncRangeResult> {
   let next = opts.startNext;
-  log.info(`[follow] entering live mode from height ${next}, poll=${opts.pollMs}ms`);
-  for (;;) {
-    const st = await rpc.fetchStatus();
-    const latest = Number(st['sync_info']['latest_block_height']);
-    if (next <= latest) {
-      const to = latest;
-      const live = await syncRange(rpc, decodePool, sink, {
-        from: next,
-        to,
-        concurrency: Math.min(opts.concurrency, 16),
-        progressEveryBlocks: 25,
-        progressIntervalSec: 2,
-        caseMode: opts.caseMode,
-        reportSpeed: false,
-      });
-      next = to + 1;
-      log.info(`[follow] caught up ${live.processed} blocks → next=${next}, latest=${latest}`);
-      await sink.flush?.();
-    } else {
-      const jitter = 0.8 + Math.random() * 0.4;
-      await sleep(Math.floor(opts.pollMs * jitter));
+  let last: SyncRangeResult = { processed: 0, failed: [] };
+  const sub =
+    opts.mode === 'ws' && opts.wsUrl
+      ? subscribeNewBlocks({
+          url: opts.wsUrl,
+          reconnectBackoffMs: 1000,
+          maxReconnectBackoffMs: 60_000,
+          connectTimeoutMs: 10_000,
+        })
+      : undefined;
+  log.info(`[follow] entering live mode from height ${next}, mode=${sub ? 'ws' : 'poll'} poll=${opts.pollMs}ms`);
+
+  let idle = false;
+  try {
+    while (!opts.signal?.aborted) {
+      const announced = sub?.connected() && !idle ? sub.latest() : undefined;
+      let latest: number;
+      if (announced !== undefined) {
+        latest = announced;
+      } else {
+        const st = await rpc.fetchStatus();
+        latest = Number(st['sync_info']['latest_block_height']);
+      }
+      idle = false;
+      if (next <= latest) {
+        if (announced !== undefined && latest > next) {
+          log.debug(`[follow] announced ${latest}, also fetching unannounced [${next}, ${latest - 1}]`);
+        }
+        const to = latest;
+        const live = await syncRange(rpc, decodePool, sink, {
+          from: next,
+          to,
+          concurrency: Math.min(opts.concurrency, 16),
+          progressEveryBlocks: 25,
+          progressIntervalSec: 2,
+          caseMode: opts.caseMode,
+          reportSpeed: false,
+          onGiveUp: opts.onGiveUp,
+          signal: opts.signal,
+          drainTimeoutMs: opts.drainTimeoutMs,
+          maxBufferBytes: opts.maxBufferBytes,
+          rpcBatch: opts.rpcBatch,
+          emptyFastPath: opts.emptyFastPath,
+        });
+        last = live;
+        if (live.aborted) break;
+        next = to + 1;
+        log.info(`[follow] caught up ${live.processed} blocks → next=${next}, latest=${latest}`);
+        await sink.flush?.();
+      } else if (sub?.connected()) {
+        idle = !(await sub.waitForBlock(next - 1, opts.wsIdleMs ?? WS_IDLE_MS, opts.signal));
+      } else {
+        const jitter = 0.8 + Math.random() * 0.4;
+        await sleep(Math.floor(opts.pollMs * jitter), opts.signal);
+      }
     }
+  } finally {
+    sub?.close();
   }
+  log.info(`[follow] stopped`);
+  return last;
 }
@@ -0,0 +1,155 @@
+/**
+ * Job-queue worker: claims chunks of heights from `core.index_jobs` and indexes them.
+ */
+
+// src/runner/jobs.ts
+import type { Pool } from 'pg';
+import { hostname } from 'node:os';
+import { getLogger } from '../utils/logger.ts';
+import { createRpcClientFromConfig } from '../rpc/client.ts';
+import { createTxDecodePool } from '../decode/txPool.ts';
+import { createSink } from '../sink/index.ts';
+import { upsertProgress } from '../db/progress.ts';
+import { claimJob, completeJob, IndexJob, jobWatermark, releaseJob, renewJobLease } from '../db/jobs.ts';
+import { syncRange, SyncRangeOptions, SyncRangeResult } from './syncRange.ts';
+
+const log = getLogger('runner/jobs');
+
+/**
+ * Options for {@link runJobWorker}.
+ *
+ * @property pool - Pool used for the job queue and the watermark.
+ * @property queue - Queue to work on; its contiguous done prefix is stored as progress under this id.
+ * @property owner - Worker identifier stored on claimed chunks (defaults to `host:pid`).
+ * @property leaseMs - Lease duration of a claimed chunk; renewed every third of it while the chunk runs.
+ * @property maxAttempts - Claims after which a chunk is marked failed.
+ */
+export interface JobWorkerOptions extends Omit<SyncRangeOptions, 'from' | 'to'> {
+  pool: Pool;
+  queue: string;
+  owner?: string;
+  leaseMs: number;
+  maxAttempts: number;
+}
+
+/**
+ * Totals of a worker run.
+ *
+ * @property jobs - Number of chunks completed by this worker.
+ */
+export interface JobWorkerResult extends SyncRangeResult {
+  jobs: number;
+}
+
+/**
+ * Returns the default worker identifier.
+ *
+ * @returns `host:pid`.
+ */
+export function defaultJobOwner(): string {
+  return `${hostname()}:${process.pid}`;
+}
+
+/**
+ * Claims and indexes chunks until the queue has nothing claimable left, or a stop is requested.
+ *
+ * Each chunk runs through {@link syncRange}; the sink is flushed before the chunk is marked done,
+ * then the queue watermark is recomputed and stored under `queue` (it never moves backwards).
+ * Heights given up on inside a chunk go through `onGiveUp` like in a regular run and do not fail
+ * the chunk. A chunk whose run throws is released with the error, and the error is re-thrown.
+ * On a stop request the current chunk is released without counting the claim. When a lease
+ * renewal fails or finds the lease lost, the chunk is stopped and left to whoever holds it now,
+ * and the worker moves on to the next claim.
+ *
+ * @param rpc - RPC client created from configuration.
+ * @param decodePool - Transaction decode worker pool.
+ * @param sink - Sink where blocks are persisted; it must not record progress under `queue`.
+ * @param opts - Worker and range options (type `JobWorkerOptions`).
+ * @returns Totals over all completed chunks (type `JobWorkerResult`).
+ */
+export async function runJobWorker(
+  rpc: ReturnType<typeof createRpcClientFromConfig>,
+  decodePool: ReturnType<typeof createTxDecodePool>,
+  sink: ReturnType<typeof createSink>,
+  opts: JobWorkerOptions,
+): Promise<JobWorkerResult> {
+  const { pool, queue, owner = defaultJobOwner(), leaseMs, maxAttempts, signal, ...rangeOpts } = opts;
+  const total: JobWorkerResult = { processed: 0, failed: [], jobs: 0 };
+
+  async function runClaimed(job: IndexJob): Promise<SyncRangeResult & { leaseLost: boolean }> {
+    // The chunk stops on a stop request and when its lease can no longer be vouched for.
+    const chunk = new AbortController();
+    const onStop = () => chunk.abort();
+    if (signal?.aborted) chunk.abort();
+    else signal?.addEventListener('abort', onStop, { once: true });
+    let leaseLost = false;
+    const loseLease = (why: string) => {
+      if (leaseLost) return;
+      leaseLost = true;
+      log.warn(`[jobs] ${why} on [${job.from}, ${job.to}], stopping the chunk`);
+      chunk.abort();
+    };
+    const renew = setInterval(
+      () => {
+        renewJobLease(pool, job, owner, leaseMs)
+          .then((held) => {
+            if (!held) loseLease('lost the lease');
+          })
+          .catch((e: any) => loseLease(`lease renewal failed: ${String(e?.message ?? e)}`));
+      },
+      Math.max(1000, Math.floor(leaseMs / 3)),
+    );
+    try {
+      const res = await syncRange(rpc, decodePool, sink, {
+        ...rangeOpts,
+        from: job.from,
+        to: job.to,
+        signal: chunk.signal,
+      });
+      await sink.flush?.();
+      return { ...res, leaseLost };
+    } catch (e: any) {
+      await releaseJob(pool, job, owner, String(e?.message ?? e), maxAttempts);
+      throw e;
+    } finally {
+      clearInterval(renew);
+      signal?.removeEventListener('abort', onStop);
+    }
+  }
+
+  while (!signal?.aborted) {
+    const job = await claimJob(pool, queue, owner, leaseMs, maxAttempts);
+    if (!job) break;
+    log.info(`[jobs] ${owner} claimed [${job.from}, ${job.to}] (attempt ${job.attempts})`);
+
+    const res = await runClaimed(job);
+    total.processed += res.processed;
+    total.failed.push(...res.failed);
+    total.aborted = res.aborted;
+    total.drained = res.drained;
+    if (res.aborted && res.leaseLost && !signal?.aborted) {
+      // Another worker may hold the chunk now; it is released only if it is still ours.
+      await releaseJob(pool, job, owner, undefined, maxAttempts);
+      total.aborted = undefined;
+      total.drained = undefined;
+      continue;
+    }
+    if (res.aborted) {
+      await releaseJob(pool, job, owner, undefined, maxAttempts);
+      log.warn(`[jobs] released [${job.from}, ${job.to}] on stop`);
+      break;
+    }
+    if (!(await completeJob(pool, job, owner))) {
+      log.warn(`[jobs] lease on [${job.from}, ${job.to}] expired before it was done, leaving it to the queue`);
+      continue;
+    }
+    total.jobs++;
+
+    const w = await jobWatermark(pool, queue);
+    if (w != null) await upsertProgress(pool, queue, w);
+    log.info(`[jobs] [${job.from}, ${job.to}] done, watermark=${w ?? 'none'}`);
+  }
+
+  log.info(`[jobs] ${owner} finished ${total.jobs} chunk(s)`);
+  return total;
+}
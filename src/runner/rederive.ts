@@ -0,0 +1,149 @@
+/**
+ * Rebuilds the tables of the rebuildable extractors (those that only read messages and events)
+ * for a height range from rows already stored in `core.*`, without any RPC.
+ */
+
+// src/runner/rederive.ts
+import type { Pool } from 'pg';
+import { getLogger } from '../utils/logger.ts';
+import { deleteDerivedRows, loadStoredTxs, StoredTx } from '../db/rederive.ts';
+import { ensureCorePartitions } from '../db/partitions.ts';
+import { attrsToPairs, toNum } from '../sink/pg/parsing.ts';
+import { extractTxRows, flushExtractorRows } from '../sink/pg/derive.ts';
+import { getExtractors, isRebuildable, partitionedTables } from '../sink/pg/extractors/index.ts';
+import type { ExtractedRows, Extractor, ExtractTxContext } from '../sink/pg/extractors/index.ts';
+
+const log = getLogger('runner/rederive');
+
+/**
+ * Options controlling a rederive run.
+ *
+ * @property from - First height (inclusive).
+ * @property to - Last height (inclusive).
+ * @property windowSize - Heights rebuilt per transaction.
+ * @property signal - Optional abort signal; the run stops after the current window commits.
+ */
+export interface RederiveOptions {
+  from: number;
+  to: number;
+  windowSize: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Summary of a rederive run.
+ *
+ * @property from - First height of the range.
+ * @property to - Last height actually rebuilt (below `from` when nothing was).
+ * @property txs - Number of stored transactions read.
+ * @property deleted - Rows deleted per derived table.
+ * @property inserted - Rows derived per derived table.
+ */
+export interface RederiveReport {
+  from: number;
+  to: number;
+  txs: number;
+  deleted: Record<string, number>;
+  inserted: Record<string, number>;
+}
+
+/**
+ * Runs extractors over a batch of stored transactions.
+ *
+ * @param txs - Stored transactions with their messages and events.
+ * @param extractors - Extractors to run; only their message and event builders are used.
+ * @returns Rows per extractor.
+ */
+export function deriveStored(txs: StoredTx[], extractors: readonly Extractor[]): ExtractedRows {
+  const out: ExtractedRows = {};
+  for (const tx of txs) {
+    const ctx: ExtractTxContext = {
+      tx_hash: tx.tx_hash,
+      height: tx.height,
+      time: tx.time,
+      code: tx.code,
+      gas_used: toNum(tx.gas_used),
+      log_summary: tx.log_summary,
+      firstSigner: tx.signers?.[0] ?? null,
+      msgs: tx.msgs,
+      innerMsgs: tx.innerMsgs,
+    };
+    const events = tx.events.map((ev) => ({
+      msg_index: ev.msg_index,
+      event_index: ev.event_index,
+      type: ev.event_type,
+      attributes: attrsToPairs(ev.attributes),
+    }));
+    extractTxRows(extractors, ctx, events, out);
+  }
+  return out;
+}
+
+/**
+ * Adds `src` counts into `dst`.
+ *
+ * @param dst - Accumulated counts.
+ * @param src - Counts to add.
+ */
+export function addCounts(dst: Record<string, number>, src: Record<string, number>): void {
+  for (const [k, v] of Object.entries(src)) dst[k] = (dst[k] ?? 0) + v;
+}
+
+/**
+ * Rebuilds the derived tables of `[from, to]` window by window.
+ *
+ * Each window is one transaction: the stored transactions, messages and events are read back,
+ * the rebuildable extractors run over them, the window's rows of their tables are deleted and
+ * the new ones inserted. Readers therefore see either the old or the new rows of a window, never
+ * a mix. Extractors that read the block line (e.g. governance) are not rebuilt.
+ *
+ * @param pool - PostgreSQL connection pool.
+ * @param opts - Range and window options (type `RederiveOptions`).
+ * @returns Totals of the run (type `RederiveReport`).
+ */
+export async function rederiveRange(pool: Pool, opts: RederiveOptions): Promise<RederiveReport> {
+  const { from, to, signal } = opts;
+  const windowSize = Math.max(1, Math.floor(opts.windowSize));
+  const report: RederiveReport = { from, to: from - 1, txs: 0, deleted: {}, inserted: {} };
+  const extractors = getExtractors().filter(isRebuildable);
+  const tables = extractors.map((e) => e.target.table);
+
+  for (let a = from; a <= to && !signal?.aborted; a += windowSize) {
+    const b = Math.min(to, a + windowSize - 1);
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await ensureCorePartitions(client, a, b, partitionedTables(extractors));
+      const txs = await loadStoredTxs(client, a, b);
+      const rows = deriveStored(txs, extractors);
+      const deleted = await deleteDerivedRows(client, a, b, tables);
+      for (const e of extractors) await flushExtractorRows(client, e, rows[e.name]);
+      await client.query('COMMIT');
+
+      report.to = b;
+      report.txs += txs.length;
+      addCounts(report.deleted, deleted);
+      for (const e of extractors) addCounts(report.inserted, { [e.target.table]: rows[e.name]?.length ?? 0 });
+      log.info(`[rederive] [${a}, ${b}] ${txs.length} tx(s) rebuilt`);
+    } catch (e) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Prints a rederive report to the log.
+ *
+ * @param report - Report returned by {@link rederiveRange}.
+ */
+export function printRederiveReport(report: RederiveReport): void {
+  log.info(`[rederive] range [${report.from}, ${report.to}], ${report.txs} tx(s)`);
+  for (const table of Object.keys(report.inserted)) {
+    log.info(`[rederive]   ${table}: deleted ${report.deleted[table] ?? 0}, inserted ${report.inserted[table]}`);
+  }
+}
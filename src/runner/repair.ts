@@ -0,0 +1,151 @@
+/**
+ * Detects and re-indexes missing heights (gaps) in `core.blocks`.
+ */
+
+// src/runner/repair.ts
+import type { Pool } from 'pg';
+import { getLogger } from '../utils/logger.ts';
+import { createRpcClientFromConfig } from '../rpc/client.ts';
+import { createTxDecodePool } from '../decode/txPool.ts';
+import { createSink } from '../sink/index.ts';
+import { countHeights, findGaps, HeightRange } from '../db/gaps.ts';
+import { HeightFailure, recordFailedHeight, resolveIndexedFailedHeights } from '../db/failedHeights.ts';
+import { syncRange, CaseMode, EmptyFastPath } from './syncRange.ts';
+
+const log = getLogger('runner/repair');
+
+/**
+ * Options controlling a repair run.
+ *
+ * @property from - First height of the scanned range (inclusive).
+ * @property to - Last height of the scanned range (inclusive).
+ * @property concurrency - Maximum number of heights fetched in parallel.
+ * @property caseMode - Field casing for assembled output objects.
+ * @property signal - Optional abort signal; stops the repair after the current gap drains.
+ * @property maxBufferBytes - Memory budget of the reorder buffer (see `SyncRangeOptions`).
+ * @property rpcBatch - Heights per JSON-RPC batch request (see `SyncRangeOptions`).
+ * @property emptyFastPath - Route empty heights around the in-flight window (see `SyncRangeOptions`).
+ */
+export interface RepairOptions {
+  from: number;
+  to: number;
+  concurrency: number;
+  caseMode: CaseMode;
+  signal?: AbortSignal;
+  maxBufferBytes?: number;
+  rpcBatch?: number;
+  emptyFastPath?: EmptyFastPath;
+}
+
+/**
+ * Summary of a repair run.
+ *
+ * @property range - The scanned range.
+ * @property gapsBefore - Missing ranges found before the repair.
+ * @property gapsAfter - Missing ranges that remain after the repair.
+ * @property missingBefore - Number of missing heights before the repair.
+ * @property missingAfter - Number of missing heights after the repair.
+ * @property failed - Heights the pipeline gave up on, with the failing stage and last error.
+ * @property resolved - Number of dead-letter entries closed by this repair.
+ */
+export interface RepairReport {
+  range: HeightRange;
+  gapsBefore: HeightRange[];
+  gapsAfter: HeightRange[];
+  missingBefore: number;
+  missingAfter: number;
+  failed: HeightFailure[];
+  resolved: number;
+}
+
+/**
+ * Formats height ranges compactly, e.g. `100-120, 150`.
+ *
+ * @param ranges - Ranges to format.
+ * @param limit - Maximum number of ranges to print before truncating.
+ * @returns Human-readable list.
+ */
+export function formatRanges(ranges: HeightRange[], limit = 20): string {
+  if (ranges.length === 0) return '-';
+  const parts = ranges.slice(0, limit).map((r) => (r.from === r.to ? `${r.from}` : `${r.from}-${r.to}`));
+  if (ranges.length > limit) parts.push(`… (+${ranges.length - limit} more)`);
+  return parts.join(', ');
+}
+
+/**
+ * Scans `core.blocks` for missing heights in a range, re-fetches them through the regular
+ * RPC → decode → assemble → sink pipeline and reports what was fixed and what still fails.
+ *
+ * The sink is flushed before the second scan, so the report reflects what is actually persisted.
+ * Heights that still fail are recorded in `core.failed_heights`; entries for heights that are now
+ * present are marked as resolved.
+ *
+ * @param pgPool - Pool used to scan `core.blocks`.
+ * @param rpc - RPC client created from configuration.
+ * @param decodePool - Transaction decode worker pool.
+ * @param sink - Sink implementation where repaired blocks are persisted.
+ * @param opts - Range and tuning options (type `RepairOptions`).
+ * @returns The repair report (type `RepairReport`).
+ */
+export async function repairGaps(
+  pgPool: Pool,
+  rpc: ReturnType<typeof createRpcClientFromConfig>,
+  decodePool: ReturnType<typeof createTxDecodePool>,
+  sink: ReturnType<typeof createSink>,
+  opts: RepairOptions,
+): Promise<RepairReport> {
+  const range = { from: opts.from, to: opts.to };
+  const gapsBefore = await findGaps(pgPool, range.from, range.to);
+  const missingBefore = countHeights(gapsBefore);
+  log.info(
+    `[repair] scanned [${range.from}, ${range.to}]: ${missingBefore} missing height(s) in ${gapsBefore.length} gap(s)`,
+  );
+
+  const failed: RepairReport['failed'] = [];
+  for (const gap of gapsBefore) {
+    log.info(`[repair] re-indexing [${gap.from}, ${gap.to}]`);
+    const res = await syncRange(rpc, decodePool, sink, {
+      from: gap.from,
+      to: gap.to,
+      concurrency: opts.concurrency,
+      progressEveryBlocks: 1000,
+      progressIntervalSec: 15,
+      caseMode: opts.caseMode,
+      reportSpeed: gap.to - gap.from + 1 >= 1000,
+      onGiveUp: (f) => recordFailedHeight(pgPool, f),
+      signal: opts.signal,
+      maxBufferBytes: opts.maxBufferBytes,
+      rpcBatch: opts.rpcBatch,
+      emptyFastPath: opts.emptyFastPath,
+    });
+    failed.push(...res.failed);
+    if (res.aborted) break;
+  }
+  await sink.flush?.();
+
+  const gapsAfter = missingBefore > 0 ? await findGaps(pgPool, range.from, range.to) : [];
+  const missingAfter = countHeights(gapsAfter);
+  const resolved = await resolveIndexedFailedHeights(pgPool, range.from, range.to);
+  return { range, gapsBefore, gapsAfter, missingBefore, missingAfter, failed, resolved };
+}
+
+/**
+ * Prints a repair report via logger.
+ *
+ * @param report - Report returned by {@link repairGaps}.
+ */
+export function printRepairReport(report: RepairReport): void {
+  const fixed = report.missingBefore - report.missingAfter;
+  log.info(
+    `[repair] report for [${report.range.from}, ${report.range.to}]: missing before=${report.missingBefore} ` +
+      `fixed=${fixed} still missing=${report.missingAfter} dead-letter resolved=${report.resolved}`,
+  );
+  log.info(`[repair] gaps before: ${formatRanges(report.gapsBefore)}`);
+  if (report.missingAfter > 0) {
+    log.warn(`[repair] gaps after: ${formatRanges(report.gapsAfter)}`);
+  }
+  for (const f of report.failed.slice(0, 50)) {
+    log.warn(`[repair] height ${f.height} still fails at ${f.stage}: ${f.error}`);
+  }
+  if (report.failed.length > 50) log.warn(`[repair] … and ${report.failed.length - 50} more failed height(s)`);
+}
@@ -0,0 +1,177 @@
+/**
+ * Deterministic height sharding for running several indexer processes over one range.
+ */
+
+// src/runner/shard.ts
+import type { Pool } from 'pg';
+import { getLogger } from '../utils/logger.ts';
+import { createRpcClientFromConfig } from '../rpc/client.ts';
+import { createTxDecodePool } from '../decode/txPool.ts';
+import { createSink } from '../sink/index.ts';
+import { getProgress, upsertProgress } from '../db/progress.ts';
+import { HeightRange } from '../db/gaps.ts';
+import { syncRange, SyncRangeOptions, SyncRangeResult } from './syncRange.ts';
+
+const log = getLogger('runner/shard');
+
+/**
+ * Static sharding layout shared by all processes of a sharded run.
+ *
+ * Heights are grouped into chunks of `chunkSize` consecutive heights (chunk `k` covers
+ * `[k * chunkSize, (k + 1) * chunkSize - 1]`) and chunk `k` is owned by shard `k % shards`.
+ * Chunks keep each shard's writes within a few partitions at a time.
+ *
+ * @property shards - Total number of shards.
+ * @property shardId - Shard handled by this process, in `[0..shards-1]`.
+ * @property chunkSize - Number of consecutive heights per chunk.
+ */
+export interface ShardLayout {
+  shards: number;
+  shardId: number;
+  chunkSize: number;
+}
+
+/**
+ * Returns the progress id used by one shard. A single shard keeps the base id unchanged, so
+ * an unsharded run and `SHARDS=1` share their resume point.
+ *
+ * @param baseId - Base progress id (`PG_PROGRESS_ID`).
+ * @param shardId - Shard index.
+ * @param shards - Total number of shards.
+ * @returns Progress id, e.g. `default:shard-2-of-4`.
+ */
+export function shardProgressId(baseId: string, shardId: number, shards: number): string {
+  return shards <= 1 ? baseId : `${baseId}:shard-${shardId}-of-${shards}`;
+}
+
+/**
+ * Returns the shard owning a height.
+ *
+ * @param height - Block height.
+ * @param layout - Shards count and chunk size (the shard id is ignored).
+ * @returns Owning shard index.
+ */
+export function shardOf(height: number, layout: Pick<ShardLayout, 'shards' | 'chunkSize'>): number {
+  return Math.floor(height / layout.chunkSize) % layout.shards;
+}
+
+/**
+ * Returns the smallest height `>= height` owned by the given shard.
+ *
+ * @param height - Lower bound (inclusive).
+ * @param layout - Sharding layout of the queried shard.
+ * @returns First owned height at or after `height`.
+ */
+export function nextOwnedHeight(height: number, layout: ShardLayout): number {
+  const { shards, shardId, chunkSize } = layout;
+  const chunk = Math.floor(height / chunkSize);
+  const owner = chunk % shards;
+  if (owner === shardId) return height;
+  const ahead = (shardId - owner + shards) % shards;
+  return (chunk + ahead) * chunkSize;
+}
+
+/**
+ * Lists the ranges of `[from, to]` owned by a shard, in ascending order.
+ * Chunks cut by the range bounds are clipped.
+ *
+ * @param from - First height (inclusive).
+ * @param to - Last height (inclusive).
+ * @param layout - Sharding layout of this process.
+ * @returns Owned ranges; empty when the shard owns nothing in the range.
+ */
+export function shardRanges(from: number, to: number, layout: ShardLayout): HeightRange[] {
+  const out: HeightRange[] = [];
+  let h = nextOwnedHeight(from, layout);
+  while (h <= to) {
+    const chunkEnd = (Math.floor(h / layout.chunkSize) + 1) * layout.chunkSize - 1;
+    out.push({ from: h, to: Math.min(chunkEnd, to) });
+    h = nextOwnedHeight(chunkEnd + 1, layout);
+  }
+  return out;
+}
+
+/**
+ * Computes the global contiguous watermark of a sharded run: the highest height `W` such that
+ * every height in `[floor, W]` has been processed by its owning shard.
+ *
+ * For each shard the next unprocessed owned height is derived from its own progress row
+ * (or `floor` when the shard has not written any); the watermark is the minimum of those minus one.
+ * Shards process their chunks in ascending order, so everything a shard owns below that
+ * height is done.
+ *
+ * @param pool - PostgreSQL pool used to read `core.indexer_progress`.
+ * @param baseId - Base progress id (`PG_PROGRESS_ID`).
+ * @param layout - Shards count and chunk size (the shard id is ignored).
+ * @param floor - First height the watermark is counted from.
+ * @returns The watermark; `floor - 1` when nothing contiguous has been processed yet.
+ */
+export async function computeShardWatermark(
+  pool: Pool,
+  baseId: string,
+  layout: Pick<ShardLayout, 'shards' | 'chunkSize'>,
+  floor: number,
+): Promise<number> {
+  let minNext = Number.POSITIVE_INFINITY;
+  for (let shardId = 0; shardId < layout.shards; shardId++) {
+    const last = await getProgress(pool, shardProgressId(baseId, shardId, layout.shards));
+    const from = last != null ? Math.max(floor, last + 1) : floor;
+    minNext = Math.min(minNext, nextOwnedHeight(from, { ...layout, shardId }));
+  }
+  return minNext - 1;
+}
+
+/**
+ * Options for {@link syncShard}.
+ *
+ * @property layout - Sharding layout of this process.
+ * @property watermark - When set, the global watermark is recomputed after every chunk and stored
+ *   under `baseId`; `floor` is the first height of the sharded run, common to all shards.
+ */
+export interface SyncShardOptions extends SyncRangeOptions {
+  layout: ShardLayout;
+  watermark?: { pool: Pool; baseId: string; floor: number };
+}
+
+/**
+ * Runs the regular range sync over the chunks of `[from, to]` owned by this shard.
+ *
+ * The sink is flushed after each chunk, so the shard's own progress row is up to date
+ * before the global watermark is recomputed.
+ *
+ * @param rpc - RPC client created from configuration.
+ * @param decodePool - Transaction decode worker pool.
+ * @param sink - Sink implementation where blocks are persisted.
+ * @param opts - Range options and sharding layout (type `SyncShardOptions`).
+ * @returns Totals over all owned chunks (type `SyncRangeResult`).
+ */
+export async function syncShard(
+  rpc: ReturnType<typeof createRpcClientFromConfig>,
+  decodePool: ReturnType<typeof createTxDecodePool>,
+  sink: ReturnType<typeof createSink>,
+  opts: SyncShardOptions,
+): Promise<SyncRangeResult> {
+  const { layout, watermark, ...rangeOpts } = opts;
+  const ranges = shardRanges(opts.from, opts.to, layout);
+  log.info(
+    `[shard ${layout.shardId + 1}/${layout.shards}] ${ranges.length} chunk(s) of ${layout.chunkSize} in [${opts.from}, ${opts.to}]`,
+  );
+
+  const total: SyncRangeResult = { processed: 0, failed: [] };
+  for (const r of ranges) {
+    const res = await syncRange(rpc, decodePool, sink, { ...rangeOpts, from: r.from, to: r.to });
+    total.processed += res.processed;
+    total.failed.push(...res.failed);
+    total.aborted = res.aborted;
+    total.drained = res.drained;
+    await sink.flush?.();
+
+    if (watermark) {
+      const w = await computeShardWatermark(watermark.pool, watermark.baseId, layout, watermark.floor);
+      if (w >= watermark.floor) await upsertProgress(watermark.pool, watermark.baseId, w);
+      log.info(`[shard ${layout.shardId + 1}/${layout.shards}] chunk [${r.from}, ${r.to}] done, global watermark=${w}`);
+    }
+    if (res.aborted) break;
+  }
+  return total;
+}
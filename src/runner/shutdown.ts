@@ -0,0 +1,75 @@
+/**
+ * Coordinates a graceful shutdown on SIGINT/SIGTERM.
+ */
+
+// src/runner/shutdown.ts
+import { getLogger } from '../utils/logger.ts';
+
+const log = getLogger('shutdown');
+
+/**
+ * Options for {@link createShutdown}.
+ *
+ * @property timeoutMs - How long in-flight heights may take to drain after a stop request.
+ *   The process is force-exited when cleanup has not finished after twice this long.
+ */
+export interface ShutdownOptions {
+  timeoutMs: number;
+}
+
+/**
+ * Shutdown coordinator shared by the runners of one process.
+ *
+ * @property signal - Aborted on the first SIGINT/SIGTERM; runners stop spawning new heights.
+ * @property requested - True once a stop was requested.
+ * @property markUnclean - Records that part of the drain did not complete (e.g. heights still in flight).
+ * @property exitCode - `0` when the process stopped cleanly, `1` when anything was marked unclean.
+ */
+export interface Shutdown {
+  signal: AbortSignal;
+  readonly requested: boolean;
+  markUnclean: (reason: string) => void;
+  exitCode: () => number;
+}
+
+/**
+ * Installs SIGINT/SIGTERM handlers and returns the coordinator.
+ *
+ * The first signal aborts {@link Shutdown.signal}; the caller is expected to let the runners drain,
+ * flush the sink and close pools, then exit with {@link Shutdown.exitCode}. A second signal,
+ * or cleanup that overruns twice the drain timeout, exits immediately with a non-zero code.
+ *
+ * @param opts - Shutdown options (type `ShutdownOptions`).
+ * @returns The shutdown coordinator (type `Shutdown`).
+ */
+export function createShutdown(opts: ShutdownOptions): Shutdown {
+  const controller = new AbortController();
+  const problems: string[] = [];
+
+  const onSignal = (sig: NodeJS.Signals) => {
+    if (controller.signal.aborted) {
+      log.error(`${sig} received again, exiting without draining`);
+      process.exit(130);
+    }
+    log.warn(`${sig} received, draining in-flight heights (timeout ${opts.timeoutMs}ms)…`);
+    controller.abort();
+    setTimeout(() => {
+      log.error(`shutdown did not complete within ${opts.timeoutMs * 2}ms, exiting`);
+      process.exit(1);
+    }, opts.timeoutMs * 2).unref();
+  };
+  process.on('SIGINT', onSignal);
+  process.on('SIGTERM', onSignal);
+
+  return {
+    signal: controller.signal,
+    get requested() {
+      return controller.signal.aborted;
+    },
+    markUnclean: (reason: string) => {
+      problems.push(reason);
+      log.warn(`unclean shutdown: ${reason}`);
+    },
+    exitCode: () => (problems.length > 0 ? 1 : 0),
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Progress and lag of every progress id.
+ */
+
+// src/runner/status.ts
+import type { Pool } from 'pg';
+import { getLogger } from '../utils/logger.ts';
+import { createRpcClientFromConfig } from '../rpc/client.ts';
+import { listProgress } from '../db/progress.ts';
+
+const log = getLogger('runner/status');
+
+/**
+ * Status of one progress id.
+ *
+ * @property id - Progress id.
+ * @property height - Stored height; a low watermark for descending runs (`…:desc`).
+ * @property direction - `desc` for descending runs, `asc` otherwise.
+ * @property lag - Heights behind the latest height of the RPC (ascending ids only).
+ * @property updatedAt - Time of the last update of the row.
+ */
+export interface ProgressStatus {
+  id: string;
+  height: number;
+  direction: 'asc' | 'desc';
+  lag: number | null;
+  updatedAt: Date | null;
+}
+
+/**
+ * Snapshot printed by the `status` command.
+ *
+ * @property latest - Latest height of the RPC, or null when it could not be reached.
+ * @property progress - One entry per progress id.
+ */
+export interface StatusReport {
+  latest: number | null;
+  progress: ProgressStatus[];
+}
+
+/**
+ * Reads every progress row and computes its lag behind the chain tip. An unreachable RPC is
+ * logged and leaves the lag empty.
+ *
+ * @param pool - PostgreSQL connection pool.
+ * @param rpc - RPC client created from configuration.
+ * @returns The status report (type `StatusReport`).
+ */
+export async function collectStatus(
+  pool: Pool,
+  rpc: ReturnType<typeof createRpcClientFromConfig>,
+): Promise<StatusReport> {
+  let latest: number | null = null;
+  try {
+    const status = await rpc.fetchStatus();
+    latest = Number(status['sync_info']['latest_block_height']);
+  } catch (e: any) {
+    log.warn(`[status] RPC unreachable, lag unknown: ${String(e?.message ?? e)}`);
+  }
+
+  const progress = (await listProgress(pool)).map((p): ProgressStatus => {
+    const direction = p.id.endsWith(':desc') ? 'desc' : 'asc';
+    return {
+      id: p.id,
+      height: p.lastHeight,
+      direction,
+      lag: direction === 'asc' && latest != null ? Math.max(0, latest - p.lastHeight) : null,
+      updatedAt: p.updatedAt,
+    };
+  });
+  return { latest, progress };
+}
+
+/**
+ * Prints a status report via logger.
+ *
+ * @param report - Report returned by {@link collectStatus}.
+ */
+export function printStatusReport(report: StatusReport): void {
+  log.info(`[status] latest height: ${report.latest ?? 'unknown'}`);
+  if (report.progress.length === 0) {
+    log.info('[status] no progress stored');
+    return;
+  }
+  const width = Math.max(...report.progress.map((p) => p.id.length));
+  for (const p of report.progress) {
+    const where = p.direction === 'desc' ? `low=${p.height}` : `height=${p.height}`;
+    const lag = p.lag != null ? ` lag=${p.lag}` : '';
+    const updated = p.updatedAt ? ` updated=${new Date(p.updatedAt).toISOString()}` : '';
+    log.info(`[status] ${p.id.padEnd(width)} ${where}${lag}${updated}`);
+  }
+}
@@ -7,10 +7,15 @@
  */
 import { assembleBlockJsonFromParts } from '../assemble/blockJson.ts';
 import { formatDuration } from '../utils/time.ts';
+import { approxJsonBytes } from '../utils/json.ts';
 import { getLogger } from '../utils/logger.ts';
 import { createRpcClientFromConfig } from '../rpc/client.ts';
+import { createBlockBatcher } from '../rpc/batch.ts';
+import { createTxCountPrefetcher, HEADERS_PER_CALL } from '../rpc/blockchain.ts';
 import { createTxDecodePool } from '../decode/txPool.ts';
+import { findUpgradeNames } from '../decode/protoManifest.ts';
 import { createSink } from '../sink/index.ts';
+import type { HeightFailure } from '../db/failedHeights.ts';
 
 const log = getLogger('runner/syncRange');
 
@@ -22,6 +27,21 @@ const log = getLogger('runner/syncRange');
  */
 export type CaseMode = 'camel' | 'snake';
 
+/**
+ * Order in which a range is walked and written.
+ * - `'asc'` — from `from` up to `to` (regular backfill and follow)
+ * - `'desc'` — from `to` down to `from` (newest history first)
+ */
+export type SyncDirection = 'asc' | 'desc';
+
+/**
+ * Handling of heights that `/blockchain` reports as empty.
+ * - `'off'` — every height takes the regular path
+ * - `'on'` — empty heights run outside the in-flight window and skip the decode pool
+ * - `'block-only'` — as `'on'`, and empty heights also skip `/block_results`
+ */
+export type EmptyFastPath = 'off' | 'on' | 'block-only';
+
 /**
  * Options controlling range synchronization behavior.
  * @property {number} from Inclusive starting height of the range.
@@ -33,6 +53,9 @@ export type CaseMode = 'camel' | 'snake';
  * @property {number} [blockTimeoutMs=30000] Per-height timeout in milliseconds for fetch/decode/assemble steps.
  * @property {number} [maxBlockRetries=3] Maximum retry attempts per height before we skip it.
  * @property {boolean} [reportSpeed=true] Include rate and ETA in progress logs.
+ * @property {Function} [onGiveUp] Called for each height skipped after exhausting `maxBlockRetries`.
+ * @property {number} [rpcBatch] Heights fetched per JSON-RPC batch request.
+ * @property {EmptyFastPath} [emptyFastPath] Route heights without transactions around the in-flight window.
  */
 export interface SyncRangeOptions {
   from: number;
@@ -47,6 +70,87 @@ export interface SyncRangeOptions {
   maxBlockRetries?: number;
   /** If true, include rate/ETA in progress logs. Defaults to true. */
   reportSpeed?: boolean;
+  /** Receives heights that were given up on (e.g. to persist them in a dead-letter table). */
+  onGiveUp?: (failure: HeightFailure) => void | Promise<void>;
+  /** When aborted, no new heights are spawned and the run returns once in-flight heights settle. */
+  signal?: AbortSignal;
+  /** How long to wait for in-flight heights after `signal` is aborted. Defaults to 30000. */
+  drainTimeoutMs?: number;
+  /**
+   * Approximate memory budget (bytes) for assembled blocks waiting in the reorder buffer.
+   * Above it, only the height blocking the head is (re)spawned. Unlimited when unset or 0.
+   */
+  maxBufferBytes?: number;
+  /**
+   * Walking order. With `'desc'` heights are spawned and written from `to` down to `from`.
+   * Defaults to `'asc'`.
+   */
+  direction?: SyncDirection;
+  /**
+   * Heights whose block and block results are fetched in one JSON-RPC batch request.
+   * New heights are spawned in groups of this size once as many slots are free, and each group
+   * goes out as one batch. Off when unset or 1,
+   * or when the client has no `fetchBlockBatch` (e.g. `source=cache`).
+   */
+  rpcBatch?: number;
+  /**
+   * Reads transaction counts from `/blockchain` (20 heights per call) ahead of the spawn loop.
+   * Empty heights run outside the `concurrency` window (up to {@link HEADERS_PER_CALL} times its
+   * size) and skip the decode pool, so the window is spent on heights that carry transactions.
+   * With `'block-only'` they skip `/block_results` too. Off when unset, or when the client has no
+   * `fetchBlockchain` (e.g. `source=cache`).
+   */
+  emptyFastPath?: EmptyFastPath;
+}
+
+/**
+ * Outcome of a {@link syncRange} run.
+ * @property {number} processed Number of heights that left the reorder buffer (written or skipped).
+ * @property {HeightFailure[]} failed Heights skipped after exhausting `maxBlockRetries`.
+ * @property {boolean} [aborted] True when the run was stopped through `signal` before reaching the end of the range.
+ * @property {boolean} [drained] False when in-flight heights were still pending at the drain deadline.
+ */
+export interface SyncRangeResult {
+  processed: number;
+  failed: HeightFailure[];
+  aborted?: boolean;
+  drained?: boolean;
+}
+
+/**
+ * Error tagged with the pipeline stage of a height that produced it
+ * (`fetchBlock`, `fetchBlockResults`, `fetchBatch`, `decode` or `assemble`).
+ */
+class StageError extends Error {
+  constructor(
+    readonly stage: string,
+    cause: unknown,
+  ) {
+    super(String((cause as any)?.message ?? cause));
+    this.name = 'StageError';
+  }
+}
+
+/**
+ * Re-throws any rejection of `p` as a {@link StageError} for the given stage.
+ * @template T
+ * @param {string} stage Stage label.
+ * @param {Promise<T>} p The promise to await.
+ * @returns {Promise<T>} The original promise result.
+ */
+function atStage<T>(stage: string, p: Promise<T>): Promise<T> {
+  return p.catch((e) => {
+    throw e instanceof StageError ? e : new StageError(stage, e);
+  });
+}
+
+/**
+ * Formats a byte count as megabytes with one decimal.
+ * @param {number} bytes Byte count.
+ * @returns {string} Megabytes, e.g. `12.5`.
+ */
+function formatMb(bytes: number): string {
+  return (bytes / (1024 * 1024)).toFixed(1);
 }
 
 /**
@@ -71,21 +175,30 @@ function withTimeout<T>(p: Promise<T>, ms: number, label: string): Promise<T> {
  * Internals:
  * - Spawns up to `concurrency` in-flight heights;
  * - Retries failed heights up to `maxBlockRetries`, queuing them in `retryQueue`;
- * - Maintains an in-memory `ready` buffer keyed by height to flush in-order;
- * - Periodically reports progress and ETA.
+ * - Walks the range upwards, or downwards from `to` with `direction: 'desc'`;
+ * - Maintains an in-memory `ready` buffer keyed by height to flush in-order, and pauses spawning
+ *   while its approximate size exceeds `maxBufferBytes`; retries of the head height go first;
+ * - With `rpcBatch`, spawns new heights in groups of `rpcBatch` and fetches each group through
+ *   one JSON-RPC batch request;
+ * - With `emptyFastPath`, learns transaction counts from `/blockchain` ahead of the spawn loop and
+ *   lets empty heights run outside the in-flight window;
+ * - Periodically reports progress and ETA;
+ * - On `signal` abort, stops spawning and waits up to `drainTimeoutMs` for in-flight heights.
+ *   Only the contiguous prefix of finished heights reaches the sink.
+ * - A sink write error (e.g. a detected fork) stops the run and is re-thrown.
  *
  * @param {ReturnType<typeof createRpcClientFromConfig>} rpc RPC client used to fetch blocks and results.
  * @param {ReturnType<typeof createTxDecodePool>} pool Worker pool that decodes base64 transactions.
  * @param {ReturnType<typeof createSink>} sink Destination writer that persists assembled blocks.
  * @param {SyncRangeOptions} opts Range and tuning options.
- * @returns {Promise<{ processed: number }>} Number of processed heights within the range.
+ * @returns {Promise<SyncRangeResult>} Number of processed heights and the heights that were given up on.
  */
 export async function syncRange(
   rpc: ReturnType<typeof createRpcClientFromConfig>,
   pool: ReturnType<typeof createTxDecodePool>,
   sink: ReturnType<typeof createSink>,
   opts: SyncRangeOptions,
-): Promise<{ processed: number }> {
+): Promise<SyncRangeResult> {
   const {
     from,
     to,
@@ -96,8 +209,30 @@ export async function syncRange(
     blockTimeoutMs = 30_000,
     maxBlockRetries = 3,
     reportSpeed = true,
+    onGiveUp,
+    signal,
+    drainTimeoutMs = 30_000,
+    maxBufferBytes = 0,
+    direction = 'asc',
+    rpcBatch = 1,
+    emptyFastPath = 'off',
   } = opts;
 
+  // An empty range has no height whose completion would settle the run below.
+  if (from > to) return { processed: 0, failed: [] };
+
+  // Heights advance by `step`; `first` is spawned and written first, `last` ends the range.
+  const step = direction === 'desc' ? -1 : 1;
+  const first = step > 0 ? from : to;
+  const last = step > 0 ? to : from;
+  const batcher = rpcBatch > 1 && rpc.fetchBlockBatch ? createBlockBatcher(rpc, rpcBatch) : undefined;
+  const txCounts =
+    emptyFastPath !== 'off' && rpc.fetchBlockchain
+      ? createTxCountPrefetcher(rpc, { from, to, step, onLoad: () => setImmediate(spawnMore) })
+      : undefined;
+  // Heights known to be empty, until they leave the pipeline (retries keep the light path).
+  const empty = new Set<number>();
+
   const totalBlocks = to - from + 1;
   let processed = 0;
   const t0 = Date.now();
@@ -129,38 +264,91 @@ export async function syncRange(
         msg += ` | rate ${rate.toFixed(1)} blk/s | ETA ${formatDuration(etaSec)}`;
       }
       msg += ` | inFlight=${inFlight} retryQ=${retryQ} next=${nextH}`;
+      msg += ` | buf=${formatMb(readyBytes)}MB/${ready.size}blk`;
+      if (maxBufferBytes > 0) msg += ` (max ${formatMb(maxBufferBytes)}MB)`;
+      if (rpc.adaptive) msg += ` | adaptive ${rpc.adaptive.describe()}`;
+      if (rpc.describe) msg += ` | rpc ${rpc.describe()}`;
+      msg += ` | decode ${pool.describe()}`;
       log.info(msg);
       lastLogAt = now;
     }
   }
 
   const ready = new Map<number, unknown>();
-  let nextToFlush = from;
+  // Approximate bytes per buffered height.
+  const readySizes = new Map<number, number>();
+  let readyBytes = 0;
+  let nextToFlush = first;
+  // Proto root each buffered height was decoded with (heights with transactions only).
+  const decodedWith = new Map<number, string | undefined>();
+
+  /**
+   * Places an assembled block (or skip marker) into the reorder buffer.
+   * @param {number} h Height.
+   * @param {unknown} obj Assembled block or placeholder.
+   * @returns {void}
+   */
+  function putReady(h: number, obj: unknown) {
+    ready.set(h, obj);
+    const size = approxJsonBytes(obj);
+    readySizes.set(h, size);
+    readyBytes += size;
+  }
+
+  /**
+   * Removes and returns a buffered height.
+   * @param {number} h Height.
+   * @returns {unknown} The buffered object.
+   */
+  function takeReady(h: number): unknown {
+    const obj = ready.get(h);
+    ready.delete(h);
+    readyBytes -= readySizes.get(h) ?? 0;
+    readySizes.delete(h);
+    return obj;
+  }
 
   /**
    * Flushes consecutive ready heights to the sink in order, starting from `nextToFlush`.
    * Skips special placeholders (objects that contain `__skip` or an `error` field),
    * but still advances progress counters so the pipeline keeps moving.
+   * A height decoded before an upgrade at a lower height was learned is queued again instead,
+   * so that its transactions are decoded with the proto root now in force.
    * @param {number} h Height that triggered the flush attempt (for logging context).
    * @returns {Promise<void>}
    */
   async function tryFlush(h: number) {
+    if (stopped) return;
     let flushed = 0;
     while (ready.has(nextToFlush)) {
-      const obj = ready.get(nextToFlush)! as any;
-      ready.delete(nextToFlush);
+      if (decodedWith.has(nextToFlush) && decodedWith.get(nextToFlush) !== pool.rootFor(nextToFlush)) {
+        log.info(`[syncRange] height ${nextToFlush} was decoded with an outdated proto root, decoding it again`);
+        takeReady(nextToFlush);
+        decodedWith.delete(nextToFlush);
+        retryQueue.unshift(nextToFlush);
+        break;
+      }
+      decodedWith.delete(nextToFlush);
+      const obj = takeReady(nextToFlush) as any;
       if (
         obj &&
         typeof obj === 'object' &&
         (obj.__skip === true || Object.prototype.hasOwnProperty.call(obj, 'error'))
       ) {
-        nextToFlush++;
+        nextToFlush += step;
         flushed++;
         processed++;
         continue;
       }
-      await sink.write(obj as any);
-      nextToFlush++;
+      try {
+        await sink.write(obj as any);
+      } catch (e) {
+        // A sink failure (e.g. a detected fork) ends the run; heights still in flight are dropped.
+        fatal ??= e;
+        finishRun?.();
+        return;
+      }
+      nextToFlush += step;
       flushed++;
       processed++;
     }
@@ -169,30 +357,63 @@ export async function syncRange(
 
   const attempts = new Map<number, number>();
   const retryQueue: number[] = [];
+  const failed: SyncRangeResult['failed'] = [];
 
   /**
    * Fetches, decodes and assembles a single height, handling timeouts and retries.
    * On success, places the assembled object into the `ready` buffer.
+   * A height known to be empty skips the decode pool, and with `'block-only'` also `/block_results`.
    * On repeated failures beyond `maxBlockRetries`, places a skip marker.
    * @param {number} h Target height to process.
    * @returns {Promise<void>}
    */
   async function processHeight(h: number) {
     try {
-      const [b, br] = await Promise.all([
-        withTimeout(rpc.fetchBlock(h), blockTimeoutMs, `fetchBlock@${h}`),
-        withTimeout(rpc.fetchBlockResults(h), blockTimeoutMs, `fetchBlockResults@${h}`),
-      ]);
+      const [b, br] =
+        empty.has(h) && emptyFastPath === 'block-only'
+          ? [await atStage('fetchBlock', withTimeout(rpc.fetchBlock(h), blockTimeoutMs, `fetchBlock@${h}`)), undefined]
+          : batcher
+            ? await atStage(
+                'fetchBatch',
+                withTimeout(
+                  batcher.fetch(h).then((p) => [p.block, p.blockResults]),
+                  blockTimeoutMs,
+                  `fetchBatch@${h}`,
+                ),
+              )
+            : await Promise.all([
+                atStage('fetchBlock', withTimeout(rpc.fetchBlock(h), blockTimeoutMs, `fetchBlock@${h}`)),
+                atStage(
+                  'fetchBlockResults',
+                  withTimeout(rpc.fetchBlockResults(h), blockTimeoutMs, `fetchBlockResults@${h}`),
+                ),
+              ]);
+      pool.noteUpgrades(h, findUpgradeNames(br));
       const txsB64: string[] = b?.block?.data?.txs ?? [];
-      const decoded = await Promise.all(
-        txsB64.map((x, i) => withTimeout(pool.submit(x), blockTimeoutMs, `decode#${i}@${h}`)),
-      );
-      const assembled = await withTimeout(
-        assembleBlockJsonFromParts(rpc, b, br, decoded, caseMode),
-        blockTimeoutMs,
-        `assemble@${h}`,
+      // `/blockchain` said empty but the block is not: its results are needed after all.
+      const results =
+        br === undefined && txsB64.length > 0
+          ? await atStage(
+              'fetchBlockResults',
+              withTimeout(rpc.fetchBlockResults(h), blockTimeoutMs, `fetchBlockResults@${h}`),
+            )
+          : br;
+      if (txsB64.length > 0) decodedWith.set(h, pool.rootFor(h));
+      // One worker decodes the whole block and hashes its transactions; an empty block needs no worker.
+      const txs =
+        txsB64.length > 0
+          ? await atStage('decode', withTimeout(pool.submitBlock(h, txsB64), blockTimeoutMs, `decode@${h}`))
+          : { decoded: [], hashes: [], hex: [] };
+      const assembled = await atStage(
+        'assemble',
+        withTimeout(
+          assembleBlockJsonFromParts(rpc, b, results, txs.decoded, caseMode, txs),
+          blockTimeoutMs,
+          `assemble@${h}`,
+        ),
       );
-      ready.set(h, assembled);
+      putReady(h, assembled);
+      empty.delete(h);
     } catch (e: any) {
       const n = (attempts.get(h) ?? 0) + 1;
       attempts.set(h, n);
@@ -200,36 +421,141 @@ export async function syncRange(
         retryQueue.push(h);
         log.warn(`retry ${n}/${maxBlockRetries} for height ${h}: ${String(e?.message ?? e)}`);
       } else {
-        ready.set(h, { __skip: true, height: h, error: String(e?.message ?? e) });
-        log.error(`giving up height ${h}: ${String(e?.message ?? e)}`);
+        const failure: HeightFailure = {
+          height: h,
+          stage: e instanceof StageError ? e.stage : 'unknown',
+          error: String(e?.message ?? e),
+          attempts: n,
+        };
+        putReady(h, { __skip: true, height: h, error: failure.error });
+        empty.delete(h);
+        failed.push(failure);
+        log.error(`giving up height ${h} at ${failure.stage}: ${failure.error}`);
+        if (onGiveUp) {
+          try {
+            await onGiveUp(failure);
+          } catch (err: any) {
+            log.error(`onGiveUp failed for height ${h}: ${String(err?.message ?? err)}`);
+          }
+        }
       }
     } finally {
       await tryFlush(h);
     }
   }
 
-  let nextHeight = from;
+  let nextHeight = first;
+  const hasNext = () => (step > 0 ? nextHeight <= to : nextHeight >= from);
   let inFlight = 0;
+  // In-flight heights known to be empty; they do not count against the window.
+  let lightInFlight = 0;
+  let spawnMore = () => {};
+  // Set once the run has returned; late completions after a drain timeout must not reach the sink.
+  let stopped = false;
+  let drained = true;
+  let overBudget = false;
+  // First error thrown by the sink, and the hook that ends the run early because of it.
+  let fatal: unknown;
+  let finishRun: (() => void) | undefined;
+
+  /**
+   * Picks the next height to spawn: the head height from the retry queue first, then other retries,
+   * then new heights. While the buffer is over budget, only the head height may be spawned.
+   * A height is only taken when `room` has a slot for it; a new height also waits for its
+   * `/blockchain` window with `emptyFastPath`.
+   * @param {(h: number, fresh: boolean) => boolean} room Whether a slot is free for the height;
+   *   `fresh` is true for a height spawned for the first time.
+   * @returns {number | undefined} Height to spawn, or undefined when nothing may be spawned now.
+   */
+  function nextToSpawn(room: (h: number, fresh: boolean) => boolean): number | undefined {
+    const headIdx = retryQueue.indexOf(nextToFlush);
+    if (headIdx >= 0) return room(nextToFlush, false) ? retryQueue.splice(headIdx, 1)[0] : undefined;
+    const full = maxBufferBytes > 0 && readyBytes >= maxBufferBytes;
+    if (full !== overBudget) {
+      overBudget = full;
+      if (full) {
+        log.warn(`[syncRange] reorder buffer ${formatMb(readyBytes)}MB over budget, waiting for height ${nextToFlush}`);
+      }
+    }
+    if (full) return undefined;
+    if (retryQueue.length > 0) return room(retryQueue[0]!, false) ? retryQueue.shift() : undefined;
+    if (!hasNext()) return undefined;
+    const h = nextHeight;
+    if (txCounts) {
+      txCounts.prefetch(h);
+      const n = txCounts.peek(h);
+      // The window's load wakes the spawn loop again.
+      if (n === 'pending') return undefined;
+      if (n === 0) empty.add(h);
+    }
+    if (!room(h, true)) return undefined;
+    nextHeight += step;
+    return h;
+  }
 
   await new Promise<void>((resolve) => {
+    let drainTimer: NodeJS.Timeout | undefined;
+    const finish = () => {
+      if (stopped) return;
+      stopped = true;
+      clearTimeout(drainTimer);
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    };
+    finishRun = finish;
+    const onAbort = () => {
+      if (inFlight === 0) return finish();
+      log.warn(`[syncRange] stop requested, waiting for ${inFlight} in-flight height(s)`);
+      drainTimer = setTimeout(() => {
+        drained = false;
+        log.warn(`[syncRange] ${inFlight} height(s) still in flight after ${drainTimeoutMs}ms, giving up on them`);
+        finish();
+      }, drainTimeoutMs);
+    };
     const maybeSpawn = () => {
-      while (inFlight < concurrency && (nextHeight <= to || retryQueue.length > 0)) {
-        const h = retryQueue.length > 0 ? (retryQueue.shift() as number) : nextHeight++;
+      if (stopped) return;
+      // With an adaptive RPC client the window follows the controller, capped by `concurrency`.
+      const window = Math.min(concurrency, rpc.adaptive?.concurrency() ?? concurrency);
+      // With `rpcBatch`, new heights are spawned whole batches at a time, so that each batch request
+      // carries `rpcBatch` heights rather than the one height whose slot just freed up.
+      const remaining = step > 0 ? to - nextHeight + 1 : nextHeight - from + 1;
+      const group = Math.max(1, Math.min(rpcBatch, window, remaining));
+      let freshLeft = batcher ? Math.floor((window - (inFlight - lightInFlight)) / group) * group : Infinity;
+      const room = (h: number, fresh: boolean) =>
+        empty.has(h)
+          ? lightInFlight < window * HEADERS_PER_CALL
+          : inFlight - lightInFlight < window && (!fresh || freshLeft > 0);
+      while (!signal?.aborted && (hasNext() || retryQueue.length > 0)) {
+        const before = nextHeight;
+        const h = nextToSpawn(room);
+        if (h === undefined) break;
+        if (nextHeight !== before && !empty.has(h)) freshLeft--;
+        const light = empty.has(h);
         inFlight++;
+        if (light) lightInFlight++;
         processHeight(h).finally(() => {
           inFlight--;
-          if (nextHeight > to && retryQueue.length === 0 && inFlight === 0) {
-            resolve();
-          } else {
+          if (light) lightInFlight--;
+          const done = signal?.aborted ? inFlight === 0 : !hasNext() && retryQueue.length === 0 && inFlight === 0;
+          if (done) {
+            finish();
+          } else if (!signal?.aborted) {
             setImmediate(maybeSpawn);
           }
         });
       }
-      maybeReportProgress(false, nextHeight - 1, inFlight, retryQueue.length, nextHeight);
+      maybeReportProgress(false, nextHeight - step, inFlight, retryQueue.length, nextHeight);
     };
+    spawnMore = maybeSpawn;
+    if (signal?.aborted) return onAbort();
+    signal?.addEventListener('abort', onAbort, { once: true });
     maybeSpawn();
   });
 
-  maybeReportProgress(true, to, 0, 0, nextHeight);
-  return { processed };
+  if (fatal !== undefined) throw fatal;
+  const aborted = signal?.aborted === true && nextToFlush >= from && nextToFlush <= to;
+  maybeReportProgress(true, aborted ? nextToFlush - step : last, 0, 0, nextHeight);
+  if (failed.length > 0) log.warn(`[syncRange] ${failed.length} height(s) skipped in [${from}, ${to}]`);
+  if (aborted) log.warn(`[syncRange] stopped at height ${nextToFlush - step} of [${from}, ${to}]`);
+  return { processed, failed, aborted, drained };
 }
@@ -0,0 +1,112 @@
+/**
+ * Resolves `--from-time` / `--to-time` to heights: from `core.blocks` when it covers the time,
+ * otherwise by binary search over `/block` header times.
+ */
+
+// src/runner/timeRange.ts
+import type { Pool } from 'pg';
+import { getLogger } from '../utils/logger.ts';
+import { createRpcClientFromConfig } from '../rpc/client.ts';
+import { findStoredHeightAtTime } from '../db/blockTime.ts';
+
+const log = getLogger('runner/timeRange');
+
+/**
+ * Where the heights are looked up.
+ *
+ * @property pool - Pool used to read `core.blocks`; the RPC is used alone when omitted.
+ * @property rpc - RPC client; only `core.blocks` is used when omitted.
+ * @property earliest - Lowest height the RPC serves.
+ * @property latest - Highest height the RPC serves.
+ */
+export interface TimeLookup {
+  pool?: Pool;
+  rpc?: ReturnType<typeof createRpcClientFromConfig>;
+  earliest?: number;
+  latest?: number;
+}
+
+/**
+ * Returns the block time of a height served by the RPC.
+ * @param rpc - RPC client.
+ * @param height - Block height.
+ * @returns The header time.
+ */
+async function rpcBlockTime(rpc: ReturnType<typeof createRpcClientFromConfig>, height: number): Promise<Date> {
+  const b = await rpc.fetchBlock(height);
+  const t = new Date(b?.block?.header?.time);
+  if (Number.isNaN(t.getTime())) throw new Error(`block ${height} has no header time`);
+  return t;
+}
+
+/**
+ * Finds the first height whose block time is at or after `time` (strictly after it when
+ * `inclusive` is false). `core.blocks` is tried first; the RPC is binary searched when the
+ * stored rows do not cover `time`.
+ *
+ * @param time - Point in time.
+ * @param inclusive - Whether a block at exactly `time` counts.
+ * @param lookup - Where to look (type `TimeLookup`).
+ * @returns The height and where it was found; `latest + 1` when every block is earlier.
+ * @throws {Error} When neither `core.blocks` nor the RPC can answer.
+ */
+export async function firstHeightAtTime(
+  time: Date,
+  inclusive: boolean,
+  lookup: TimeLookup,
+): Promise<{ height: number; source: 'core.blocks' | 'rpc' }> {
+  if (lookup.pool) {
+    const stored = await findStoredHeightAtTime(lookup.pool, time, inclusive);
+    if (stored != null) return { height: stored, source: 'core.blocks' };
+  }
+  const { rpc, earliest, latest } = lookup;
+  if (!rpc || earliest == null || latest == null) {
+    throw new Error(`${time.toISOString()} is not covered by core.blocks and no RPC is available`);
+  }
+
+  const matches = (t: Date) => (inclusive ? t >= time : t > time);
+  let lo = earliest;
+  let hi = latest + 1;
+  while (lo < hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (matches(await rpcBlockTime(rpc, mid))) hi = mid;
+    else lo = mid + 1;
+  }
+  return { height: lo, source: 'rpc' };
+}
+
+/**
+ * Resolves a time range to heights: `fromTime` to the first block at or after it, `toTime` to
+ * the last block at or before it. The resolved heights are logged.
+ *
+ * @param range - ISO timestamps; either may be omitted.
+ * @param lookup - Where to look (type `TimeLookup`).
+ * @returns The heights of the given bounds.
+ * @throws {Error} When a bound lies outside the chain served by the RPC, or the range has no block.
+ */
+export async function resolveTimeRange(
+  range: { fromTime?: string; toTime?: string },
+  lookup: TimeLookup,
+): Promise<{ from?: number; to?: number }> {
+  const out: { from?: number; to?: number } = {};
+  if (range.fromTime) {
+    const res = await firstHeightAtTime(new Date(range.fromTime), true, lookup);
+    if (res.source === 'rpc' && res.height > lookup.latest!) {
+      throw new Error(`--from-time=${range.fromTime} is after the latest block (${lookup.latest})`);
+    }
+    out.from = res.height;
+    log.info(`[range] --from-time=${range.fromTime} → from=${out.from} (${res.source})`);
+  }
+  if (range.toTime) {
+    const res = await firstHeightAtTime(new Date(range.toTime), false, lookup);
+    if (res.source === 'rpc' && res.height <= lookup.earliest!) {
+      throw new Error(`--to-time=${range.toTime} is before the earliest available block (${lookup.earliest})`);
+    }
+    out.to = res.height - 1;
+    log.info(`[range] --to-time=${range.toTime} → to=${out.to} (${res.source})`);
+  }
+  if (out.from != null && out.to != null && out.to < out.from) {
+    throw new Error(`no block between ${range.fromTime} and ${range.toTime}`);
+  }
+  return out;
+}
@@ -0,0 +1,194 @@
+/**
+ * Integrity check of stored blocks against the RPC.
+ */
+
+// src/runner/verify.ts
+import type { Pool } from 'pg';
+import { getLogger } from '../utils/logger.ts';
+import { pLimit } from '../utils/pLimit.ts';
+import { createRpcClientFromConfig } from '../rpc/client.ts';
+import { HeightRange } from '../db/gaps.ts';
+import { loadBlockDigests, sampleStoredHeights, StoredBlockDigest } from '../db/verify.ts';
+
+const log = getLogger('runner/verify');
+
+/** Heights read from Postgres per query. */
+const WINDOW = 1000;
+
+/**
+ * Options controlling a verify run.
+ *
+ * @property from - First height of the checked range (inclusive).
+ * @property to - Last height of the checked range (inclusive).
+ * @property concurrency - Maximum number of blocks fetched in parallel.
+ * @property sample - Number of random stored heights to check; 0 checks every height of the range.
+ * @property signal - Optional abort signal; stops after the current window.
+ */
+export interface VerifyOptions {
+  from: number;
+  to: number;
+  concurrency: number;
+  sample: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * A stored value that differs from the chain.
+ *
+ * @property height - Block height.
+ * @property field - `block_hash`, `app_hash`, `tx_count` (`core.blocks`) or `transactions` (`core.transactions` rows).
+ * @property stored - Stored value.
+ * @property remote - Value served by the RPC.
+ */
+export interface VerifyMismatch {
+  height: number;
+  field: 'block_hash' | 'app_hash' | 'tx_count' | 'transactions';
+  stored: string | number | null;
+  remote: string | number | null;
+}
+
+/**
+ * Summary of a verify run.
+ *
+ * @property range - The checked range.
+ * @property checked - Stored heights compared with the RPC.
+ * @property missing - Heights of the range without a stored block (not counted with `sample`).
+ * @property mismatches - Stored values that differ from the chain.
+ * @property errors - Heights that could not be fetched from the RPC.
+ * @property aborted - True when the run was stopped before the end of the range.
+ */
+export interface VerifyReport {
+  range: HeightRange;
+  checked: number;
+  missing: number;
+  mismatches: VerifyMismatch[];
+  errors: Array<{ height: number; error: string }>;
+  aborted: boolean;
+}
+
+/**
+ * Compares a stored block with the block served by the RPC.
+ *
+ * @param stored - Stored digest.
+ * @param remote - `/block` result.
+ * @returns The differing fields.
+ */
+export function compareBlock(stored: StoredBlockDigest, remote: any): VerifyMismatch[] {
+  const out: VerifyMismatch[] = [];
+  const h = stored.height;
+  const hash = remote?.block_id?.hash ? String(remote.block_id.hash).toUpperCase() : null;
+  const appHash = remote?.block?.header?.app_hash ? String(remote.block.header.app_hash).toUpperCase() : null;
+  const txs = Array.isArray(remote?.block?.data?.txs) ? remote.block.data.txs.length : 0;
+
+  if (stored.blockHash.toUpperCase() !== hash) {
+    out.push({ height: h, field: 'block_hash', stored: stored.blockHash, remote: hash });
+  }
+  if (stored.appHash != null && stored.appHash.toUpperCase() !== appHash) {
+    out.push({ height: h, field: 'app_hash', stored: stored.appHash, remote: appHash });
+  }
+  if (stored.txCount !== txs) out.push({ height: h, field: 'tx_count', stored: stored.txCount, remote: txs });
+  if (stored.storedTxs !== txs) out.push({ height: h, field: 'transactions', stored: stored.storedTxs, remote: txs });
+  return out;
+}
+
+/**
+ * Yields the heights of `[from, to]` in windows of {@link WINDOW}, each built when it is reached.
+ *
+ * @param from - First height (inclusive).
+ * @param to - Last height (inclusive).
+ */
+function* heightWindows(from: number, to: number): Generator<number[]> {
+  for (let h = from; h <= to; h += WINDOW) {
+    const end = Math.min(to, h + WINDOW - 1);
+    yield Array.from({ length: end - h + 1 }, (_, i) => h + i);
+  }
+}
+
+/**
+ * Yields consecutive slices of {@link WINDOW} heights.
+ *
+ * @param heights - Heights to check.
+ */
+function* chunksOf(heights: number[]): Generator<number[]> {
+  for (let i = 0; i < heights.length; i += WINDOW) yield heights.slice(i, i + WINDOW);
+}
+
+/**
+ * Checks stored blocks of a range against the RPC: block hash, app hash and transaction count
+ * of `core.blocks`, and the number of `core.transactions` rows per height.
+ *
+ * @param pool - Pool used to read the stored blocks.
+ * @param rpc - RPC client created from configuration.
+ * @param opts - Range and tuning options (type `VerifyOptions`).
+ * @returns The verify report (type `VerifyReport`).
+ */
+export async function verifyRange(
+  pool: Pool,
+  rpc: ReturnType<typeof createRpcClientFromConfig>,
+  opts: VerifyOptions,
+): Promise<VerifyReport> {
+  const report: VerifyReport = {
+    range: { from: opts.from, to: opts.to },
+    checked: 0,
+    missing: 0,
+    mismatches: [],
+    errors: [],
+    aborted: false,
+  };
+  const limit = pLimit(Math.max(1, opts.concurrency));
+
+  let windows: Iterable<number[]>;
+  if (opts.sample > 0) {
+    const heights = await sampleStoredHeights(pool, opts.from, opts.to, opts.sample);
+    windows = chunksOf(heights);
+    log.info(`[verify] checking ${heights.length} random stored height(s) of [${opts.from}, ${opts.to}]`);
+  } else {
+    windows = heightWindows(opts.from, opts.to);
+    log.info(`[verify] checking [${opts.from}, ${opts.to}]`);
+  }
+
+  for (const heights of windows) {
+    if (opts.signal?.aborted) {
+      report.aborted = true;
+      break;
+    }
+    const stored = await loadBlockDigests(pool, heights);
+    if (opts.sample === 0) report.missing += heights.length - stored.length;
+    await Promise.all(
+      stored.map((s) =>
+        limit(async () => {
+          try {
+            const remote = await rpc.fetchBlock(s.height);
+            report.mismatches.push(...compareBlock(s, remote));
+            report.checked++;
+          } catch (e: any) {
+            report.errors.push({ height: s.height, error: String(e?.message ?? e) });
+          }
+        }),
+      ),
+    );
+    log.debug(`[verify] checked up to ${heights[heights.length - 1]}`);
+  }
+  report.mismatches.sort((a, b) => a.height - b.height);
+  return report;
+}
+
+/**
+ * Prints a verify report via logger.
+ *
+ * @param report - Report returned by {@link verifyRange}.
+ */
+export function printVerifyReport(report: VerifyReport): void {
+  const bad = new Set(report.mismatches.map((m) => m.height)).size;
+  log.info(
+    `[verify] report for [${report.range.from}, ${report.range.to}]: checked=${report.checked} ` +
+      `mismatched=${bad} missing=${report.missing} rpc errors=${report.errors.length}` +
+      (report.aborted ? ' (stopped early)' : ''),
+  );
+  for (const m of report.mismatches.slice(0, 50)) {
+    log.warn(`[verify] height ${m.height} ${m.field}: stored=${m.stored} rpc=${m.remote}`);
+  }
+  if (report.mismatches.length > 50) log.warn(`[verify] … and ${report.mismatches.length - 50} more mismatch(es)`);
+  for (const e of report.errors.slice(0, 20)) log.warn(`[verify] height ${e.height} not checked: ${e.error}`);
+  if (report.missing > 0) log.warn(`[verify] ${report.missing} height(s) are not stored; run "repair" to fill them`);
+}
@@ -0,0 +1,94 @@
+// src/sink/pg/derive.ts
+/**
+ * Runs extractors over a transaction's messages and events (or over an assembled block) and
+ * writes their rows.
+ *
+ * Shared by the sink, which extracts rows from assembled blocks, and by the rederive runners,
+ * which extract them again from rows already stored in `core.*`.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { PoolClient } from 'pg';
+import { execBatchedInsert } from './batch.ts';
+import type { BuiltRows, ExtractedRows, Extractor, ExtractorEvent, ExtractTxContext } from './extractors/types.ts';
+
+/**
+ * Appends builder output to the rows of an extractor.
+ * @param {ExtractedRows} out - Output rows per extractor.
+ * @param {string} name - Extractor name.
+ * @param {BuiltRows<any>} built - Builder output.
+ * @returns {void}
+ */
+function pushBuilt(out: ExtractedRows, name: string, built: BuiltRows<any>): void {
+  if (built == null) return;
+  const rows = (out[name] ??= []);
+  if (Array.isArray(built)) rows.push(...built);
+  else rows.push(built);
+}
+
+/**
+ * Runs the message and event builders of `extractors` over one transaction. Nested messages are
+ * passed to `fromMessage` after the top-level ones, with the index of their top-level message and
+ * their path below it.
+ * @param {readonly Extractor[]} extractors - Extractors to run.
+ * @param {ExtractTxContext} tx - Transaction inputs.
+ * @param {ExtractorEvent[]} events - The transaction's events, in log order.
+ * @param {ExtractedRows} out - Output rows per extractor.
+ * @returns {void}
+ */
+export function extractTxRows(
+  extractors: readonly Extractor[],
+  tx: ExtractTxContext,
+  events: ExtractorEvent[],
+  out: ExtractedRows,
+): void {
+  for (const e of extractors) {
+    if (e.fromMessage) {
+      const matches = (m: any) => !e.msgTypes || e.msgTypes.includes(m?.['@type'] ?? m?.type_url ?? '');
+      for (let i = 0; i < tx.msgs.length; i++) {
+        // Stored messages are placed by msg_index; a missing row leaves a hole.
+        if (!(i in tx.msgs)) continue;
+        const m = tx.msgs[i];
+        if (matches(m)) pushBuilt(out, e.name, e.fromMessage(m, i, tx, []));
+      }
+      for (const inner of tx.innerMsgs ?? []) {
+        if (matches(inner.msg))
+          pushBuilt(out, e.name, e.fromMessage(inner.msg, inner.msg_index, tx, inner.inner_index));
+      }
+    }
+    if (e.fromEvent) {
+      for (const ev of events) {
+        if (!e.eventTypes || e.eventTypes.includes(ev.type)) pushBuilt(out, e.name, e.fromEvent(ev, tx));
+      }
+    }
+  }
+}
+
+/**
+ * Runs the block builders of `extractors` over an assembled block line.
+ * @param {readonly Extractor[]} extractors - Extractors to run.
+ * @param {any} blockLine - Assembled block line.
+ * @param {ExtractedRows} out - Output rows per extractor.
+ * @returns {void}
+ */
+export function extractBlockRows(extractors: readonly Extractor[], blockLine: any, out: ExtractedRows): void {
+  for (const e of extractors) {
+    if (e.fromBlock) pushBuilt(out, e.name, e.fromBlock(blockLine));
+  }
+}
+
+/**
+ * Writes rows of one extractor: through its `flush` when it has one, otherwise as a batched
+ * INSERT into its target table.
+ * @param {PoolClient} client - Client inside the caller's transaction.
+ * @param {Extractor} e - Extractor.
+ * @param {any[] | undefined} rows - Rows built by the extractor.
+ * @returns {Promise<void>}
+ */
+export async function flushExtractorRows(client: PoolClient, e: Extractor, rows: any[] | undefined): Promise<void> {
+  if (!rows?.length) return;
+  if (e.flush) return e.flush(client, rows);
+  await client.query(`SET LOCAL statement_timeout = '30s'`);
+  await client.query(`SET LOCAL lock_timeout = '5s'`);
+  const { table, columns, conflict, casts } = e.target;
+  await execBatchedInsert(client, table, columns, rows, conflict, casts, { maxRows: 5000, maxParams: 30000 });
+}
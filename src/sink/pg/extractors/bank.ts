@@ -0,0 +1,43 @@
+// src/sink/pg/extractors/bank.ts
+import { findAttr, parseCoin } from '../parsing.ts';
+import type { Extractor } from './types.ts';
+
+/** Row of `bank.transfers`. */
+export type TransferRow = {
+  tx_hash: string | null;
+  msg_index: number;
+  from_addr: string;
+  to_addr: string;
+  denom: string;
+  amount: string;
+  height: number;
+};
+
+/** `transfer` events → `bank.transfers`. */
+export const transfersExtractor: Extractor<TransferRow> = {
+  name: 'transfers',
+  version: 1,
+  eventTypes: ['transfer'],
+  fromEvent: (ev, tx) => {
+    const sender = findAttr(ev.attributes, 'sender');
+    const recipient = findAttr(ev.attributes, 'recipient');
+    const coin = parseCoin(findAttr(ev.attributes, 'amount'));
+    if (!sender || !recipient || !coin) return null;
+    return {
+      tx_hash: tx.tx_hash,
+      msg_index: ev.msg_index,
+      from_addr: sender,
+      to_addr: recipient,
+      denom: coin.denom,
+      amount: coin.amount,
+      height: tx.height,
+    };
+  },
+  target: {
+    table: 'bank.transfers',
+    columns: ['tx_hash', 'msg_index', 'from_addr', 'to_addr', 'denom', 'amount', 'height'],
+    conflict: 'ON CONFLICT (height, tx_hash, msg_index, from_addr, to_addr, denom) DO NOTHING',
+    partitioned: true,
+  },
+  flushOrder: 10,
+};
@@ -0,0 +1,97 @@
+// src/sink/pg/extractors/gov.ts
+import { extractGovFromBlock } from '../../../normalize/gov.ts';
+import type { GovDepositRow, GovProposalRow, GovVoteRow } from '../../../normalize/gov.ts';
+import { flushGovDeposits, flushGovVotes, upsertGovProposals } from '../flushers/gov.ts';
+import type { Extractor, ExtractorEvent, ExtractTxContext } from './types.ts';
+
+const SUBMIT_PROPOSAL_TYPES = ['/cosmos.gov.v1beta1.MsgSubmitProposal', '/cosmos.gov.v1.MsgSubmitProposal'];
+
+const typeUrlOf = (msg: any): string => msg?.['@type'] ?? msg?.type_url ?? '';
+
+/**
+ * Builds the governance rows of one message of a successful transaction.
+ * @param {any} msg - Decoded message.
+ * @param {ExtractTxContext} tx - Transaction inputs.
+ * @param {ExtractorEvent[]} [events] - Events of the message's log.
+ * @returns Deposits, votes and proposals, all empty for failed transactions.
+ */
+function govRowsOf(msg: any, tx: ExtractTxContext, events: ExtractorEvent[] = []) {
+  if (!tx.tx_hash || tx.code !== 0) return { deposits: [], votes: [], proposals: [] };
+  return extractGovFromBlock({
+    height: tx.height,
+    txHash: tx.tx_hash,
+    blockTime: tx.time,
+    msgs: [{ type_url: typeUrlOf(msg), value: msg, signer: msg?.proposer ?? tx.firstSigner ?? null }],
+    eventsByMsg: [events],
+  });
+}
+
+/**
+ * Returns the `MsgSubmitProposal` an event's log belongs to: the top-level message or one nested
+ * in it (e.g. through authz `MsgExec`), or the first of the transaction for flat logs.
+ * @param {ExtractTxContext} tx - Transaction inputs.
+ * @param {number} msgIndex - Message index of the log (-1 for flat logs).
+ * @returns {any} The message, or undefined.
+ */
+function submitProposalAt(tx: ExtractTxContext, msgIndex: number): any {
+  const inLog = (i: number) => msgIndex < 0 || i === msgIndex;
+  const candidates = [
+    ...tx.msgs.filter((_, i) => inLog(i)),
+    ...(tx.innerMsgs ?? []).filter((m) => inLog(m.msg_index)).map((m) => m.msg),
+  ];
+  return candidates.find((m) => SUBMIT_PROPOSAL_TYPES.includes(typeUrlOf(m)));
+}
+
+/** `MsgDeposit` messages → `gov.deposits`. */
+export const govDepositsExtractor: Extractor<GovDepositRow> = {
+  name: 'gov_deposits',
+  version: 3,
+  msgTypes: ['/cosmos.gov.v1beta1.MsgDeposit', '/cosmos.gov.v1.MsgDeposit'],
+  fromMessage: (m, _i, tx) => govRowsOf(m, tx).deposits,
+  target: {
+    table: 'gov.deposits',
+    columns: ['proposal_id', 'depositor', 'denom', 'amount', 'height', 'tx_hash'],
+    conflict: 'ON CONFLICT DO NOTHING',
+    partitioned: true,
+  },
+  flushOrder: 60,
+  flush: flushGovDeposits,
+};
+
+/** `MsgVote` messages → `gov.votes`. */
+export const govVotesExtractor: Extractor<GovVoteRow> = {
+  name: 'gov_votes',
+  version: 3,
+  msgTypes: ['/cosmos.gov.v1beta1.MsgVote', '/cosmos.gov.v1.MsgVote'],
+  fromMessage: (m, _i, tx) => govRowsOf(m, tx).votes,
+  target: {
+    table: 'gov.votes',
+    columns: ['proposal_id', 'voter', 'option', 'weight', 'height', 'tx_hash'],
+    conflict: 'ON CONFLICT DO NOTHING',
+    partitioned: true,
+  },
+  flushOrder: 70,
+  flush: flushGovVotes,
+};
+
+/**
+ * `submit_proposal` events → `gov.proposals`, upserted by proposal id. The id comes from the event,
+ * title and content from the `MsgSubmitProposal` of its log.
+ */
+export const govProposalsExtractor: Extractor<GovProposalRow> = {
+  name: 'gov_proposals',
+  version: 3,
+  eventTypes: ['submit_proposal'],
+  fromEvent: (ev, tx) => {
+    const msg = submitProposalAt(tx, ev.msg_index);
+    return msg ? govRowsOf(msg, tx, [ev]).proposals : null;
+  },
+  target: {
+    table: 'gov.proposals',
+    columns: ['proposal_id', 'submitter', 'title', 'summary', 'proposal_type', 'status', 'submit_time'],
+    conflict: 'ON CONFLICT (proposal_id) DO UPDATE',
+    batchSize: 1000,
+  },
+  flushOrder: 80,
+  flush: upsertGovProposals,
+};
@@ -0,0 +1,143 @@
+// src/sink/pg/extractors/index.ts
+/**
+ * Extractor registry: the built-in extractors plus those registered from a plugins directory.
+ *
+ * A plugin is a `.ts`, `.js` or `.mjs` file whose default export (or `extractors` export) is an
+ * {@link Extractor} or an array of them. Plugins are loaded once at startup, before the sink is created.
+ */
+import { readdir } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { getLogger } from '../../../utils/logger.js';
+import type { Extractor } from './types.ts';
+import { transfersExtractor } from './bank.ts';
+import { delegationEventsExtractor, distributionEventsExtractor } from './stake.ts';
+import { wasmEventsExtractor, wasmExecutionsExtractor } from './wasm.ts';
+import { govDepositsExtractor, govProposalsExtractor, govVotesExtractor } from './gov.ts';
+
+export type {
+  BuiltRows,
+  ExtractedRows,
+  Extractor,
+  ExtractorEvent,
+  ExtractorTarget,
+  ExtractTxContext,
+  InnerMessage,
+} from './types.ts';
+
+const log = getLogger('sink/pg/extractors');
+
+/** Extractors shipped with the indexer. */
+export const BUILTIN_EXTRACTORS: readonly Extractor[] = [
+  transfersExtractor,
+  delegationEventsExtractor,
+  distributionEventsExtractor,
+  wasmExecutionsExtractor,
+  wasmEventsExtractor,
+  govDepositsExtractor,
+  govVotesExtractor,
+  govProposalsExtractor,
+];
+
+const registry: Extractor[] = [...BUILTIN_EXTRACTORS];
+
+/**
+ * Checks the shape of an extractor and that its name is not taken.
+ * @param {any} e - Candidate extractor.
+ * @param {string} origin - Where it comes from, for error messages.
+ * @returns {void}
+ * @throws {Error} When the extractor is malformed or its name is already registered.
+ */
+function validateExtractor(e: any, origin: string): void {
+  if (!e || typeof e.name !== 'string' || !e.name) throw new Error(`${origin}: extractor without a name`);
+  if (!Number.isInteger(e.version) || e.version < 1) {
+    throw new Error(`${origin}: extractor "${e.name}" needs an integer version >= 1`);
+  }
+  if (!e.fromMessage && !e.fromEvent && !e.fromBlock) {
+    throw new Error(`${origin}: extractor "${e.name}" has no fromMessage, fromEvent or fromBlock`);
+  }
+  const t = e.target;
+  if (!t || typeof t.table !== 'string' || !Array.isArray(t.columns) || typeof t.conflict !== 'string') {
+    throw new Error(`${origin}: extractor "${e.name}" needs target.table, target.columns and target.conflict`);
+  }
+  if (registry.some((x) => x.name === e.name))
+    throw new Error(`${origin}: extractor "${e.name}" is already registered`);
+}
+
+/**
+ * Registers an extractor.
+ * @param {Extractor} e - Extractor to add.
+ * @param {string} [origin='registerExtractor'] - Where it comes from, for error messages.
+ * @returns {void}
+ * @throws {Error} When the extractor is malformed or its name is already registered.
+ */
+export function registerExtractor(e: Extractor, origin = 'registerExtractor'): void {
+  validateExtractor(e, origin);
+  registry.push(e);
+}
+
+/**
+ * Returns the registered extractors in flush order (`flushOrder`, then name).
+ * @returns {Extractor[]} Registered extractors.
+ */
+export function getExtractors(): Extractor[] {
+  return [...registry].sort((a, b) => (a.flushOrder ?? 100) - (b.flushOrder ?? 100) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Looks up a registered extractor by name.
+ * @param {string} name - Extractor name.
+ * @returns {Extractor | undefined} The extractor, or undefined when it is not registered.
+ */
+export function findExtractor(name: string): Extractor | undefined {
+  return registry.find((e) => e.name === name);
+}
+
+/**
+ * Tells whether an extractor can be rebuilt from `core.*` rows alone, i.e. it does not read the block line.
+ * @param {Extractor} e - Extractor.
+ * @returns {boolean} True when the extractor only has message and event builders.
+ */
+export function isRebuildable(e: Extractor): boolean {
+  return !e.fromBlock;
+}
+
+/**
+ * Returns the target tables of the given extractors that are range-partitioned by height.
+ * @param {readonly Extractor[]} extractors - Extractors.
+ * @returns {Array<{ schema: string; table: string }>} Partitioned tables, for `ensureCorePartitions`.
+ */
+export function partitionedTables(extractors: readonly Extractor[]): Array<{ schema: string; table: string }> {
+  return extractors
+    .filter((e) => e.target.partitioned)
+    .map((e) => {
+      const [schema, table] = e.target.table.split('.');
+      return { schema: schema!, table: table! };
+    });
+}
+
+/**
+ * Imports every plugin file of a directory and registers its extractors.
+ * @param {string} dir - Plugins directory.
+ * @returns {Promise<string[]>} Names of the registered extractors.
+ * @throws {Error} When a plugin fails to load, exports no extractor, or an extractor is invalid.
+ */
+export async function loadExtractorPlugins(dir: string): Promise<string[]> {
+  const root = resolve(dir);
+  const files = (await readdir(root)).filter((f) => /\.(ts|js|mjs)$/.test(f) && !f.endsWith('.d.ts')).sort();
+
+  const names: string[] = [];
+  for (const f of files) {
+    const file = join(root, f);
+    const mod = await import(pathToFileURL(file).href);
+    const exported = mod.default ?? mod.extractors;
+    const list: Extractor[] = Array.isArray(exported) ? exported : exported ? [exported] : [];
+    if (list.length === 0) throw new Error(`${file}: no extractor exported (use a default or "extractors" export)`);
+    for (const e of list) {
+      registerExtractor(e, file);
+      names.push(e.name);
+    }
+  }
+  log.info(`[extractors] loaded ${names.length} plugin extractor(s) from ${root}: ${names.join(', ') || '-'}`);
+  return names;
+}
@@ -0,0 +1,180 @@
+// src/sink/pg/extractors/stake.ts
+import { findAttr, parseCoin } from '../parsing.ts';
+import type { Extractor, ExtractTxContext } from './types.ts';
+
+/** Row of `stake.delegation_events`. */
+export type DelegationEventRow = {
+  height: number;
+  tx_hash: string | null;
+  msg_index: number;
+  event_type: string;
+  delegator_address: string;
+  validator_src: string | null;
+  validator_dst: string | null;
+  denom: string;
+  amount: string;
+  completion_time: Date | null;
+};
+
+/** Row of `stake.distribution_events`. */
+export type DistributionEventRow = {
+  height: number;
+  tx_hash: string | null;
+  msg_index: number;
+  event_type: string;
+  delegator_address: string | null;
+  validator_address: string | null;
+  denom: string | null;
+  amount: string | null;
+  withdraw_address: string | null;
+};
+
+const STAKING_MSG = /MsgDelegate|MsgUndelegate|MsgBeginRedelegate/;
+
+/**
+ * Returns the message of an event's log: the top-level message, or its first nested staking
+ * message when it wraps others (e.g. authz `MsgExec`).
+ * @param {ExtractTxContext} tx - Transaction inputs.
+ * @param {number} msgIndex - Message index of the log.
+ * @returns {any} The message, or an empty object.
+ */
+function stakingMsgAt(tx: ExtractTxContext, msgIndex: number): any {
+  const top = tx.msgs[msgIndex] ?? {};
+  if (STAKING_MSG.test(top?.['@type'] ?? top?.type_url ?? '')) return top;
+  const inner = tx.innerMsgs?.find((m) => m.msg_index === msgIndex && STAKING_MSG.test(m.msg?.['@type'] ?? ''));
+  return inner?.msg ?? top;
+}
+
+/** Staking events → `stake.delegation_events`, with fallbacks to the message for sparse logs. */
+export const delegationEventsExtractor: Extractor<DelegationEventRow> = {
+  name: 'stake_delegations',
+  version: 2,
+  eventTypes: ['delegate', 'redelegate', 'unbond', 'complete_unbonding'],
+  fromEvent: (ev, tx) => {
+    const { msg_index, attributes: attrsPairs } = ev;
+    const { msgs } = tx;
+
+    // Pull from event attributes first
+    let delegator = findAttr(attrsPairs, 'delegator');
+    let validator = findAttr(attrsPairs, 'validator');
+    let srcVal = findAttr(attrsPairs, 'source_validator');
+    let dstVal = findAttr(attrsPairs, 'destination_validator');
+
+    // Amount may be in "amount" or "completion_amount" as a joined string like "12345uatom"
+    const amountStr = findAttr(attrsPairs, 'amount') ?? findAttr(attrsPairs, 'completion_amount');
+    let coin = parseCoin(amountStr ?? '');
+
+    // Fallbacks from the original message when logs are sparse (older ABCI formats)
+    // msg_index may be -1 for flat logs; only fallback when we know the specific message
+    if ((!delegator || !srcVal || !dstVal || !coin) && msg_index >= 0 && msg_index < msgs.length) {
+      const mm = stakingMsgAt(tx, msg_index);
+      // Delegator present in most staking messages
+      if (!delegator && typeof mm.delegator_address === 'string') {
+        delegator = mm.delegator_address;
+      }
+      // Validators by message type
+      const mType = mm?.['@type'] ?? mm?.type_url ?? '';
+      if (mType.includes('MsgBeginRedelegate')) {
+        if (!srcVal && typeof mm.source_validator_address === 'string') srcVal = mm.source_validator_address;
+        if (!dstVal && typeof mm.destination_validator_address === 'string') dstVal = mm.destination_validator_address;
+      } else if (mType.includes('MsgDelegate') || mType.includes('MsgUndelegate')) {
+        if (!validator && typeof mm.validator_address === 'string') validator = mm.validator_address;
+        if (!dstVal) dstVal = validator ?? dstVal ?? null;
+      }
+      // Amount/denom may be structured in the message (object or array)
+      if (!coin) {
+        const mAmt = mm.amount;
+        if (mAmt && typeof mAmt === 'object') {
+          if (Array.isArray(mAmt) && mAmt.length > 0) {
+            const first = mAmt[0];
+            if (first && typeof first.amount === 'string' && typeof first.denom === 'string') {
+              coin = { amount: first.amount, denom: first.denom };
+            }
+          } else if (typeof mAmt.amount === 'string' && typeof mAmt.denom === 'string') {
+            coin = { amount: mAmt.amount, denom: mAmt.denom };
+          }
+        }
+      }
+    }
+
+    const delegator_address = delegator ?? tx.firstSigner ?? null;
+    // Rows without a delegator or an amount cannot be stored.
+    if (!delegator_address || !coin?.denom || !coin.amount) return null;
+
+    const completion_time = findAttr(attrsPairs, 'completion_time');
+    return {
+      height: tx.height,
+      tx_hash: tx.tx_hash,
+      msg_index,
+      event_type: ev.type,
+      delegator_address,
+      validator_src: srcVal ?? null,
+      validator_dst: dstVal ?? validator ?? null,
+      denom: coin.denom,
+      amount: coin.amount,
+      completion_time: completion_time ? new Date(completion_time) : null,
+    };
+  },
+  target: {
+    table: 'stake.delegation_events',
+    columns: [
+      'height',
+      'tx_hash',
+      'msg_index',
+      'event_type',
+      'delegator_address',
+      'validator_src',
+      'validator_dst',
+      'denom',
+      'amount',
+      'completion_time',
+    ],
+    conflict: 'ON CONFLICT (height, tx_hash, msg_index) DO NOTHING',
+    partitioned: true,
+  },
+  flushOrder: 20,
+};
+
+/** Distribution events → `stake.distribution_events`. */
+export const distributionEventsExtractor: Extractor<DistributionEventRow> = {
+  name: 'stake_distribution',
+  version: 1,
+  eventTypes: ['withdraw_rewards', 'withdraw_commission', 'set_withdraw_address'],
+  fromEvent: (ev, tx) => {
+    const attrsPairs = ev.attributes;
+    const delegator = findAttr(attrsPairs, 'delegator');
+    const validator = findAttr(attrsPairs, 'validator') ?? findAttr(attrsPairs, 'validator_address');
+    const withdrawAddr = findAttr(attrsPairs, 'withdraw_address') ?? findAttr(attrsPairs, 'withdraw_address_old');
+    // суммы могут быть как "123uatom" так и списком, но в ABCI обычно одна
+    const coin = parseCoin(findAttr(attrsPairs, 'amount') ?? '');
+
+    return {
+      height: tx.height,
+      tx_hash: tx.tx_hash,
+      msg_index: ev.msg_index,
+      event_type: ev.type,
+      delegator_address: delegator ?? null,
+      validator_address: validator ?? null,
+      denom: coin?.denom ?? null,
+      amount: coin?.amount ?? null,
+      withdraw_address: withdrawAddr ?? null,
+    };
+  },
+  target: {
+    table: 'stake.distribution_events',
+    columns: [
+      'height',
+      'tx_hash',
+      'msg_index',
+      'event_type',
+      'delegator_address',
+      'validator_address',
+      'denom',
+      'amount',
+      'withdraw_address',
+    ],
+    conflict: 'ON CONFLICT (height, tx_hash, msg_index) DO NOTHING',
+    partitioned: true,
+  },
+  flushOrder: 30,
+};
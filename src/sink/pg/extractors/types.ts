@@ -0,0 +1,114 @@
+// src/sink/pg/extractors/types.ts
+/**
+ * Types of the extractor API: an extractor matches messages and events of a transaction (or reads
+ * the assembled block), builds typed rows, and declares the table they are written to.
+ */
+import type { PoolClient } from 'pg';
+
+/**
+ * A message nested in a top-level message (authz `MsgExec`, gov and group proposals, ICA packets).
+ * @property {number} msg_index - Index of the top-level message.
+ * @property {number[]} inner_index - Path below it, e.g. `[1, 0]` for the first message inside its second one.
+ * @property {any} msg - Decoded message.
+ */
+export type InnerMessage = {
+  msg_index: number;
+  inner_index: number[];
+  msg: any;
+};
+
+/**
+ * Transaction-level inputs passed to the row builders.
+ * @property {string | null} tx_hash - Transaction hash.
+ * @property {number} height - Block height.
+ * @property {Date | null} time - Block time.
+ * @property {number} code - ABCI result code (0 = success).
+ * @property {number | null} gas_used - Gas used by the transaction.
+ * @property {string | null} log_summary - Raw log.
+ * @property {string | null} [firstSigner] - First signer of the transaction.
+ * @property {any[]} msgs - Decoded messages in order.
+ * @property {InnerMessage[]} [innerMsgs] - Messages nested in `msgs`, ordered by `msg_index`, then depth first.
+ */
+export type ExtractTxContext = {
+  tx_hash: string | null;
+  height: number;
+  time: Date | null;
+  code: number;
+  gas_used: number | null;
+  log_summary: string | null;
+  firstSigner?: string | null;
+  msgs: any[];
+  innerMsgs?: InnerMessage[];
+};
+
+/**
+ * An ABCI event of a transaction.
+ * @property {number} msg_index - Message index of the event's log (-1 for transaction-level logs).
+ * @property {number} event_index - Position of the event within its log.
+ * @property {string} type - Event type.
+ * @property {Array<{ key: string; value: string | null }>} attributes - Decoded attributes.
+ */
+export type ExtractorEvent = {
+  msg_index: number;
+  event_index: number;
+  type: string;
+  attributes: Array<{ key: string; value: string | null }>;
+};
+
+/** What a row builder may return: one row, several rows, or nothing. */
+export type BuiltRows<TRow> = TRow | TRow[] | null | undefined;
+
+/**
+ * Table an extractor writes to.
+ * @property {string} table - Schema-qualified table name, e.g. `bank.transfers`.
+ * @property {string[]} columns - Inserted columns; each row supplies them by name.
+ * @property {string} conflict - Conflict clause appended to the INSERT, e.g. `ON CONFLICT DO NOTHING`.
+ * @property {Record<string, string>} [casts] - Column casts, e.g. `{ attributes: 'jsonb' }`.
+ * @property {number} [batchSize=5000] - Buffered rows that trigger a flush in `batch-insert` mode.
+ * @property {boolean} [partitioned=false] - The table is range-partitioned by `height` like the core tables;
+ *   the sink creates its partitions.
+ */
+export type ExtractorTarget = {
+  table: string;
+  columns: string[];
+  conflict: string;
+  casts?: Record<string, string>;
+  batchSize?: number;
+  partitioned?: boolean;
+};
+
+/**
+ * A domain extractor.
+ *
+ * Builders run for every matching message or event: `fromMessage` for messages whose type URL is in
+ * `msgTypes` (every message when omitted), nested messages included, which get the index of their
+ * top-level message and their `inner_index` path (empty for top-level messages), `fromEvent` for events whose type is in `eventTypes`
+ * (every event when omitted), and `fromBlock` once per assembled block. Extractors without
+ * `fromBlock` only depend on `core.*` rows and can be rebuilt from them (see `rederive`).
+ *
+ * @property {string} name - Unique identifier, also the key in `core.extractor_progress`.
+ * @property {number} version - Version of the derivation logic; bump it when the produced rows change.
+ * @property {string[]} [msgTypes] - Message type URLs passed to `fromMessage`.
+ * @property {string[]} [eventTypes] - Event types passed to `fromEvent`.
+ * @property {Function} [fromMessage] - Builds rows from a decoded message.
+ * @property {Function} [fromEvent] - Builds rows from an event.
+ * @property {Function} [fromBlock] - Builds rows from the assembled block line.
+ * @property {ExtractorTarget} target - Destination table.
+ * @property {number} [flushOrder=100] - Extractors are written in ascending order (ties by name).
+ * @property {Function} [flush] - Replaces the generic batched INSERT, e.g. for upserts.
+ */
+export interface Extractor<TRow = any> {
+  name: string;
+  version: number;
+  msgTypes?: string[];
+  eventTypes?: string[];
+  fromMessage?: (msg: any, msgIndex: number, tx: ExtractTxContext, innerIndex: number[]) => BuiltRows<TRow>;
+  fromEvent?: (ev: ExtractorEvent, tx: ExtractTxContext) => BuiltRows<TRow>;
+  fromBlock?: (blockLine: any) => BuiltRows<TRow>;
+  target: ExtractorTarget;
+  flushOrder?: number;
+  flush?: (client: PoolClient, rows: TRow[]) => Promise<void>;
+}
+
+/** Rows built per extractor name. */
+export type ExtractedRows = Record<string, any[]>;
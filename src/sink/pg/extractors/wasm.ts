@@ -0,0 +1,95 @@
+// src/sink/pg/extractors/wasm.ts
+import { findAttr } from '../parsing.ts';
+import type { Extractor } from './types.ts';
+
+/** Row of `wasm.executions`. */
+export type WasmExecutionRow = {
+  tx_hash: string | null;
+  msg_index: number;
+  inner_index: number[];
+  contract: string | null;
+  caller: string | null;
+  funds: any;
+  msg: any;
+  success: boolean;
+  error: string | null;
+  gas_used: number | null;
+  height: number;
+};
+
+/** Row of `wasm.events`. */
+export type WasmEventRow = {
+  contract: string;
+  height: number;
+  tx_hash: string | null;
+  msg_index: number;
+  event_type: string;
+  attributes: Array<{ key: string; value: string | null }>;
+};
+
+/** `MsgExecuteContract` messages → `wasm.executions`. */
+export const wasmExecutionsExtractor: Extractor<WasmExecutionRow> = {
+  name: 'wasm_executions',
+  version: 3,
+  msgTypes: ['/cosmwasm.wasm.v1.MsgExecuteContract'],
+  fromMessage: (m, i, tx, innerIndex) => ({
+    tx_hash: tx.tx_hash,
+    msg_index: i,
+    inner_index: innerIndex,
+    contract: m?.contract ?? m?.contract_address ?? null,
+    caller: m?.sender ?? null,
+    funds: m?.funds ?? null,
+    msg: m?.msg ?? null,
+    success: tx.code === 0,
+    error: tx.code === 0 ? null : (tx.log_summary ?? null),
+    gas_used: tx.gas_used,
+    height: tx.height,
+  }),
+  target: {
+    table: 'wasm.executions',
+    columns: [
+      'tx_hash',
+      'msg_index',
+      'inner_index',
+      'contract',
+      'caller',
+      'funds',
+      'msg',
+      'success',
+      'error',
+      'gas_used',
+      'height',
+    ],
+    conflict: 'ON CONFLICT (height, tx_hash, msg_index, inner_index) DO NOTHING',
+    casts: { funds: 'jsonb', msg: 'jsonb', inner_index: 'int[]' },
+    partitioned: true,
+  },
+  flushOrder: 40,
+};
+
+/** `wasm` events with a contract address → `wasm.events`. */
+export const wasmEventsExtractor: Extractor<WasmEventRow> = {
+  name: 'wasm_events',
+  version: 1,
+  eventTypes: ['wasm'],
+  fromEvent: (ev, tx) => {
+    const contract = findAttr(ev.attributes, '_contract_address') ?? findAttr(ev.attributes, 'contract_address');
+    if (!contract) return null;
+    return {
+      contract,
+      height: tx.height,
+      tx_hash: tx.tx_hash,
+      msg_index: ev.msg_index,
+      event_type: ev.type,
+      attributes: ev.attributes,
+    };
+  },
+  target: {
+    table: 'wasm.events',
+    columns: ['contract', 'height', 'tx_hash', 'msg_index', 'event_type', 'attributes'],
+    conflict: 'ON CONFLICT (height, tx_hash, msg_index, event_type) DO NOTHING',
+    casts: { attributes: 'jsonb' },
+    partitioned: true,
+  },
+  flushOrder: 50,
+};
@@ -13,14 +13,14 @@ export async function flushMsgs(client: PoolClient, rows: any[]): Promise<void>
   if (!rows.length) return;
   await client.query(`SET LOCAL statement_timeout = '30s'`);
   await client.query(`SET LOCAL lock_timeout = '5s'`);
-  const cols = ['tx_hash', 'msg_index', 'height', 'type_url', 'value', 'signer'];
+  const cols = ['tx_hash', 'msg_index', 'inner_index', 'height', 'type_url', 'value', 'signer'];
   await execBatchedInsert(
     client,
     'core.messages',
     cols,
     rows,
-    'ON CONFLICT (height, tx_hash, msg_index) DO NOTHING',
-    { value: 'jsonb' },
+    'ON CONFLICT (height, tx_hash, msg_index, inner_index) DO NOTHING',
+    { value: 'jsonb', inner_index: 'int[]' },
     { maxRows: 500, maxParams: 12000 },
   );
 }
@@ -13,12 +13,13 @@ import { makeMultiInsert } from '../batch.ts';
  */
 export async function insertMsgs(client: PoolClient, rows: any[]): Promise<void> {
   if (!rows?.length) return;
-  const cols = ['tx_hash', 'msg_index', 'height', 'type_url', 'value', 'signer'];
+  const cols = ['tx_hash', 'msg_index', 'inner_index', 'height', 'type_url', 'value', 'signer'];
   const { text, values } = makeMultiInsert(
     'core.messages',
     cols,
     rows,
-    'ON CONFLICT (height, tx_hash, msg_index) DO NOTHING',
+    'ON CONFLICT (height, tx_hash, msg_index, inner_index) DO NOTHING',
+    { inner_index: 'int[]' },
   );
   await client.query(text, values);
 }
@@ -34,6 +34,37 @@ export function pickMessages(tx: any): any[] {
   return [];
 }
 
+/** Fields of a decoded message that hold nested messages. */
+const INNER_MESSAGE_KEYS = new Set(['msgs', 'messages', 'content']);
+
+/**
+ * Lists the messages nested in a decoded message, depth first: decoded `Any` values (objects with
+ * `@type`) held in a `msgs`, `messages` or `content` field at any level, such as authz
+ * `MsgExec.msgs`, gov v1 and group proposal `messages`, gov v1beta1 `content` and the
+ * `messages` of an ICA packet.
+ * @param {*} msg - A decoded message.
+ * @returns {Array<{ inner_index: number[]; msg: any }>} Nested messages with their path below `msg`.
+ */
+export function collectInnerMessages(msg: any): Array<{ inner_index: number[]; msg: any }> {
+  const out: Array<{ inner_index: number[]; msg: any }> = [];
+  (function walk(m: any, path: number[]) {
+    const found: any[] = [];
+    (function scan(v: any, inField: boolean) {
+      if (Array.isArray(v)) {
+        for (const x of v) scan(x, inField);
+      } else if (v && typeof v === 'object') {
+        if (inField && typeof v['@type'] === 'string') found.push(v);
+        else for (const [k, x] of Object.entries(v)) scan(x, INNER_MESSAGE_KEYS.has(k));
+      }
+    })(m, false);
+    found.forEach((inner, i) => {
+      out.push({ inner_index: [...path, i], msg: inner });
+      walk(inner, [...path, i]);
+    });
+  })(msg, []);
+  return out;
+}
+
 /**
  * Extracts and normalizes logs from a transaction object.
  * Prefers `logsNormalized` if present; otherwise converts `tx.tx_response.logs` to {@link NormalizedLog}.
@@ -18,7 +18,8 @@ import { Sink, SinkConfig } from './types.js';
 import { createPgPool, getPgPool, closePgPool } from '../db/pg.js';
 import { ensureCorePartitions } from '../db/partitions.js';
 import type { PoolClient } from 'pg';
-import { upsertProgress } from '../db/progress.js';
+import { upsertLowProgress, upsertProgress } from '../db/progress.js';
+import { advanceExtractorTip } from '../db/extractorProgress.js';
 import { getLogger } from '../utils/logger.js';
 import { makeMultiInsert, execBatchedInsert } from './pg/batch.ts';
 import {
@@ -29,31 +30,28 @@ import {
   toNum,
   buildFeeFromDecodedFee,
   collectSignersFromMessages,
-  parseCoin,
-  findAttr,
+  collectInnerMessages,
 } from './pg/parsing.ts';
+import { extractBlockRows, extractTxRows, flushExtractorRows } from './pg/derive.ts';
+import { getExtractors, partitionedTables } from './pg/extractors/index.ts';
+import type {
+  ExtractedRows,
+  Extractor,
+  ExtractorEvent,
+  ExtractTxContext,
+  InnerMessage,
+} from './pg/extractors/index.ts';
 import { flushBlocks } from './pg/flushers/blocks.ts';
 import { flushTxs } from './pg/flushers/txs.ts';
 import { flushMsgs } from './pg/flushers/msgs.ts';
 import { flushEvents } from './pg/flushers/events.ts';
 import { flushAttrs } from './pg/flushers/attrs.ts';
-import { flushTransfers } from './pg/flushers/transfers.ts';
-import { flushStakeDeleg } from './pg/flushers/stake_deleg.ts';
-import { flushStakeDistr } from './pg/flushers/stake_distr.ts';
-import { flushWasmExec } from './pg/flushers/wasm_exec.ts';
-import { flushWasmEvents } from './pg/flushers/wasm_events.ts';
-import { flushGovDeposits, flushGovVotes, upsertGovProposals } from './pg/flushers/gov.ts';
 
 import { insertBlocks } from './pg/inserters/blocks.ts';
 import { insertTxs } from './pg/inserters/txs.ts';
 import { insertMsgs } from './pg/inserters/msgs.ts';
 import { insertEvents } from './pg/inserters/events.ts';
 import { insertAttrs } from './pg/inserters/attrs.ts';
-import { insertTransfers } from './pg/inserters/transfers.ts';
-import { insertStakeDeleg } from './pg/inserters/stake_deleg.ts';
-import { insertStakeDistr } from './pg/inserters/stake_distr.ts';
-import { insertWasmExec } from './pg/inserters/wasm_exec.ts';
-import { insertWasmEvents } from './pg/inserters/wasm_events.ts';
 
 const log = getLogger('sink/postgres');
 
@@ -76,6 +74,7 @@ export type PostgresMode = 'block-atomic' | 'batch-insert';
  * @property {string} [pg.database]                        Database name.
  * @property {boolean} [pg.ssl]                            Whether to enable SSL for the connection.
  * @property {string} [pg.progressId]                      Identifier for storing sync progress checkpoints.
+ * @property {string} [pg.progressDirection='asc']         `desc` stores the lowest flushed height as progress.
  * @property {PostgresMode} [mode='batch-insert']          Persistence mode.
  * @property {object} [batchSizes]                         Batch sizes per entity when `mode` is `batch-insert`.
  * @property {number} [batchSizes.blocks=1000]             Max buffered blocks before flush.
@@ -83,6 +82,7 @@ export type PostgresMode = 'block-atomic' | 'batch-insert';
  * @property {number} [batchSizes.msgs=5000]               Max buffered messages before flush.
  * @property {number} [batchSizes.events=5000]             Max buffered events before flush.
  * @property {number} [batchSizes.attrs=10000]             Max buffered event attributes before flush.
+ * @property {Extractor[]} [extractors]                    Domain extractors; the registered ones by default.
  */
 export interface PostgresSinkConfig extends SinkConfig {
   pg: {
@@ -94,6 +94,7 @@ export interface PostgresSinkConfig extends SinkConfig {
     database?: string;
     ssl?: boolean;
     progressId?: string;
+    progressDirection?: 'asc' | 'desc';
   };
   mode?: PostgresMode;
   batchSizes?: {
@@ -103,6 +104,7 @@ export interface PostgresSinkConfig extends SinkConfig {
     events?: number;
     attrs?: number;
   };
+  extractors?: Extractor[];
 }
 
 type BlockLine = any;
@@ -112,27 +114,26 @@ type NormalizedLog = {
   events: Array<{ type: string; attributes: any }>;
 };
 
+/** Buffered rows of an extractor trigger a flush at this size unless its target sets `batchSize`. */
+const DEFAULT_EXTRACTOR_BATCH = 5000;
+
 /**
  * Sink that writes blocks, transactions, messages and related rows into PostgreSQL.
+ * Domain tables are written by the configured extractors (see `pg/extractors`).
  * @implements {Sink}
  */
 export class PostgresSink implements Sink {
   private cfg: PostgresSinkConfig;
   private mode: PostgresMode;
+  private extractors: Extractor[];
+  private partitionedTables: Array<{ schema: string; table: string }>;
 
   private bufBlocks: any[] = [];
   private bufTxs: any[] = [];
   private bufMsgs: any[] = [];
   private bufEvents: any[] = [];
   private bufAttrs: any[] = [];
-  private bufTransfers: any[] = [];
-  private bufStakeDeleg: any[] = [];
-  private bufStakeDistr: any[] = [];
-  private bufWasmExec: any[] = [];
-  private bufWasmEvents: any[] = [];
-  private bufGovDeposits: any[] = [];
-  private bufGovVotes: any[] = [];
-  private bufGovProposals: any[] = [];
+  private bufExtracted: ExtractedRows = {};
 
   private batchSizes = {
     blocks: 1000,
@@ -140,14 +141,6 @@ export class PostgresSink implements Sink {
     msgs: 5000,
     events: 5000,
     attrs: 10000,
-    transfers: 5000,
-    stakeDeleg: 5000,
-    stakeDistr: 5000,
-    wasmExec: 5000,
-    wasmEvents: 5000,
-    govDeposits: 5000,
-    govVotes: 5000,
-    govProposals: 1000,
   };
 
   /**
@@ -158,6 +151,8 @@ export class PostgresSink implements Sink {
     this.cfg = cfg;
     this.mode = cfg.mode ?? 'batch-insert';
     if (cfg.batchSizes) Object.assign(this.batchSizes, cfg.batchSizes);
+    this.extractors = cfg.extractors ?? getExtractors();
+    this.partitionedTables = partitionedTables(this.extractors);
   }
 
   /**
@@ -219,8 +214,9 @@ export class PostgresSink implements Sink {
   }
 
   /**
-   * Transform an assembled block object into row-model arrays for all target tables.
-   * Also computes basic derived values (e.g., signers, parsed amounts) and normalizes logs.
+   * Transform an assembled block object into row-model arrays for the core tables, and run
+   * the extractors over its transactions and over the block line.
+   * Also computes basic derived values (e.g., signers) and normalizes logs.
    *
    * @param {any} blockLine The assembled block object produced by the pipeline.
    * @returns {{
@@ -229,11 +225,7 @@ export class PostgresSink implements Sink {
    *   msgRows: any[],
    *   evRows: any[],
    *   attrRows: any[],
-   *   transfersRows: any[],
-   *   stakeDelegRows: any[],
-   *   stakeDistrRows: any[],
-   *   wasmExecRows: any[],
-   *   wasmEventsRows: any[],
+   *   extracted: ExtractedRows,
    *   height: number
    * }} A bag of row arrays ready for persistence plus the block height.
    */
@@ -259,14 +251,7 @@ export class PostgresSink implements Sink {
     const msgRows: any[] = [];
     const evRows: any[] = [];
     const attrRows: any[] = [];
-    const transfersRows: any[] = [];
-    const stakeDelegRows: any[] = [];
-    const stakeDistrRows: any[] = [];
-    const wasmExecRows: any[] = [];
-    const wasmEventsRows: any[] = [];
-    const govDepositsRows: any[] = [];
-    const govVotesRows: any[] = [];
-    const govProposalsRows: any[] = [];
+    const extracted: ExtractedRows = {};
 
     const txs = Array.isArray(blockLine?.txs) ? blockLine.txs : [];
     for (const tx of txs) {
@@ -304,38 +289,27 @@ export class PostgresSink implements Sink {
         time,
       });
 
-      // msgs already defined above
-      for (let i = 0; i < msgs.length; i++) {
-        const m = msgs[i];
+      // msgs already defined above; nested messages get rows of their own under the same msg_index
+      const innerMsgs: InnerMessage[] = [];
+      const pushMsgRow = (msg_index: number, inner_index: number[], m: any) =>
         msgRows.push({
           tx_hash,
-          msg_index: i,
+          msg_index,
+          inner_index,
           height,
           type_url: m?.['@type'] ?? m?.type_url ?? '',
           value: m,
           signer: m?.signer ?? m?.from_address ?? m?.delegator_address ?? null,
         });
-      }
-
       for (let i = 0; i < msgs.length; i++) {
-        const m = msgs[i];
-        const t = m?.['@type'] ?? m?.type_url ?? '';
-        if (t === '/cosmwasm.wasm.v1.MsgExecuteContract') {
-          wasmExecRows.push({
-            tx_hash,
-            msg_index: i,
-            contract: m?.contract ?? m?.contract_address ?? null,
-            caller: m?.sender ?? null,
-            funds: m?.funds ?? null,
-            msg: m?.msg ?? null,
-            success: code === 0,
-            error: code === 0 ? null : (log_summary ?? null),
-            gas_used: gas_used,
-            height,
-          });
+        pushMsgRow(i, [], msgs[i]);
+        for (const inner of collectInnerMessages(msgs[i])) {
+          innerMsgs.push({ msg_index: i, ...inner });
+          pushMsgRow(i, inner.inner_index, inner.msg);
         }
       }
 
+      const txEvents: ExtractorEvent[] = [];
       const logs = pickLogs(tx);
       for (const log of logs) {
         const msg_index = Number(log?.msg_index ?? -1);
@@ -352,130 +326,7 @@ export class PostgresSink implements Sink {
             attributes: attrsPairs,
             height,
           });
-
-          if (event_type === 'transfer') {
-            const sender = findAttr(attrsPairs, 'sender');
-            const recipient = findAttr(attrsPairs, 'recipient');
-            const amountStr = findAttr(attrsPairs, 'amount');
-            const coin = parseCoin(amountStr);
-            if (sender && recipient && coin) {
-              transfersRows.push({
-                tx_hash,
-                msg_index,
-                from_addr: sender,
-                to_addr: recipient,
-                denom: coin.denom,
-                amount: coin.amount,
-                height,
-              });
-            }
-          }
-
-          if (
-            event_type === 'delegate' ||
-            event_type === 'redelegate' ||
-            event_type === 'unbond' ||
-            event_type === 'complete_unbonding'
-          ) {
-            // Pull from event attributes first
-            let delegator = findAttr(attrsPairs, 'delegator');
-            let validator = findAttr(attrsPairs, 'validator');
-            let srcVal = findAttr(attrsPairs, 'source_validator');
-            let dstVal = findAttr(attrsPairs, 'destination_validator');
-
-            // Amount may be in "amount" or "completion_amount" as a joined string like "12345uatom"
-            let amountStr = findAttr(attrsPairs, 'amount') ?? findAttr(attrsPairs, 'completion_amount');
-            let coin = parseCoin(amountStr ?? '');
-
-            // Fallbacks from the original message when logs are sparse (older ABCI formats)
-            // msg_index may be -1 for flat logs; only fallback when we know the specific message
-            if ((!delegator || !srcVal || !dstVal || !coin) && msg_index >= 0 && msg_index < msgs.length) {
-              const mm = msgs[msg_index] ?? {};
-              // Delegator present in most staking messages
-              if (!delegator && typeof mm.delegator_address === 'string') {
-                delegator = mm.delegator_address;
-              }
-              // Validators by message type
-              const mType = mm?.['@type'] ?? mm?.type_url ?? '';
-              if (mType.includes('MsgBeginRedelegate')) {
-                if (!srcVal && typeof mm.source_validator_address === 'string') srcVal = mm.source_validator_address;
-                if (!dstVal && typeof mm.destination_validator_address === 'string')
-                  dstVal = mm.destination_validator_address;
-              } else if (mType.includes('MsgDelegate') || mType.includes('MsgUndelegate')) {
-                if (!validator && typeof mm.validator_address === 'string') validator = mm.validator_address;
-                if (!dstVal) dstVal = validator ?? dstVal ?? null;
-              }
-              // Amount/denom may be structured in the message (object or array)
-              if (!coin) {
-                const mAmt = mm.amount;
-                if (mAmt && typeof mAmt === 'object') {
-                  if (Array.isArray(mAmt) && mAmt.length > 0) {
-                    const first = mAmt[0];
-                    if (first && typeof first.amount === 'string' && typeof first.denom === 'string') {
-                      coin = { amount: first.amount, denom: first.denom };
-                    }
-                  } else if (typeof mAmt.amount === 'string' && typeof mAmt.denom === 'string') {
-                    coin = { amount: mAmt.amount, denom: mAmt.denom };
-                  }
-                }
-              }
-            }
-
-            const completion_time = findAttr(attrsPairs, 'completion_time');
-
-            stakeDelegRows.push({
-              height,
-              tx_hash,
-              msg_index,
-              event_type,
-              delegator_address: delegator ?? firstSigner ?? null,
-              validator_src: srcVal ?? null,
-              validator_dst: dstVal ?? validator ?? null,
-              denom: coin?.denom ?? null,
-              amount: coin?.amount ?? null,
-              completion_time: completion_time ? new Date(completion_time) : null,
-            });
-          }
-
-          if (
-            event_type === 'withdraw_rewards' ||
-            event_type === 'withdraw_commission' ||
-            event_type === 'set_withdraw_address'
-          ) {
-            const delegator = findAttr(attrsPairs, 'delegator');
-            const validator = findAttr(attrsPairs, 'validator') ?? findAttr(attrsPairs, 'validator_address');
-            const withdrawAddr =
-              findAttr(attrsPairs, 'withdraw_address') ?? findAttr(attrsPairs, 'withdraw_address_old');
-            // суммы могут быть как "123uatom" так и списком, но в ABCI обычно одна
-            const amountStr = findAttr(attrsPairs, 'amount');
-            const coin = parseCoin(amountStr ?? '');
-
-            stakeDistrRows.push({
-              height,
-              tx_hash,
-              msg_index,
-              event_type,
-              delegator_address: delegator ?? null,
-              validator_address: validator ?? null,
-              denom: coin?.denom ?? null,
-              amount: coin?.amount ?? null,
-              withdraw_address: withdrawAddr ?? null,
-            });
-          }
-
-          if (event_type === 'wasm') {
-            const contract = findAttr(attrsPairs, '_contract_address') ?? findAttr(attrsPairs, 'contract_address');
-            if (contract) {
-              wasmEventsRows.push({
-                contract,
-                height,
-                tx_hash,
-                msg_index,
-                event_type,
-                attributes: attrsPairs,
-              });
-            }
-          }
+          txEvents.push({ msg_index, event_index: ei, type: event_type, attributes: attrsPairs });
 
           for (const { key, value } of attrsPairs) {
             attrRows.push({
@@ -489,34 +340,30 @@ export class PostgresSink implements Sink {
           }
         }
       }
-    }
 
-    // Governance rows extraction
-    const gov = blockLine?.gov ?? {};
-    if (Array.isArray(gov.deposits)) {
-      for (const r of gov.deposits) govDepositsRows.push(r);
-    }
-    if (Array.isArray(gov.votes)) {
-      for (const r of gov.votes) govVotesRows.push(r);
-    }
-    if (Array.isArray(gov.proposals)) {
-      for (const r of gov.proposals) govProposalsRows.push(r);
+      const ctx: ExtractTxContext = {
+        tx_hash,
+        height,
+        time,
+        code,
+        gas_used,
+        log_summary,
+        firstSigner,
+        msgs,
+        innerMsgs,
+      };
+      extractTxRows(this.extractors, ctx, txEvents, extracted);
     }
 
+    extractBlockRows(this.extractors, blockLine, extracted);
+
     return {
       blockRow,
       txRows,
       msgRows,
       evRows,
       attrRows,
-      transfersRows,
-      stakeDelegRows,
-      stakeDistrRows,
-      wasmExecRows,
-      wasmEventsRows,
-      govDepositsRows,
-      govVotesRows,
-      govProposalsRows,
+      extracted,
       height,
     };
   }
@@ -531,34 +378,19 @@ export class PostgresSink implements Sink {
    */
   private async persistBlockAtomic(blockLine: BlockLine): Promise<void> {
     const pool = getPgPool();
-    const {
-      blockRow,
-      txRows,
-      msgRows,
-      evRows,
-      attrRows,
-      transfersRows,
-      stakeDelegRows,
-      stakeDistrRows,
-      wasmExecRows,
-      wasmEventsRows,
-      height,
-    } = this.extractRows(blockLine);
+    const { blockRow, txRows, msgRows, evRows, attrRows, extracted, height } = this.extractRows(blockLine);
 
     const client = await pool.connect();
     try {
-      await ensureCorePartitions(client, height);
+      await ensureCorePartitions(client, height, height, this.partitionedTables);
       await client.query('BEGIN');
       await insertBlocks(client, [blockRow]);
       if (txRows.length) await insertTxs(client, txRows);
       if (msgRows.length) await insertMsgs(client, msgRows);
       if (evRows.length) await insertEvents(client, evRows);
       if (attrRows.length) await insertAttrs(client, attrRows);
-      if (transfersRows.length) await insertTransfers(client, transfersRows);
-      if (stakeDelegRows.length) await insertStakeDeleg(client, stakeDelegRows);
-      if (stakeDistrRows.length) await insertStakeDistr(client, stakeDistrRows);
-      if (wasmExecRows.length) await insertWasmExec(client, wasmExecRows);
-      if (wasmEventsRows.length) await insertWasmEvents(client, wasmEventsRows);
+      for (const e of this.extractors) await flushExtractorRows(client, e, extracted[e.name]);
+      await advanceExtractorTip(client, this.extractors, height);
       await client.query('COMMIT');
     } catch (e) {
       await client.query('ROLLBACK');
@@ -575,21 +407,7 @@ export class PostgresSink implements Sink {
    * @returns {Promise<void>}
    */
   private async persistBlockBuffered(blockLine: BlockLine): Promise<void> {
-    const {
-      blockRow,
-      txRows,
-      msgRows,
-      evRows,
-      attrRows,
-      transfersRows,
-      stakeDelegRows,
-      stakeDistrRows,
-      wasmExecRows,
-      wasmEventsRows,
-      govDepositsRows,
-      govVotesRows,
-      govProposalsRows,
-    } = this.extractRows(blockLine);
+    const { blockRow, txRows, msgRows, evRows, attrRows, extracted } = this.extractRows(blockLine);
 
     this.bufBlocks.push(blockRow);
     this.bufTxs.push(...txRows);
@@ -597,15 +415,10 @@ export class PostgresSink implements Sink {
     this.bufEvents.push(...evRows);
     this.bufAttrs.push(...attrRows);
 
-    this.bufTransfers.push(...transfersRows);
-    this.bufStakeDeleg.push(...stakeDelegRows);
-    this.bufStakeDistr.push(...stakeDistrRows);
-    this.bufWasmExec.push(...wasmExecRows);
-    this.bufWasmEvents.push(...wasmEventsRows);
-
-    this.bufGovDeposits.push(...govDepositsRows);
-    this.bufGovVotes.push(...govVotesRows);
-    this.bufGovProposals.push(...govProposalsRows);
+    for (const [name, rows] of Object.entries(extracted)) {
+      const buf = (this.bufExtracted[name] ??= []);
+      for (const r of rows) buf.push(r);
+    }
 
     const needFlush =
       this.bufBlocks.length >= this.batchSizes.blocks ||
@@ -613,38 +426,28 @@ export class PostgresSink implements Sink {
       this.bufMsgs.length >= this.batchSizes.msgs ||
       this.bufEvents.length >= this.batchSizes.events ||
       this.bufAttrs.length >= this.batchSizes.attrs ||
-      this.bufTransfers.length >= this.batchSizes.transfers ||
-      this.bufStakeDeleg.length >= this.batchSizes.stakeDeleg ||
-      this.bufStakeDistr.length >= this.batchSizes.stakeDistr ||
-      this.bufWasmExec.length >= this.batchSizes.wasmExec ||
-      this.bufWasmEvents.length >= this.batchSizes.wasmEvents ||
-      this.bufGovDeposits.length >= this.batchSizes.govDeposits ||
-      this.bufGovVotes.length >= this.batchSizes.govVotes ||
-      this.bufGovProposals.length >= this.batchSizes.govProposals;
+      this.extractors.some(
+        (e) => (this.bufExtracted[e.name]?.length ?? 0) >= (e.target.batchSize ?? DEFAULT_EXTRACTOR_BATCH),
+      );
 
     if (needFlush) {
-      const counts = {
-        blocks: this.bufBlocks.length,
-        txs: this.bufTxs.length,
-        msgs: this.bufMsgs.length,
-        events: this.bufEvents.length,
-        attrs: this.bufAttrs.length,
-        transfers: this.bufTransfers.length,
-        stakeDeleg: this.bufStakeDeleg.length,
-        stakeDistr: this.bufStakeDistr.length,
-        wasmExec: this.bufWasmExec.length,
-        wasmEvents: this.bufWasmEvents.length,
-        govDeposits: this.bufGovDeposits.length,
-        govVotes: this.bufGovVotes.length,
-        govProposals: this.bufGovProposals.length,
-      };
       log.debug(
-        `flush trigger: blocks=${counts.blocks} txs=${counts.txs} msgs=${counts.msgs} events=${counts.events} attrs=${counts.attrs}`,
+        `flush trigger: blocks=${this.bufBlocks.length} txs=${this.bufTxs.length} msgs=${this.bufMsgs.length} events=${this.bufEvents.length} attrs=${this.bufAttrs.length}`,
       );
       await this.flushAll();
     }
   }
 
+  /**
+   * Returns the number of buffered rows per extractor.
+   * @returns {Record<string, number>} Non-empty extractor buffers by name.
+   */
+  private extractedCounts(): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const [name, rows] of Object.entries(this.bufExtracted)) if (rows.length) counts[name] = rows.length;
+    return counts;
+  }
+
   /**
    * Flush all buffered rows in a single transaction, creating any missing partitions
    * for the covered height range. On success, clears the buffers and updates the sync progress.
@@ -652,20 +455,14 @@ export class PostgresSink implements Sink {
    * @throws {Error} Rethrows database errors; buffers remain intact if the transaction fails.
    */
   private async flushAll(): Promise<void> {
+    const extractedCounts = this.extractedCounts();
     if (
       this.bufBlocks.length === 0 &&
       this.bufTxs.length === 0 &&
       this.bufMsgs.length === 0 &&
       this.bufEvents.length === 0 &&
       this.bufAttrs.length === 0 &&
-      this.bufTransfers.length === 0 &&
-      this.bufStakeDeleg.length === 0 &&
-      this.bufStakeDistr.length === 0 &&
-      this.bufWasmExec.length === 0 &&
-      this.bufWasmEvents.length === 0 &&
-      this.bufGovDeposits.length === 0 &&
-      this.bufGovVotes.length === 0 &&
-      this.bufGovProposals.length === 0
+      Object.keys(extractedCounts).length === 0
     )
       return;
 
@@ -678,14 +475,7 @@ export class PostgresSink implements Sink {
         ...this.bufMsgs.map((r) => r.height),
         ...this.bufEvents.map((r) => r.height),
         ...this.bufAttrs.map((r) => r.height),
-        ...this.bufTransfers.map((r) => r.height),
-        ...this.bufStakeDeleg.map((r) => r.height),
-        ...this.bufStakeDistr.map((r) => r.height),
-        ...this.bufWasmExec.map((r) => r.height),
-        ...this.bufWasmEvents.map((r) => r.height),
-        ...this.bufGovDeposits.map((r) => r.height),
-        ...this.bufGovVotes.map((r) => r.height),
-        ...this.bufGovProposals.map((r) => r.height),
+        ...Object.values(this.bufExtracted).flatMap((rows) => rows.map((r) => r?.height)),
       ].filter((h): h is number => Number.isFinite(h)); // ← фильтр
 
       if (heights.length === 0) {
@@ -705,9 +495,7 @@ export class PostgresSink implements Sink {
           msgs: this.bufMsgs.length,
           events: this.bufEvents.length,
           attrs: this.bufAttrs.length,
-          govDeposits: this.bufGovDeposits.length,
-          govVotes: this.bufGovVotes.length,
-          govProposals: this.bufGovProposals.length,
+          ...extractedCounts,
         },
       });
       const snapshotCounts = {
@@ -716,18 +504,11 @@ export class PostgresSink implements Sink {
         msgs: this.bufMsgs.length,
         events: this.bufEvents.length,
         attrs: this.bufAttrs.length,
-        transfers: this.bufTransfers.length,
-        stakeDeleg: this.bufStakeDeleg.length,
-        stakeDistr: this.bufStakeDistr.length,
-        wasmExec: this.bufWasmExec.length,
-        wasmEvents: this.bufWasmEvents.length,
-        govDeposits: this.bufGovDeposits.length,
-        govVotes: this.bufGovVotes.length,
-        govProposals: this.bufGovProposals.length,
+        ...extractedCounts,
       };
       const t0 = Date.now();
 
-      await ensureCorePartitions(client, minH, maxH);
+      await ensureCorePartitions(client, minH, maxH, this.partitionedTables);
 
       await client.query('BEGIN');
 
@@ -742,25 +523,19 @@ export class PostgresSink implements Sink {
       await flushAttrs(client, this.bufAttrs);
       this.bufAttrs = [];
 
-      await flushTransfers(client, this.bufTransfers);
-      this.bufTransfers = [];
-      await flushStakeDeleg(client, this.bufStakeDeleg);
-      this.bufStakeDeleg = [];
-      await flushStakeDistr(client, this.bufStakeDistr);
-      this.bufStakeDistr = [];
-      await flushWasmExec(client, this.bufWasmExec);
-      this.bufWasmExec = [];
-      await flushWasmEvents(client, this.bufWasmEvents);
-      this.bufWasmEvents = [];
-
-      await flushGovDeposits(client, this.bufGovDeposits);
-      this.bufGovDeposits = [];
-      await flushGovVotes(client, this.bufGovVotes);
-      this.bufGovVotes = [];
-      await upsertGovProposals(client, this.bufGovProposals);
-      this.bufGovProposals = [];
-
-      await upsertProgress(client, this.cfg.pg?.progressId ?? 'default', maxH);
+      for (const e of this.extractors) {
+        await flushExtractorRows(client, e, this.bufExtracted[e.name]);
+        delete this.bufExtracted[e.name];
+      }
+
+      // A descending run stores its low watermark instead of the highest height.
+      if (this.cfg.pg?.progressDirection === 'desc') {
+        await upsertLowProgress(client, this.cfg.pg?.progressId ?? 'default', minH);
+      } else {
+        await upsertProgress(client, this.cfg.pg?.progressId ?? 'default', maxH);
+      }
+      // The extractor tip is the highest height written, whichever way the run goes.
+      await advanceExtractorTip(client, this.extractors, maxH);
 
       await client.query('COMMIT');
       const tookMs = Date.now() - t0;
@@ -99,6 +99,14 @@ export interface SinkConfig {
      * Insert mode for PostgreSQL.
      */
     mode?: 'block-atomic' | 'batch-insert';
+    /**
+     * Identifier of the progress row in `core.indexer_progress`.
+     */
+    progressId?: string;
+    /**
+     * Walking order of the run; `desc` records the lowest flushed height as progress.
+     */
+    progressDirection?: 'asc' | 'desc';
   };
 }
 
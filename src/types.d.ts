@@ -3,21 +3,50 @@ export type ArgMap = Record<string, string | boolean>;
 
 export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'silent';
 export type PgMode = 'block-atomic' | 'batch-insert';
+export type Command = 'index' | 'repair' | 'verify' | 'status' | 'rederive' | 'migrate';
 
 /**
  * Global application configuration resolved from CLI args, environment variables, and defaults.
  */
 export type Config = {
+  /** Command to run; `index` when none is given. */
+  command: Command;
   /** CometBFT RPC endpoint URL (http/https). */
   rpcUrl: string;
   /** Starting block height (inclusive). If omitted and --resume is set, will resume from DB. */
   from?: number | string;
   /** Ending block height (inclusive). If omitted (or set to "latest"), it will be resolved via /status. */
   to?: number;
+  /** Start of the range as an ISO time; resolved to the first block at or after it. */
+  fromTime?: string;
+  /** End of the range as an ISO time; resolved to the last block at or before it. */
+  toTime?: string;
   /** Total number of shards when running the indexer in parallel. */
   shards: number;
   /** Current shard id in range [0..shards-1]. */
   shardId: number;
+  /** Number of consecutive heights per shard chunk; chunk k is owned by shard k % shards. */
+  shardChunk: number;
+  /** Directory of the on-disk `/block` and `/block_results` cache; caching is off when unset. */
+  rpcCacheDir?: string;
+  /** Directory of extractor plugins registered with the Postgres sink. */
+  pluginsDir?: string;
+  /** JSON manifest of height-aware proto roots; the single proto directory is used when unset. */
+  protoManifest?: string;
+  /** Bech32 prefix of account addresses in legacy Amino transactions (`<prefix>valoper` for validators). */
+  bech32Prefix: string;
+  /** Where blocks come from: the RPC (through the cache when `rpcCacheDir` is set) or the cache only. */
+  source: 'rpc' | 'cache';
+  /** Backfill order: `asc` walks up to `to`, `desc` walks down from `to` toward `from`/`firstBlock`. */
+  direction: 'asc' | 'desc';
+  /** Job mode: claim chunks from `core.index_jobs` instead of walking a fixed range. */
+  jobs: boolean;
+  /** Number of consecutive heights per job chunk. */
+  jobChunk: number;
+  /** Lease duration in milliseconds of a claimed chunk; renewed while the chunk runs. */
+  jobLeaseMs: number;
+  /** Claims after which a chunk is marked failed. */
+  jobMaxAttempts: number;
   /** Max number of concurrent network requests. */
   concurrency: number;
   /** HTTP request timeout in milliseconds. */
@@ -30,6 +59,16 @@ export type Config = {
   backoffMs: number;
   /** Jitter factor [0..1] applied to backoff. */
   backoffJitter: number;
+  /** Approximate cap (MB) for assembled blocks waiting in the reorder buffer; 0 disables it. */
+  maxBufferMb: number;
+  /** Heights fetched per JSON-RPC batch request; 0 or 1 fetches every height on its own. */
+  rpcBatch: number;
+  /** Fast path of empty heights found through `/blockchain`: off, on, or on without `/block_results`. */
+  emptyFastPath: 'off' | 'on' | 'block-only';
+  /** When true, `concurrency` and `rps` are ceilings of an AIMD controller driven by RPC feedback. */
+  adaptive: boolean;
+  /** p95 RPC latency (ms) under which the adaptive controller keeps growing. */
+  adaptiveTargetP95Ms: number;
   /** Log verbosity level. */
   logLevel: LogLevel;
   /** Output JSON case style for assembled objects. */
@@ -46,6 +85,18 @@ export type Config = {
   flushEvery?: number;
   /** Resume mode flag; if true, starting height will be resolved from DB progress. */
   resume?: boolean;
+  /** `repair` only lists the gaps of the range instead of re-indexing them. */
+  dryRun: boolean;
+  /** Number of random heights `verify` checks; 0 checks every stored height of the range. */
+  verifySample: number;
+  /** Directory of the `.sql` files applied by `migrate`; `initdb/` when not set. */
+  migrationsDir?: string;
+  /** `migrate` records the files up to and including this one as applied without running them. */
+  migrateBaseline?: string;
+  /** Heights rebuilt per transaction by `rederive` and by the extractor catch-up. */
+  rederiveWindow: number;
+  /** If true, extractors that are new or out of date are rebuilt from `core.*` in the background. */
+  extractorCatchUp: boolean;
   /** First available block height for the chain (fallback if resume has no record). */
   firstBlock?: number;
   /** If true, `to` will be resolved from RPC /status (when user passed `--to=latest`). */
@@ -55,6 +106,20 @@ export type Config = {
   follow?: boolean;
   /** Polling interval in milliseconds for follow mode. */
   followIntervalMs?: number;
+  /** How follow mode discovers new blocks: polling `/status` or the `NewBlock` WebSocket subscription. */
+  followMode: 'poll' | 'ws';
+  /** WebSocket endpoint for `ws` follow mode; derived from `rpcUrl` when not set. */
+  followWsUrl?: string;
+  /** Reaction to a block whose parent hash does not match the stored block below it (postgres sink). */
+  onFork: 'halt' | 'rollback';
+  /** Maximum number of heights a fork rollback may walk back to find a common block. */
+  forkMaxRollback: number;
+  /** Interval in milliseconds between scans of the failed-heights table in follow mode. */
+  deadLetterIntervalMs: number;
+  /** Base backoff in milliseconds between retries of the same failed height (doubles per retry). */
+  deadLetterBackoffMs: number;
+  /** How long in-flight heights may take to drain on SIGINT/SIGTERM before the shutdown is reported unclean. */
+  shutdownTimeoutMs: number;
 
   /** Postgres connection and batching settings (present only for postgres sink). */
   pg?: {
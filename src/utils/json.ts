@@ -35,4 +35,58 @@ export function safeJsonReplacer(_key: string, value: any) {
  */
 export function safeJsonStringify(obj: unknown, space = 2): string {
     return JSON.stringify(obj, safeJsonReplacer, space);
-}
\ No newline at end of file
+}
+/**
+ * Estimates the serialized size of a JSON-like value in bytes without stringifying it.
+ * Strings count one byte per UTF-16 unit, numbers 8 bytes, byte arrays their length;
+ * object keys and punctuation are included. Shared references are counted once.
+ *
+ * @param value - The value to measure.
+ * @returns Approximate size in bytes.
+ */
+export function approxJsonBytes(value: unknown): number {
+    let total = 0;
+    const seen = new WeakSet<object>();
+    const stack: unknown[] = [value];
+    while (stack.length > 0) {
+        const v = stack.pop();
+        switch (typeof v) {
+            case "string":
+                total += v.length + 2;
+                continue;
+            case "number":
+            case "bigint":
+                total += 8;
+                continue;
+            case "boolean":
+                total += 5;
+                continue;
+            case "object":
+                break;
+            default:
+                total += 4;
+                continue;
+        }
+        if (v === null) {
+            total += 4;
+            continue;
+        }
+        if (seen.has(v)) continue;
+        seen.add(v);
+        if (ArrayBuffer.isView(v)) {
+            total += v.byteLength;
+            continue;
+        }
+        if (Array.isArray(v)) {
+            total += 2 + v.length;
+            for (const x of v) stack.push(x);
+            continue;
+        }
+        total += 2;
+        for (const k in v) {
+            total += k.length + 4;
+            stack.push((v as Record<string, unknown>)[k]);
+        }
+    }
+    return total;
+}
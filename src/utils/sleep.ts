@@ -2,11 +2,22 @@
  * Creates a delay for the specified number of milliseconds before resolving.
  *
  * @param ms - The number of milliseconds to sleep.
+ * @param signal - Optional abort signal; the promise resolves early when it is aborted.
  * @returns Promise that resolves after the specified delay.
  *
  * @example
  * await sleep(1000); // Waits for 1 second
  */
-export function sleep(ms: number): Promise<void> {
-  return new Promise((r) => setTimeout(r, ms));
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (!signal) return new Promise((r) => setTimeout(r, ms));
+  return new Promise((r) => {
+    if (signal.aborted) return r();
+    const done = () => {
+      clearTimeout(t);
+      signal.removeEventListener('abort', done);
+      r();
+    };
+    const t = setTimeout(done, ms);
+    signal.addEventListener('abort', done, { once: true });
+  });
 }
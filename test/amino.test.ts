@@ -0,0 +1,189 @@
+// test/amino.test.ts
+/**
+ * Tests of the legacy Amino `StdTx` decoder: cosmoshub-3 style transactions with a `MsgSend`,
+ * a `MsgDelegate` and a `MsgVote`, encoded in Amino binary and Amino JSON.
+ */
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import protobuf from 'protobufjs';
+import { aminoPrefix, decodeAminoJsonStdTx, decodeAminoStdTx } from '../src/decode/decoders/amino.ts';
+import { setBech32Prefix } from '../src/decode/decoders/context.ts';
+
+const FROM = Buffer.from('75857a45899985be4c4d941e90b6b396d6c92a4c', 'hex');
+const TO = Buffer.from('663ea1bfffe5038f3f0cf667f14c4257eff52d77', 'hex');
+const VALIDATOR = Buffer.from('f82af32160bc53112ca118abbf57fa6fed47eb90', 'hex');
+const PUB_KEY = Buffer.alloc(33, 2);
+const SIGNATURE = Buffer.alloc(64, 7);
+
+// Bech32 forms of the raw addresses above.
+const FROM_ADDR = 'cosmos1wkzh53vfnxzmunzdjs0fpd4njmtvj2jv2wg8lx';
+const TO_ADDR = 'cosmos1vcl2r0llu5pc70cv7enlznzz2lhl2tth7dl5d9';
+const VALOPER_ADDR = 'cosmosvaloper1lq40xgtqh3f3zt9prz4m74l6dlk506us06lq24';
+
+type Field = [no: number, value: Uint8Array | string | number];
+
+/** Encodes an Amino binary struct: bytes and strings length-delimited, numbers as varints. */
+function struct(...fields: Field[]): Uint8Array {
+  const w = protobuf.Writer.create();
+  for (const [no, v] of fields) {
+    if (typeof v === 'number') w.uint32((no << 3) | 0).uint64(v);
+    else if (typeof v === 'string') w.uint32((no << 3) | 2).string(v);
+    else w.uint32((no << 3) | 2).bytes(v);
+  }
+  return w.finish();
+}
+
+/** Prepends the Amino prefix of a registered concrete type. */
+const concrete = (name: string, body: Uint8Array) =>
+  Buffer.concat([Buffer.from(aminoPrefix(name), 'hex'), Buffer.from(body)]);
+
+const coin = (denom: string, amount: string) => struct([1, denom], [2, amount]);
+
+/** A cosmoshub-3 `StdTx` in Amino binary, length-prefixed like the transactions of a block. */
+function binaryStdTx(): Uint8Array {
+  const msgs: Field[] = [
+    [1, concrete('cosmos-sdk/MsgSend', struct([1, FROM], [2, TO], [3, coin('uatom', '1000')]))],
+    [1, concrete('cosmos-sdk/MsgDelegate', struct([1, FROM], [2, VALIDATOR], [3, coin('uatom', '25000')]))],
+    [1, concrete('cosmos-sdk/MsgVote', struct([1, 23], [2, FROM], [3, 1]))],
+  ];
+  const fee = struct([1, coin('uatom', '5000')], [2, 200000]);
+  const pubKey = concrete('tendermint/PubKeySecp256k1', protobuf.Writer.create().bytes(PUB_KEY).finish());
+  const sig = struct([1, pubKey], [2, SIGNATURE]);
+  const body = concrete('cosmos-sdk/StdTx', struct(...msgs, [2, fee], [3, sig], [4, 'hello']));
+  return protobuf.Writer.create().bytes(body).finish();
+}
+
+/** The same transaction in Amino JSON. */
+function jsonStdTx(): Uint8Array {
+  const doc = {
+    type: 'cosmos-sdk/StdTx',
+    value: {
+      msg: [
+        {
+          type: 'cosmos-sdk/MsgSend',
+          value: { from_address: FROM_ADDR, to_address: TO_ADDR, amount: [{ denom: 'uatom', amount: '1000' }] },
+        },
+        {
+          type: 'cosmos-sdk/MsgDelegate',
+          value: {
+            delegator_address: FROM_ADDR,
+            validator_address: VALOPER_ADDR,
+            amount: { denom: 'uatom', amount: '25000' },
+          },
+        },
+        { type: 'cosmos-sdk/MsgVote', value: { proposal_id: '23', voter: FROM_ADDR, option: 'Yes' } },
+      ],
+      fee: { amount: [{ denom: 'uatom', amount: '5000' }], gas: '200000' },
+      signatures: [
+        {
+          pub_key: { type: 'tendermint/PubKeySecp256k1', value: PUB_KEY.toString('base64') },
+          signature: SIGNATURE.toString('base64'),
+        },
+      ],
+      memo: 'hello',
+    },
+  };
+  return Buffer.from(JSON.stringify(doc), 'utf8');
+}
+
+const expectedMessages = [
+  {
+    '@type': '/cosmos.bank.v1beta1.MsgSend',
+    from_address: FROM_ADDR,
+    to_address: TO_ADDR,
+    amount: [{ denom: 'uatom', amount: '1000' }],
+  },
+  {
+    '@type': '/cosmos.staking.v1beta1.MsgDelegate',
+    delegator_address: FROM_ADDR,
+    validator_address: VALOPER_ADDR,
+    amount: { denom: 'uatom', amount: '25000' },
+  },
+  { '@type': '/cosmos.gov.v1beta1.MsgVote', proposal_id: '23', voter: FROM_ADDR, option: 'VOTE_OPTION_YES' },
+];
+
+test('aminoPrefix matches the well-known prefixes', () => {
+  assert.equal(aminoPrefix('auth/StdTx'), 'F0625DEE');
+  assert.equal(aminoPrefix('cosmos-sdk/StdTx'), '282816A9');
+  assert.equal(aminoPrefix('cosmos-sdk/MsgSend'), 'A8A3619A');
+  assert.equal(aminoPrefix('tendermint/PubKeySecp256k1'), 'EB5AE987');
+  assert.equal(aminoPrefix('tendermint/PubKeyEd25519'), '1624DE64');
+});
+
+test('decodes a binary StdTx: messages, fee, signature and memo', () => {
+  const tx = decodeAminoStdTx(binaryStdTx());
+  assert.ok(tx);
+  assert.deepEqual(tx.body.messages, expectedMessages);
+  assert.equal(tx.body.memo, 'hello');
+  assert.deepEqual(tx.auth_info.fee, {
+    amount: [{ denom: 'uatom', amount: '5000' }],
+    gas_limit: '200000',
+    payer: '',
+    granter: '',
+  });
+  assert.deepEqual(tx.auth_info.signer_infos, [
+    {
+      public_key: { '@type': '/cosmos.crypto.secp256k1.PubKey', key: PUB_KEY.toString('base64') },
+      mode_info: { single: { mode: 'SIGN_MODE_LEGACY_AMINO_JSON' } },
+      sequence: '0',
+    },
+  ]);
+  assert.deepEqual(tx.signatures, [SIGNATURE.toString('base64')]);
+});
+
+test('binary and JSON encodings of the same StdTx decode alike', () => {
+  assert.deepEqual(decodeAminoJsonStdTx(jsonStdTx()), decodeAminoStdTx(binaryStdTx()));
+});
+
+test('binary StdTx without the length prefix decodes too', () => {
+  const body = protobuf.Reader.create(binaryStdTx()).bytes();
+  assert.deepEqual(decodeAminoStdTx(body)?.body.messages, expectedMessages);
+});
+
+test('binary addresses take the configured bech32 prefix', () => {
+  setBech32Prefix('terra');
+  try {
+    const [send, delegate] = decodeAminoStdTx(binaryStdTx())!.body.messages as any[];
+    assert.equal(send.from_address, 'terra1wkzh53vfnxzmunzdjs0fpd4njmtvj2jvv2j8ax');
+    assert.equal(delegate.validator_address, 'terravaloper1lq40xgtqh3f3zt9prz4m74l6dlk506usv9ag54');
+  } finally {
+    setBech32Prefix('cosmos');
+  }
+});
+
+test('vote options map from binary enums and JSON names', () => {
+  const voteBinary = (option: number) => {
+    const msg = concrete('cosmos-sdk/MsgVote', struct([1, 1], [2, FROM], [3, option]));
+    return decodeAminoStdTx(concrete('cosmos-sdk/StdTx', struct([1, msg])))!.body.messages[0].option;
+  };
+  const voteJson = (option: unknown) => {
+    const doc = { type: 'auth/StdTx', value: { msg: [{ type: 'cosmos-sdk/MsgVote', value: { option } }] } };
+    return decodeAminoJsonStdTx(Buffer.from(JSON.stringify(doc)))!.body.messages[0].option;
+  };
+  assert.deepEqual([1, 2, 3, 4].map(voteBinary), [
+    'VOTE_OPTION_YES',
+    'VOTE_OPTION_ABSTAIN',
+    'VOTE_OPTION_NO',
+    'VOTE_OPTION_NO_WITH_VETO',
+  ]);
+  assert.deepEqual(['Yes', 'Abstain', 'No', 'NoWithVeto', 3].map(voteJson), [
+    'VOTE_OPTION_YES',
+    'VOTE_OPTION_ABSTAIN',
+    'VOTE_OPTION_NO',
+    'VOTE_OPTION_NO_WITH_VETO',
+    'VOTE_OPTION_NO',
+  ]);
+});
+
+test('unregistered messages and other transactions are passed through or rejected', () => {
+  const unknown = concrete('cosmos-sdk/MsgSomethingNew', struct([1, 'x']));
+  const tx = decodeAminoStdTx(concrete('auth/StdTx', struct([1, unknown])));
+  assert.deepEqual(tx?.body.messages, [
+    {
+      '@type': `amino/${aminoPrefix('cosmos-sdk/MsgSomethingNew')}`,
+      value_b64: Buffer.from(struct([1, 'x'])).toString('base64'),
+    },
+  ]);
+  assert.equal(decodeAminoStdTx(Buffer.from('0a0b0c0d0e', 'hex')), undefined);
+  assert.equal(decodeAminoJsonStdTx(Buffer.from('{"type":"cosmos-sdk/Other","value":{}}')), undefined);
+});
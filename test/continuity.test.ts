@@ -0,0 +1,173 @@
+// test/continuity.test.ts
+/**
+ * Tests of the parent-hash continuity guard: locating the fork base and rolling back,
+ * against a stub RPC client and an in-memory stand-in for the database.
+ */
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createContinuityGuard, ForkError } from '../src/runner/continuity.ts';
+import { registerExtractor } from '../src/sink/pg/extractors/index.ts';
+
+// A plugin extractor with a height-partitioned table; a rollback must clear it too.
+registerExtractor({
+  name: 'test_plugin',
+  version: 1,
+  fromBlock: () => [],
+  target: { table: 'plugin.things', columns: ['height'], conflict: 'height', partitioned: true },
+});
+
+/** Hash of a height on a branch; the branches share every height below `forkAt`. */
+const hashOf = (branch: string, h: number, forkAt: number) => (h < forkAt ? `A${h}` : `${branch}${h}`);
+
+/** Stub RPC serving branch `B`, which left branch `A` at `forkAt`. */
+function stubRpc(forkAt: number) {
+  const invalidated: number[] = [];
+  const block = (h: number) => ({
+    block_id: { hash: hashOf('B', h, forkAt) },
+    block: {
+      header: {
+        chain_id: 'test-1',
+        height: String(h),
+        time: '2024-01-01T00:00:00Z',
+        last_block_id: { hash: hashOf('B', h - 1, forkAt) },
+      },
+      data: { txs: [] },
+    },
+  });
+  const rpc: any = {
+    fetchBlock: async (h: number) => block(h),
+    fetchBlockResults: async (h: number) => ({ height: String(h) }),
+    invalidate: async (h: number) => void invalidated.push(h),
+  };
+  return { rpc, block, invalidated };
+}
+
+/**
+ * In-memory database: `core.blocks` hashes by height; every other statement is only recorded.
+ */
+function stubDb(stored: Map<number, string>) {
+  const queries: Array<{ sql: string; params: any[] }> = [];
+  const query = async (sql: string, params: any[] = []) => {
+    queries.push({ sql, params });
+    if (/SELECT block_hash FROM core\.blocks/.test(sql)) {
+      const h = stored.get(params[0]);
+      return { rowCount: h ? 1 : 0, rows: h ? [{ block_hash: h }] : [] };
+    }
+    if (/DELETE FROM core\.blocks /.test(sql)) {
+      let n = 0;
+      for (let k = params[0]; k <= params[1]; k++) if (stored.delete(k)) n++;
+      return { rowCount: n, rows: [] };
+    }
+    return { rowCount: 0, rows: [] };
+  };
+  const pool: any = { query, connect: async () => ({ query, release: () => {} }) };
+  return { pool, queries };
+}
+
+/** Inner sink that stores the hash of each written block. */
+function stubSink(stored: Map<number, string>) {
+  const written: number[] = [];
+  const sink: any = {
+    init: async () => {},
+    flush: async () => {},
+    close: async () => {},
+    write: async (line: any) => {
+      const h = Number(line.meta.height);
+      written.push(h);
+      stored.set(h, line.block.block_id.hash);
+    },
+  };
+  return { sink, written };
+}
+
+const decodePool: any = { noteUpgrades: () => false, rootFor: () => undefined, describe: () => 'stub' };
+
+/** Stored branch `A` for heights 1..10. */
+const storedA = (forkAt: number) => new Map(Array.from({ length: 10 }, (_, i) => [i + 1, hashOf('A', i + 1, forkAt)]));
+
+/** The line the indexer would write for a height, as `assembleBlockJsonFromParts` builds it. */
+const lineOf = (block: any) => ({ meta: { height: block.block.header.height }, block, txs: [] });
+
+function guard(mode: 'halt' | 'rollback', forkAt: number, maxRollback = 100) {
+  const stored = storedA(forkAt);
+  const { rpc, block, invalidated } = stubRpc(forkAt);
+  const { pool, queries } = stubDb(stored);
+  const { sink, written } = stubSink(stored);
+  const g = createContinuityGuard(sink, {
+    pool,
+    rpc,
+    decodePool,
+    mode,
+    maxRollback,
+    caseMode: 'snake',
+    concurrency: 2,
+    progressIds: ['main'],
+  });
+  return { g, stored, block, invalidated, queries, written };
+}
+
+test('rollback walks back to the fork base, clears the abandoned heights and re-indexes them', async () => {
+  const { g, stored, block, invalidated, queries, written } = guard('rollback', 8);
+
+  await g.write(lineOf(block(11)));
+
+  // 10, 9 and 8 differ from the RPC; 7 is the common block.
+  assert.deepEqual(invalidated, [11, 10, 9, 8, 7]);
+  assert.deepEqual(written, [8, 9, 10, 11]);
+  assert.deepEqual(
+    [7, 8, 9, 10, 11].map((h) => stored.get(h)),
+    ['A7', 'B8', 'B9', 'B10', 'B11'],
+  );
+
+  const deleted = (table: string) => queries.find((q) => q.sql.startsWith(`DELETE FROM ${table} `))?.params;
+  assert.deepEqual(deleted('plugin.things'), [8, 10]);
+  assert.deepEqual(deleted('gov.votes'), [8, 10]);
+  assert.deepEqual(deleted('core.chain_upgrades'), [8, 10]);
+  const progress = queries.find((q) => q.sql.includes('UPDATE core.indexer_progress'));
+  assert.deepEqual(progress?.params, [['main'], 7]);
+  const tips = queries.find((q) => q.sql.includes('UPDATE core.extractor_progress'));
+  assert.deepEqual(tips?.params, [7]);
+
+  // The deletes and progress moves share one transaction.
+  const sqls = queries.map((q) => q.sql);
+  const begin = sqls.indexOf('BEGIN');
+  const commit = sqls.indexOf('COMMIT');
+  assert.ok(begin >= 0 && begin < sqls.findIndex((s) => s.startsWith('DELETE FROM core.blocks ')));
+  assert.ok(commit > sqls.findIndex((s) => s.includes('UPDATE core.indexer_progress')));
+});
+
+test('rollback stops when the stored parent still matches the chain', async () => {
+  // The stored chain is branch A up to 10, and so is the RPC's, but the incoming block links elsewhere.
+  const { g, block, queries, written } = guard('rollback', 100);
+  const bad = block(11);
+  bad.block.header.last_block_id.hash = 'X10';
+
+  await assert.rejects(g.write(lineOf(bad)), (e: any) => e instanceof ForkError && /does not link/.test(e.message));
+  assert.deepEqual(written, []);
+  assert.ok(!queries.some((q) => q.sql.startsWith('DELETE')));
+});
+
+test('rollback gives up when no common block is found within maxRollback', async () => {
+  const { g, block, invalidated, queries } = guard('rollback', 3, 5);
+
+  await assert.rejects(g.write(lineOf(block(11))), (e: any) => e instanceof ForkError && /within 5/.test(e.message));
+  // Heights 10 down to 6 were compared, none matched.
+  assert.deepEqual(invalidated, [11, 10, 9, 8, 7, 6]);
+  assert.ok(!queries.some((q) => q.sql.startsWith('DELETE')));
+});
+
+test('halt mode stops at the first mismatch without deleting anything', async () => {
+  const { g, block, queries, written } = guard('halt', 8);
+
+  await assert.rejects(g.write(lineOf(block(11))), ForkError);
+  assert.deepEqual(written, []);
+  assert.ok(!queries.some((q) => q.sql.startsWith('DELETE')));
+});
+
+test('consecutive linked blocks pass without rollback', async () => {
+  const { g, block, written } = guard('rollback', 100);
+
+  await g.write(lineOf(block(11)));
+  await g.write(lineOf(block(12)));
+  assert.deepEqual(written, [11, 12]);
+});
@@ -0,0 +1,90 @@
+// test/gov.test.ts
+/**
+ * Tests of the governance extractors, which build their rows from messages and events only,
+ * so that they can be rebuilt from `core.*` rows.
+ */
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { extractTxRows } from '../src/sink/pg/derive.ts';
+import { govDepositsExtractor, govProposalsExtractor, govVotesExtractor } from '../src/sink/pg/extractors/gov.ts';
+import { isRebuildable } from '../src/sink/pg/extractors/index.ts';
+
+const gov = [govDepositsExtractor, govVotesExtractor, govProposalsExtractor];
+
+const txOf = (over: any = {}) => ({
+  tx_hash: 'AB',
+  height: 10,
+  time: new Date('2024-01-01T00:00:00Z'),
+  code: 0,
+  gas_used: 100,
+  log_summary: null,
+  firstSigner: 'cosmos1signer',
+  msgs: [],
+  ...over,
+});
+
+test('gov extractors are rebuildable from core rows', () => {
+  assert.ok(gov.every(isRebuildable));
+});
+
+test('votes and deposits come from messages, nested ones included', () => {
+  const out: Record<string, any[]> = {};
+  const vote = {
+    '@type': '/cosmos.gov.v1beta1.MsgVote',
+    proposal_id: '5',
+    voter: 'cosmos1v',
+    option: 'VOTE_OPTION_YES',
+  };
+  const deposit = {
+    '@type': '/cosmos.gov.v1.MsgDeposit',
+    proposal_id: '5',
+    depositor: 'cosmos1d',
+    amount: [{ denom: 'uatom', amount: '7' }],
+  };
+  const exec = { '@type': '/cosmos.authz.v1beta1.MsgExec', msgs: [vote] };
+  extractTxRows(
+    gov,
+    txOf({ msgs: [exec, deposit], innerMsgs: [{ msg_index: 0, inner_index: [0], msg: vote }] }),
+    [],
+    out,
+  );
+
+  assert.deepEqual(out.gov_votes, [
+    { proposal_id: 5n, voter: 'cosmos1v', option: 'VOTE_OPTION_YES', weight: null, height: 10, tx_hash: 'AB' },
+  ]);
+  assert.deepEqual(out.gov_deposits, [
+    { proposal_id: 5n, depositor: 'cosmos1d', denom: 'uatom', amount: '7', height: 10, tx_hash: 'AB' },
+  ]);
+});
+
+test('proposals take their id from the submit_proposal event of the message log', () => {
+  const out: Record<string, any[]> = {};
+  const submit = {
+    '@type': '/cosmos.gov.v1beta1.MsgSubmitProposal',
+    content: { '@type': '/cosmos.gov.v1beta1.TextProposal', title: 'T', description: 'D' },
+    proposer: 'cosmos1p',
+  };
+  const events = [
+    { msg_index: 1, event_index: 0, type: 'submit_proposal', attributes: [{ key: 'proposal_id', value: '12' }] },
+  ];
+  extractTxRows(gov, txOf({ msgs: [{ '@type': '/cosmos.bank.v1beta1.MsgSend' }, submit] }), events, out);
+
+  assert.deepEqual(out.gov_proposals, [
+    {
+      proposal_id: 12n,
+      submitter: 'cosmos1p',
+      title: 'T',
+      summary: 'D',
+      proposal_type: '/cosmos.gov.v1beta1.TextProposal',
+      status: 'deposit_period',
+      submit_time: new Date('2024-01-01T00:00:00Z'),
+    },
+  ]);
+});
+
+test('failed transactions produce no gov rows', () => {
+  const out: Record<string, any[]> = {};
+  const vote = { '@type': '/cosmos.gov.v1.MsgVote', proposal_id: '5', voter: 'cosmos1v', option: 'VOTE_OPTION_NO' };
+  extractTxRows(gov, txOf({ code: 5, msgs: [vote] }), [], out);
+  assert.deepEqual(out.gov_votes ?? [], []);
+});
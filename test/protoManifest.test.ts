@@ -0,0 +1,66 @@
+// test/protoManifest.test.ts
+/**
+ * Tests of height-aware proto roots: start heights from `from` and from named upgrades, and the
+ * root in use at the heights around each switch.
+ */
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { resolveRootSwitches, rootAtHeight } from '../src/decode/protoManifest.ts';
+import type { ProtoManifest } from '../src/decode/protoManifest.ts';
+
+const manifest: ProtoManifest = {
+  roots: [
+    { name: 'genesis', protoDir: '/p/genesis', from: 50 },
+    { name: 'v2', protoDir: '/p/v2', from: 100 },
+    { name: 'v3', protoDir: '/p/v3', upgrade: 'v3' },
+    { name: 'v4', protoDir: '/p/v4', upgrade: 'v4' },
+  ],
+};
+
+test('the first root starts at 0 and later ones at their from or upgrade height', () => {
+  assert.deepEqual(resolveRootSwitches(manifest, new Map([['v3', 250]])), [
+    { from: 0, name: 'genesis' },
+    { from: 100, name: 'v2' },
+    { from: 250, name: 'v3' },
+  ]);
+});
+
+test('a root switches exactly at its from height', () => {
+  const switches = resolveRootSwitches(manifest, new Map());
+  assert.equal(rootAtHeight(switches, 0), 'genesis');
+  assert.equal(rootAtHeight(switches, 99), 'genesis');
+  assert.equal(rootAtHeight(switches, 100), 'v2');
+});
+
+test('a root switches exactly at its upgrade height', () => {
+  const switches = resolveRootSwitches(
+    manifest,
+    new Map([
+      ['v3', 250],
+      ['v4', 251],
+    ]),
+  );
+  assert.equal(rootAtHeight(switches, 249), 'v2');
+  assert.equal(rootAtHeight(switches, 250), 'v3');
+  assert.equal(rootAtHeight(switches, 251), 'v4');
+  assert.equal(rootAtHeight(switches, 1_000_000), 'v4');
+});
+
+test('heights after an unknown upgrade stay on the root before it', () => {
+  // v4 is known but v3 is not: v3 is left out, v4 still starts at its own height.
+  const switches = resolveRootSwitches(manifest, new Map([['v4', 400]]));
+  assert.equal(rootAtHeight(switches, 300), 'v2');
+  assert.equal(rootAtHeight(switches, 400), 'v4');
+});
+
+test('start heights must increase in manifest order', () => {
+  assert.throws(
+    () => resolveRootSwitches(manifest, new Map([['v3', 100]])),
+    /proto root "v3" starts at 100, not after "v2" \(100\)/,
+  );
+  assert.throws(() => resolveRootSwitches(manifest, new Map([['v3', 80]])), /not after "v2"/);
+});
+
+test('no switches means no root', () => {
+  assert.equal(rootAtHeight([], 10), undefined);
+});
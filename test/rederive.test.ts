@@ -0,0 +1,58 @@
+// test/rederive.test.ts
+/**
+ * Tests of reading stored core rows back as extractor inputs, against a stub database.
+ */
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { loadStoredTxs } from '../src/db/rederive.ts';
+
+function stubDb(rows: { txs: any[]; msgs: any[]; events: any[] }) {
+  const queries: Array<{ sql: string; params: any[] }> = [];
+  const pool: any = {
+    query: async (sql: string, params: any[]) => {
+      queries.push({ sql, params });
+      if (/FROM core\.transactions/.test(sql)) return { rows: rows.txs };
+      if (/FROM core\.messages/.test(sql)) return { rows: rows.msgs };
+      if (/FROM core\.events/.test(sql)) return { rows: rows.events };
+      throw new Error(`unexpected query: ${sql}`);
+    },
+  };
+  return { pool, queries };
+}
+
+const txRow = (tx_hash: string, height: number) => ({
+  tx_hash,
+  height,
+  time: null,
+  code: 0,
+  gas_used: '1',
+  log_summary: null,
+  signers: null,
+});
+
+test('messages are placed at their msg_index and events are looked up by the window hashes', async () => {
+  const { pool, queries } = stubDb({
+    txs: [txRow('A', 5), txRow('B', 6)],
+    msgs: [
+      { tx_hash: 'A', msg_index: 0, inner_index: [], value: { n: 0 } },
+      { tx_hash: 'A', msg_index: 2, inner_index: [], value: { n: 2 } },
+      { tx_hash: 'A', msg_index: 2, inner_index: [0], value: { n: 20 } },
+    ],
+    events: [{ tx_hash: 'B', msg_index: -1, event_index: 0, event_type: 'tx', attributes: [] }],
+  });
+
+  const [a, b] = await loadStoredTxs(pool, 5, 6);
+
+  assert.equal(a.msgs.length, 3);
+  assert.equal(1 in a.msgs, false);
+  assert.deepEqual(a.msgs[2], { n: 2 });
+  assert.deepEqual(a.innerMsgs, [{ msg_index: 2, inner_index: [0], msg: { n: 20 } }]);
+  assert.deepEqual(b.events, [{ msg_index: -1, event_index: 0, event_type: 'tx', attributes: [] }]);
+  assert.deepEqual(queries.find((q) => /core\.events/.test(q.sql))?.params, [['A', 'B']]);
+});
+
+test('a window without transactions does not query core.events', async () => {
+  const { pool, queries } = stubDb({ txs: [], msgs: [], events: [] });
+  assert.deepEqual(await loadStoredTxs(pool, 1, 100), []);
+  assert.ok(!queries.some((q) => /core\.events/.test(q.sql)));
+});
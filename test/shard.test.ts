@@ -0,0 +1,82 @@
+// test/shard.test.ts
+/**
+ * Tests of height sharding: chunk ownership and the global contiguous watermark, against a stub
+ * of `core.indexer_progress`.
+ */
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { computeShardWatermark, nextOwnedHeight, shardOf, shardRanges } from '../src/runner/shard.ts';
+
+const layout = { shards: 3, chunkSize: 10 };
+
+/** Stub pool serving `last_height` by progress id. */
+function stubPool(progress: Record<string, number>) {
+  const ids: string[] = [];
+  const pool: any = {
+    query: async (_sql: string, [id]: [string]) => {
+      ids.push(id);
+      return id in progress
+        ? { rowCount: 1, rows: [{ last_height: String(progress[id]) }] }
+        : { rowCount: 0, rows: [] };
+    },
+  };
+  return { pool, ids };
+}
+
+const shard = (i: number, last: number) => [`main:shard-${i}-of-3`, last] as const;
+
+test('chunks are owned round-robin', () => {
+  assert.deepEqual(
+    [0, 9, 10, 19, 20, 29, 30].map((h) => shardOf(h, layout)),
+    [0, 0, 1, 1, 2, 2, 0],
+  );
+  assert.equal(nextOwnedHeight(5, { ...layout, shardId: 0 }), 5);
+  assert.equal(nextOwnedHeight(5, { ...layout, shardId: 1 }), 10);
+  assert.equal(nextOwnedHeight(25, { ...layout, shardId: 0 }), 30);
+  assert.equal(nextOwnedHeight(25, { ...layout, shardId: 1 }), 40);
+});
+
+test('shard ranges are clipped to the range bounds', () => {
+  assert.deepEqual(shardRanges(5, 65, { ...layout, shardId: 0 }), [
+    { from: 5, to: 9 },
+    { from: 30, to: 39 },
+    { from: 60, to: 65 },
+  ]);
+  assert.deepEqual(shardRanges(5, 65, { ...layout, shardId: 1 }), [
+    { from: 10, to: 19 },
+    { from: 40, to: 49 },
+  ]);
+  assert.deepEqual(shardRanges(31, 38, { ...layout, shardId: 2 }), []);
+});
+
+test('watermark is floor - 1 until the first chunk is done', async () => {
+  assert.equal(await computeShardWatermark(stubPool({}).pool, 'main', layout, 5), 4);
+  const { pool } = stubPool(Object.fromEntries([shard(0, 7), shard(1, 19)]));
+  assert.equal(await computeShardWatermark(pool, 'main', layout, 5), 7);
+});
+
+test('watermark stops below the first height a lagging shard still owns', async () => {
+  // Shard 2 has not started: its first chunk [20, 29] is the gap.
+  let { pool } = stubPool(Object.fromEntries([shard(0, 39), shard(1, 49)]));
+  assert.equal(await computeShardWatermark(pool, 'main', layout, 0), 19);
+
+  // Every shard is through its first chunk; shard 0 is halfway through [30, 39].
+  ({ pool } = stubPool(Object.fromEntries([shard(0, 34), shard(1, 19), shard(2, 29)])));
+  assert.equal(await computeShardWatermark(pool, 'main', layout, 0), 34);
+
+  // A shard that finished a chunk moves on to its next one; the others bound the watermark.
+  ({ pool } = stubPool(Object.fromEntries([shard(0, 39), shard(1, 19), shard(2, 29)])));
+  assert.equal(await computeShardWatermark(pool, 'main', layout, 0), 39);
+});
+
+test('progress below the floor counts from the floor', async () => {
+  const { pool } = stubPool(Object.fromEntries([shard(0, 50), shard(1, 50), shard(2, 50)]));
+  // Floor 95 lies in shard 0's chunk [90, 99], which none of them has reached.
+  assert.equal(await computeShardWatermark(pool, 'main', layout, 95), 94);
+});
+
+test('a single shard reads the base progress id', async () => {
+  const { pool, ids } = stubPool({ main: 41 });
+  assert.equal(await computeShardWatermark(pool, 'main', { shards: 1, chunkSize: 10 }, 0), 41);
+  assert.deepEqual(ids, ['main']);
+});
@@ -0,0 +1,167 @@
+// test/syncRange.test.ts
+/**
+ * Tests of `syncRange` against a stub RPC client, decode pool and sink.
+ */
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { syncRange } from '../src/runner/syncRange.ts';
+
+/** Heights below `to` that carry one transaction; every other height is empty. */
+type Chain = { to: number; withTxs: Set<number> };
+
+const blockAt = (chain: Chain, h: number) => ({
+  block_id: { hash: `H${h}` },
+  block: {
+    header: { chain_id: 'test-1', height: String(h), time: '2024-01-01T00:00:00Z' },
+    data: { txs: chain.withTxs.has(h) ? ['AAAA'] : [] },
+  },
+});
+const resultsAt = (h: number) => ({ height: String(h), txs_results: [] });
+
+/** Stub RPC that counts the calls of each method. */
+function stubRpc(chain: Chain, opts: { batch?: boolean; blockchain?: boolean } = {}) {
+  const calls = { block: 0, blockResults: 0, batch: 0, batchSizes: [] as number[], blockchain: 0 };
+  const rpc: any = {
+    fetchBlock: async (h: number) => {
+      calls.block++;
+      return blockAt(chain, h);
+    },
+    fetchBlockResults: async (h: number) => {
+      calls.blockResults++;
+      return resultsAt(h);
+    },
+  };
+  if (opts.batch) {
+    rpc.fetchBlockBatch = async (heights: number[]) => {
+      calls.batch++;
+      calls.batchSizes.push(heights.length);
+      await new Promise((r) => setTimeout(r, 1));
+      return heights.map((h) => ({ height: h, block: blockAt(chain, h), blockResults: resultsAt(h) }));
+    };
+  }
+  if (opts.blockchain) {
+    rpc.fetchBlockchain = async (min: number, max: number) => {
+      calls.blockchain++;
+      const block_metas = [];
+      for (let h = max; h >= min; h--) {
+        block_metas.push({ header: { height: String(h) }, num_txs: chain.withTxs.has(h) ? '1' : '0' });
+      }
+      return { block_metas };
+    };
+  }
+  return { rpc, calls };
+}
+
+/**
+ * Stub decode pool that resolves on a later macrotask, like a worker reply.
+ * `delayMs` staggers the replies of the heights of one batch.
+ */
+function stubPool(delayMs: (h: number) => number = () => 0) {
+  const submitted: number[] = [];
+  const pool: any = {
+    submitBlock: (h: number, txs: string[]) => {
+      submitted.push(h);
+      const out = { decoded: txs.map(() => undefined), hashes: txs.map(() => 'X'), hex: txs };
+      return new Promise((r) => setTimeout(() => r(out), delayMs(h)));
+    },
+    rootFor: () => undefined,
+    noteUpgrades: () => false,
+    describe: () => 'stub',
+  };
+  return { pool, submitted };
+}
+
+function stubSink() {
+  const heights: number[] = [];
+  const sink: any = { write: async (b: any) => void heights.push(Number(b.meta.height)) };
+  return { sink, heights };
+}
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+const baseOpts = {
+  progressEveryBlocks: 1_000_000,
+  progressIntervalSec: 3600,
+  caseMode: 'snake' as const,
+  reportSpeed: false,
+};
+
+test('empty fast path: empty heights skip the decode pool, and /block_results with block-only', async () => {
+  const chain: Chain = { to: 100, withTxs: new Set([5, 37, 38, 90]) };
+  const { rpc, calls } = stubRpc(chain, { blockchain: true });
+  const { pool, submitted } = stubPool();
+  const { sink, heights } = stubSink();
+
+  const res = await syncRange(rpc, pool, sink, {
+    ...baseOpts,
+    from: 1,
+    to: 100,
+    concurrency: 2,
+    emptyFastPath: 'block-only',
+  });
+
+  assert.equal(res.processed, 100);
+  assert.deepEqual(heights, range(1, 100));
+  assert.deepEqual(
+    submitted.sort((a, b) => a - b),
+    [5, 37, 38, 90],
+  );
+  assert.equal(calls.block, 100);
+  assert.equal(calls.blockResults, 4);
+  // Five windows of 20 heights, each loaded once.
+  assert.equal(calls.blockchain, 5);
+});
+
+test('empty fast path walks a descending range and keeps block results with "on"', async () => {
+  const chain: Chain = { to: 45, withTxs: new Set([10, 44]) };
+  const { rpc, calls } = stubRpc(chain, { blockchain: true });
+  const { pool, submitted } = stubPool();
+  const { sink, heights } = stubSink();
+
+  await syncRange(rpc, pool, sink, {
+    ...baseOpts,
+    from: 3,
+    to: 45,
+    concurrency: 4,
+    direction: 'desc',
+    emptyFastPath: 'on',
+  });
+
+  assert.deepEqual(heights, range(3, 45).reverse());
+  assert.deepEqual(
+    submitted.sort((a, b) => a - b),
+    [10, 44],
+  );
+  assert.equal(calls.blockResults, 43);
+  assert.equal(calls.blockchain, 3);
+});
+
+test('empty fast path takes the regular path when /blockchain fails', async () => {
+  const chain: Chain = { to: 30, withTxs: new Set([7]) };
+  const { rpc, calls } = stubRpc(chain, { blockchain: true });
+  rpc.fetchBlockchain = async () => {
+    throw new Error('boom');
+  };
+  const { pool } = stubPool();
+  const { sink, heights } = stubSink();
+
+  await syncRange(rpc, pool, sink, { ...baseOpts, from: 1, to: 30, concurrency: 3, emptyFastPath: 'block-only' });
+
+  assert.deepEqual(heights, range(1, 30));
+  assert.equal(calls.blockResults, 30);
+});
+
+test('rpcBatch keeps every POST full over a long range', async () => {
+  const chain: Chain = { to: 405, withTxs: new Set(range(1, 405)) };
+  const { rpc, calls } = stubRpc(chain, { batch: true });
+  // Heights of one batch finish in different macrotasks, as worker replies do.
+  const { pool } = stubPool((h) => h % 5);
+  const { sink, heights } = stubSink();
+
+  await syncRange(rpc, pool, sink, { ...baseOpts, from: 1, to: 405, concurrency: 16, rpcBatch: 8 });
+
+  assert.deepEqual(heights, range(1, 405));
+  assert.equal(calls.block, 0);
+  // 50 full batches, then the 5 heights of the range tail.
+  assert.deepEqual(calls.batchSizes, [...Array(50).fill(8), 5]);
+});
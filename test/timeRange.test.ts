@@ -0,0 +1,88 @@
+// test/timeRange.test.ts
+/**
+ * Tests of resolving times to heights by binary search over `/block` header times, against a
+ * stub RPC client serving heights 10..20 six seconds apart.
+ */
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { firstHeightAtTime, resolveTimeRange } from '../src/runner/timeRange.ts';
+
+const T0 = Date.parse('2024-01-01T00:00:00Z');
+const timeOf = (h: number) => new Date(T0 + (h - 10) * 6000);
+
+function stubRpc() {
+  const fetched: number[] = [];
+  const rpc: any = {
+    fetchBlock: async (h: number) => {
+      fetched.push(h);
+      return { block: { header: { height: String(h), time: timeOf(h).toISOString() } } };
+    },
+  };
+  return { rpc, fetched };
+}
+
+const lookup = () => ({ ...stubRpc(), earliest: 10, latest: 20 });
+
+const at = async (time: Date, inclusive: boolean) => (await firstHeightAtTime(time, inclusive, lookup())).height;
+
+test('a block at exactly the time counts only when inclusive', async () => {
+  assert.equal(await at(timeOf(14), true), 14);
+  assert.equal(await at(timeOf(14), false), 15);
+});
+
+test('a time between two blocks resolves to the later one either way', async () => {
+  const between = new Date(timeOf(14).getTime() + 1);
+  assert.equal(await at(between, true), 15);
+  assert.equal(await at(between, false), 15);
+});
+
+test('the bounds of the served range', async () => {
+  assert.equal(await at(new Date(T0 - 1), true), 10);
+  assert.equal(await at(timeOf(10), true), 10);
+  assert.equal(await at(timeOf(10), false), 11);
+  assert.equal(await at(timeOf(20), true), 20);
+  // Every block is earlier: latest + 1.
+  assert.equal(await at(timeOf(20), false), 21);
+  assert.equal(await at(new Date(timeOf(20).getTime() + 1), true), 21);
+});
+
+test('core.blocks answers first and the RPC is only searched when it does not cover the time', async () => {
+  const l = lookup();
+  const stored: any = { query: async () => ({ rowCount: 1, rows: [{ height: '12' }] }) };
+  assert.deepEqual(await firstHeightAtTime(timeOf(12), true, { ...l, pool: stored }), {
+    height: 12,
+    source: 'core.blocks',
+  });
+  assert.deepEqual(l.fetched, []);
+
+  const uncovered: any = { query: async () => ({ rowCount: 0, rows: [] }) };
+  assert.deepEqual(await firstHeightAtTime(timeOf(12), true, { ...l, pool: uncovered }), {
+    height: 12,
+    source: 'rpc',
+  });
+});
+
+test('resolveTimeRange keeps blocks at exactly either bound', async () => {
+  assert.deepEqual(
+    await resolveTimeRange({ fromTime: timeOf(12).toISOString(), toTime: timeOf(15).toISOString() }, lookup()),
+    {
+      from: 12,
+      to: 15,
+    },
+  );
+  const mid = (h: number) => new Date(timeOf(h).getTime() + 1000).toISOString();
+  assert.deepEqual(await resolveTimeRange({ fromTime: mid(12), toTime: mid(15) }, lookup()), { from: 13, to: 15 });
+});
+
+test('resolveTimeRange rejects bounds outside the served chain and empty ranges', async () => {
+  await assert.rejects(
+    resolveTimeRange({ fromTime: new Date(timeOf(20).getTime() + 1).toISOString() }, lookup()),
+    /after the latest block \(20\)/,
+  );
+  await assert.rejects(
+    resolveTimeRange({ toTime: new Date(T0 - 1).toISOString() }, lookup()),
+    /before the earliest available block \(10\)/,
+  );
+  const mid = new Date(timeOf(12).getTime() + 1000).toISOString();
+  await assert.rejects(resolveTimeRange({ fromTime: mid, toTime: mid }, lookup()), /no block between/);
+});
@@ -0,0 +1,188 @@
+// test/ws.test.ts
+/**
+ * Tests of the `NewBlock` WebSocket subscription and of the follow loop's fallback to polling,
+ * against a local stub of the CometBFT `/websocket` endpoint.
+ */
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import { after, before, test } from 'node:test';
+// @ts-ignore
+import { WebSocketServer } from 'ws';
+import { subscribeNewBlocks } from '../src/rpc/ws.ts';
+import { followLoop } from '../src/runner/follow.ts';
+
+/**
+ * Stub endpoint: answers `subscribe` calls and keeps the subscribed sockets.
+ */
+type StubServer = {
+  url: string;
+  subscribes: any[];
+  sockets: Set<any>;
+  announce: (height: number) => void;
+  dropAll: () => void;
+  close: () => Promise<void>;
+};
+
+async function startStubServer(): Promise<StubServer> {
+  const wss = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+  await new Promise<void>((resolve) => wss.once('listening', () => resolve()));
+  const subscribes: any[] = [];
+  const sockets = new Set<any>();
+  wss.on('connection', (sock: any) => {
+    sock.on('message', (buf: Buffer) => {
+      const msg = JSON.parse(buf.toString());
+      if (msg.method !== 'subscribe') return;
+      subscribes.push(msg);
+      sockets.add(sock);
+      sock.send(JSON.stringify({ jsonrpc: '2.0', id: msg.id, result: {} }));
+    });
+    sock.on('close', () => sockets.delete(sock));
+  });
+  const { port } = wss.address() as AddressInfo;
+  return {
+    url: `ws://127.0.0.1:${port}/websocket`,
+    subscribes,
+    sockets,
+    announce: (height) => {
+      const ev = {
+        jsonrpc: '2.0',
+        id: 1,
+        result: {
+          query: "tm.event='NewBlock'",
+          data: { type: 'tendermint/event/NewBlock', value: { block: { header: { height: String(height) } } } },
+        },
+      };
+      for (const s of sockets) s.send(JSON.stringify(ev));
+    },
+    dropAll: () => {
+      for (const s of sockets) s.terminate();
+    },
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const c of wss.clients) c.terminate();
+        wss.close(() => resolve());
+      }),
+  };
+}
+
+/** Polls `cond` every 10ms until it holds, failing after `timeoutMs`. */
+async function until(cond: () => boolean, timeoutMs = 2000): Promise<void> {
+  const t0 = Date.now();
+  while (!cond()) {
+    if (Date.now() - t0 > timeoutMs) throw new Error('condition not met in time');
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
+let server: StubServer;
+
+before(async () => {
+  server = await startStubServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+const subOpts = () => ({ url: server.url, reconnectBackoffMs: 20, maxReconnectBackoffMs: 100, connectTimeoutMs: 1000 });
+
+test('subscribes to NewBlock and reports announced heights', async () => {
+  const sub = subscribeNewBlocks(subOpts());
+  try {
+    await until(() => sub.connected());
+    assert.equal(server.subscribes.at(-1)?.params?.query, "tm.event='NewBlock'");
+
+    const waiting = sub.waitForBlock(41, 1000);
+    server.announce(42);
+    assert.equal(await waiting, true);
+    assert.equal(sub.latest(), 42);
+
+    // A height at or below the one waited for does not wake the waiter.
+    assert.equal(await sub.waitForBlock(42, 50), false);
+  } finally {
+    sub.close();
+  }
+});
+
+test('reconnects and subscribes again after the connection drops', async () => {
+  const sub = subscribeNewBlocks(subOpts());
+  try {
+    await until(() => sub.connected());
+    const before = server.subscribes.length;
+
+    server.dropAll();
+    await until(() => !sub.connected());
+    await until(() => sub.connected() && server.subscribes.length > before);
+
+    server.announce(7);
+    await until(() => sub.latest() === 7);
+  } finally {
+    sub.close();
+  }
+});
+
+test('follow loop polls /status once no block was announced for wsIdleMs', async () => {
+  const polls: number[] = [];
+  const rpc: any = {
+    fetchStatus: async () => {
+      polls.push(Date.now());
+      return { sync_info: { latest_block_height: '100' } };
+    },
+  };
+  const ac = new AbortController();
+  const loop = followLoop(rpc, {} as any, {} as any, {
+    startNext: 101,
+    pollMs: 20,
+    mode: 'ws',
+    wsUrl: server.url,
+    concurrency: 1,
+    caseMode: 'snake',
+    signal: ac.signal,
+    wsIdleMs: 100,
+  });
+  try {
+    // Polling every pollMs while connecting; once subscribed, one poll per idle period.
+    // Timers never fire early, so two gaps of at least wsIdleMs can only come from idle polling.
+    const gap = (i: number) => polls[i] - polls[i - 1];
+    await until(() => polls.length >= 3 && gap(polls.length - 1) >= 95 && gap(polls.length - 2) >= 95, 10_000);
+  } finally {
+    ac.abort();
+    await loop;
+  }
+});
+
+test('follow loop syncs up to an announced height', async () => {
+  const rpc: any = {
+    fetchStatus: async () => ({ sync_info: { latest_block_height: '100' } }),
+    fetchBlock: async (h: number) => ({
+      block_id: { hash: `H${h}` },
+      block: { header: { chain_id: 'test-1', height: String(h), time: '2024-01-01T00:00:00Z' }, data: { txs: [] } },
+    }),
+    fetchBlockResults: async (h: number) => ({ height: String(h), txs_results: [] }),
+  };
+  const decodePool: any = { rootFor: () => undefined, noteUpgrades: () => false, describe: () => 'stub' };
+  const written: number[] = [];
+  const sink: any = { write: async (b: any) => void written.push(Number(b.meta.height)), flush: async () => {} };
+  const ac = new AbortController();
+  const connectedBefore = server.subscribes.length;
+  const loop = followLoop(rpc, decodePool, sink, {
+    startNext: 101,
+    pollMs: 20,
+    mode: 'ws',
+    wsUrl: server.url,
+    concurrency: 2,
+    caseMode: 'snake',
+    signal: ac.signal,
+    wsIdleMs: 60_000,
+  });
+  try {
+    await until(() => server.subscribes.length > connectedBefore);
+    server.announce(103);
+    // /status still reports 100, so only the announcement can lead to these heights.
+    await until(() => written.length === 3, 10_000);
+    assert.deepEqual(written, [101, 102, 103]);
+  } finally {
+    ac.abort();
+    await loop;
+  }
+});